@@ -0,0 +1,14 @@
+import { readCatalog } from "@/lib/catalogSource";
+
+/** GET /api/catalog – fiyatlar, stok durumu ve para birimleri */
+export async function GET() {
+  try {
+    const catalog = await readCatalog();
+    return Response.json(catalog, {
+      headers: { "Cache-Control": "public, max-age=60" },
+    });
+  } catch (err) {
+    console.error(err);
+    return Response.json({ error: "Katalog şu anda kullanılamıyor" }, { status: 503 });
+  }
+}
@@ -0,0 +1,26 @@
+import { readOrder } from "@/lib/orderStore";
+import type { OrderErrorId, OrderReceipt } from "@/lib/orders";
+
+/** GET /api/orders/:id – sipariş durumu (kişisel bilgiler dönmez) */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const order = await readOrder(id.toUpperCase());
+  if (!order) {
+    const error: OrderErrorId = "notFound";
+    return Response.json({ error }, { status: 404 });
+  }
+
+  const receipt: OrderReceipt = {
+    id: order.id,
+    createdAt: order.createdAt,
+    status: order.status,
+    lines: order.lines,
+    total: order.total,
+    currency: order.currency,
+    preview: order.preview,
+  };
+  return Response.json(receipt);
+}
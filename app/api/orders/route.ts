@@ -0,0 +1,113 @@
+import { readCatalog } from "@/lib/catalogSource";
+import { saveOrder } from "@/lib/orderStore";
+import { priceBreakdown } from "@/lib/pricing";
+import {
+  createOrderId,
+  parseOrderRequest,
+  type Order,
+  type OrderErrorId,
+  type OrderReceipt,
+} from "@/lib/orders";
+
+/** Hata gövdesi – metin istemcide kimlikten çözülür */
+const failure = (error: OrderErrorId, status: number, extra?: object) =>
+  Response.json({ error, ...extra }, { status });
+
+/** Önizleme görseli dahil istek gövdesi sınırı */
+const MAX_BODY_BYTES = 600_000;
+
+/**
+ * Gövdeyi en fazla `limit` bayt okur; sınır aşılırsa null. Bildirilen
+ * content-length önce kontrol edilir, akış da sayılarak okunur – başlık
+ * yanlış veya eksik olsa bile bellek sınırlı kalır.
+ */
+async function readBody(req: Request, limit: number): Promise<string | null> {
+  const declared = Number(req.headers.get("content-length"));
+  if (declared > limit) return null;
+  if (!req.body) return "";
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * POST /api/orders – yapılandırmayı katalogla doğrular, fiyatı yeniden
+ * hesaplar ve siparişi kaydeder. Fiyat istemcinin gösterdiğinden farklıysa
+ * 409 ile güncel toplam döner; kullanıcı yeni fiyatı onaylayıp tekrar gönderir.
+ */
+export async function POST(req: Request) {
+  const raw = await readBody(req, MAX_BODY_BYTES);
+  if (raw === null) {
+    return failure("tooLarge", 413);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return failure("invalidJson", 400);
+  }
+
+  let catalog;
+  try {
+    catalog = await readCatalog();
+  } catch (err) {
+    console.error(err);
+    return failure("catalogUnavailable", 503);
+  }
+
+  const parsed = parseOrderRequest(catalog, body);
+  if (!parsed.ok) {
+    return failure("invalidOrder", 400, { issues: parsed.issues, fields: parsed.fields });
+  }
+
+  const { quotedTotal, ...request } = parsed.request;
+  const lines = priceBreakdown(catalog, request.config);
+  const total = lines.reduce((sum, l) => sum + l.amount, 0);
+  if (total !== quotedTotal) {
+    return failure("priceChanged", 409, { total });
+  }
+
+  const order: Order = {
+    ...request,
+    id: createOrderId(),
+    createdAt: new Date().toISOString(),
+    status: "received",
+    lines,
+    total,
+    currency: catalog.currencies[0].code,
+  };
+  try {
+    await saveOrder(order);
+  } catch (err) {
+    console.error(err);
+    return failure("saveFailed", 500);
+  }
+
+  const receipt: OrderReceipt = {
+    id: order.id,
+    createdAt: order.createdAt,
+    status: order.status,
+    lines,
+    total,
+    currency: order.currency,
+  };
+  return Response.json(receipt, { status: 201 });
+}
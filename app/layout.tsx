@@ -1,5 +1,7 @@
 import type { Metadata, Viewport } from "next";
 import { Inter, Space_Grotesk } from "next/font/google";
+import { headers } from "next/headers";
+import { MESSAGES, detectLocale, parseAcceptLanguage } from "@/lib/i18n";
 import "./globals.css";
 
 const inter = Inter({
@@ -12,11 +14,15 @@ const spaceGrotesk = Space_Grotesk({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "MECHCONFIG — Premium Keyboard Configurator",
-  description:
-    "Interactive 3D mechanical keyboard configurator built with Next.js, React Three Fiber, and Framer Motion.",
-};
+/** İlk yüklemede dil `Accept-Language`'tan; istemci tercihi sonra uygulanır */
+async function requestLocale() {
+  return detectLocale(parseAcceptLanguage((await headers()).get("accept-language")));
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { meta } = MESSAGES[await requestLocale()];
+  return { title: meta.title, description: meta.description };
+}
 
 export const viewport: Viewport = {
   themeColor: "#09090b",
@@ -26,13 +32,13 @@ export const viewport: Viewport = {
   userScalable: false,
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="tr">
+    <html lang={await requestLocale()}>
       <body
         className={`${inter.variable} ${spaceGrotesk.variable} antialiased`}
       >
@@ -1,30 +1,365 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import dynamic from "next/dynamic";
-import { motion } from "framer-motion";
-import { Volume2, VolumeX } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  Volume1,
+  Volume2,
+  VolumeX,
+  Link2,
+  Check,
+  X,
+  Undo2,
+  Redo2,
+  ArrowUpFromLine,
+  Layers,
+  Scan,
+} from "lucide-react";
 import ConfiguratorUI from "@/components/ConfiguratorUI";
-import { useConfiguratorStore } from "@/store/useConfiguratorStore";
+import TypingTest from "@/components/TypingTest";
+import Recorder from "@/components/Recorder";
+import Compare from "@/components/Compare";
+import BuildLibrary from "@/components/BuildLibrary";
+import ExportPanel from "@/components/ExportPanel";
+import { useBuildsStore } from "@/store/useBuildsStore";
+import { useLocaleStore, useMessages, usePriceFormat } from "@/store/useLocaleStore";
+import { useTypingStore } from "@/store/useTypingStore";
+import { isExploded, useViewStore } from "@/store/useViewStore";
+import {
+  useConfiguratorStore,
+  getSnapshot,
+  resolveOption,
+} from "@/store/useConfiguratorStore";
+import {
+  decodeShareParams,
+  encodeShareParams,
+  isCategory,
+  type ShareIssue,
+} from "@/lib/shareUrl";
+import { MASTER_VOLUME } from "@/lib/soundEngine";
+import { LOCALES, optionText } from "@/lib/i18n";
+import type { Messages } from "@/lib/messages";
+import { CAMERA_VIEW_IDS } from "@/lib/cameraViews";
 
-/* ——— 3D Scene – client-only (no SSR for WebGL) ——— */
-const Scene = dynamic(() => import("@/components/Scene"), {
-  ssr: false,
-  loading: () => (
+function SceneLoading() {
+  const t = useMessages();
+  return (
     <div className="flex h-full w-full items-center justify-center bg-zinc-950">
       <div className="flex flex-col items-center gap-4">
         <div className="h-10 w-10 animate-spin rounded-full border-2 border-white/10 border-t-white/50" />
-        <p className="text-sm text-white/30 animate-pulse tracking-wide">
-          Loading 3D Experience…
-        </p>
+        <p className="text-sm text-white/30 animate-pulse tracking-wide">{t.page.loading}</p>
       </div>
     </div>
-  ),
+  );
+}
+
+/* ——— 3D Scene – client-only (no SSR for WebGL) ——— */
+const Scene = dynamic(() => import("@/components/Scene"), {
+  ssr: false,
+  loading: () => <SceneLoading />,
 });
 
+/* ——— URL ⇄ Store senkronizasyonu ——— */
+const URL_SYNC_DEBOUNCE_MS = 250;
+
+/** "Gövde: Navy" – tanınmayan değerler tırnak içinde olduğu gibi gösterilir */
+function shareIssueText(t: Messages, { param, value }: ShareIssue) {
+  if (!isCategory(param)) return `${t.page.shareParams[param]}: "${value}"`;
+  const option = resolveOption(useConfiguratorStore.getState(), param, value);
+  const text = option ? optionText(t, param, option).name : `"${value}"`;
+  return `${t.categories[param].label}: ${text}`;
+}
+
+function useShareableUrl(onIssues: (issues: ShareIssue[]) => void) {
+  useEffect(() => {
+    const store = useConfiguratorStore.getState();
+    store.loadCustomSwitches();
+    store.loadRecentColors();
+    const { snapshot, issues } = decodeShareParams(
+      window.location.search,
+      useConfiguratorStore.getState()
+    );
+    // Kurallarla çelişen seçimler değiştirilir ve kullanıcıya bildirilir
+    const changes = store.applySnapshot(snapshot);
+    const all = [...issues, ...changes.map((c) => ({ param: c.category, value: c.from }))];
+    if (all.length > 0) onIssues(all);
+
+    // Adres çubuğunu güncel tut (history kirletmeden). Slider sürüklemeleri
+    // saniyede onlarca değişiklik üretir; Safari sık replaceState'i
+    // SecurityError ile keser – yazım ertelenir ve yalnızca sorgu değişince yapılır.
+    let lastQuery = window.location.search.replace(/^\?/, "");
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const flush = () => {
+      const query = encodeShareParams(getSnapshot(useConfiguratorStore.getState()));
+      if (query === lastQuery) return;
+      lastQuery = query;
+      window.history.replaceState(null, "", `?${query}`);
+    };
+    const unsubscribe = useConfiguratorStore.subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(flush, URL_SYNC_DEBOUNCE_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [onIssues]);
+}
+
+/* ——— Ses seviyesi – ikon sessize alır / geri açar ——— */
+function VolumeControl() {
+  const volume = useConfiguratorStore((s) => s.volume);
+  const setVolume = useConfiguratorStore((s) => s.setVolume);
+  const t = useMessages();
+  const lastVolume = useRef(MASTER_VOLUME.default);
+  const muted = volume === 0;
+
+  const toggleMute = () => {
+    if (muted) {
+      setVolume(lastVolume.current);
+    } else {
+      lastVolume.current = volume;
+      setVolume(0);
+    }
+  };
+
+  const Icon = muted ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className="flex items-center gap-1 h-9 pl-1 pr-3 rounded-full bg-white/[0.05] border border-white/[0.06]">
+      <motion.button
+        onClick={toggleMute}
+        className="flex items-center justify-center w-7 h-7 rounded-full hover:bg-white/[0.1] transition-colors"
+        whileTap={{ scale: 0.9 }}
+        title={muted ? t.page.unmute : t.page.mute}
+      >
+        <Icon size={14} className={muted ? "text-white/25" : "text-white/50"} />
+      </motion.button>
+      <input
+        type="range"
+        min={MASTER_VOLUME.min}
+        max={MASTER_VOLUME.max}
+        step={0.05}
+        value={volume}
+        onChange={(e) => setVolume(Number(e.target.value))}
+        aria-label={t.page.volume}
+        className="w-16 accent-violet-500"
+      />
+    </div>
+  );
+}
+
+/* ——— Geri al / yinele – Ctrl/⌘+Z, Ctrl/⌘+Shift+Z, Ctrl+Y ——— */
+function HistoryControls() {
+  const canUndo = useConfiguratorStore((s) => s.past.length > 0);
+  const canRedo = useConfiguratorStore((s) => s.future.length > 0);
+  const undo = useConfiguratorStore((s) => s.undo);
+  const redo = useConfiguratorStore((s) => s.redo);
+  const t = useMessages();
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Metin alanında tarayıcının kendi geri alması çalışır
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, [contenteditable]")) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      const action =
+        key === "z" ? (e.shiftKey ? redo : undo) : key === "y" && !e.shiftKey ? redo : null;
+      if (!action) return;
+      // Capture aşamasında tüketilir – KeyboardModel tuşa basmaz
+      e.preventDefault();
+      action();
+    };
+    window.addEventListener("keydown", onKey, true);
+    return () => window.removeEventListener("keydown", onKey, true);
+  }, [undo, redo]);
+
+  return (
+    <div className="flex items-center gap-0.5 h-9 px-1 rounded-full bg-white/[0.05] border border-white/[0.06]">
+      <motion.button
+        onClick={undo}
+        disabled={!canUndo}
+        className="flex items-center justify-center w-7 h-7 rounded-full hover:bg-white/[0.1] transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        whileTap={{ scale: 0.9 }}
+        title={t.page.undo}
+      >
+        <Undo2 size={14} className="text-white/50" />
+      </motion.button>
+      <motion.button
+        onClick={redo}
+        disabled={!canRedo}
+        className="flex items-center justify-center w-7 h-7 rounded-full hover:bg-white/[0.1] transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        whileTap={{ scale: 0.9 }}
+        title={t.page.redo}
+      >
+        <Redo2 size={14} className="text-white/50" />
+      </motion.button>
+    </div>
+  );
+}
+
+/* ——— Patlatılmış görünüm – switch sekmesinde kendiliğinden açık ——— */
+function ViewControls() {
+  const activeCategory = useConfiguratorStore((s) => s.activeCategory);
+  const exploded = useViewStore((s) => isExploded(s, activeCategory));
+  const layers = useViewStore((s) => s.layers);
+  const setExploded = useViewStore((s) => s.setExploded);
+  const setLayers = useViewStore((s) => s.setLayers);
+  const t = useMessages();
+
+  const buttonClass = (active: boolean) =>
+    `flex items-center justify-center w-7 h-7 rounded-full transition-colors disabled:opacity-30 disabled:pointer-events-none ${
+      active ? "bg-white/[0.12] text-white/85" : "text-white/50 hover:bg-white/[0.1]"
+    }`;
+
+  return (
+    <div className="flex items-center gap-0.5 h-9 px-1 rounded-full bg-white/[0.05] border border-white/[0.06]">
+      <motion.button
+        onClick={() => setExploded(!exploded)}
+        disabled={activeCategory === "switches"}
+        aria-pressed={exploded}
+        className={buttonClass(exploded)}
+        whileTap={{ scale: 0.9 }}
+        title={t.page.explodedView}
+      >
+        <ArrowUpFromLine size={14} />
+      </motion.button>
+      <motion.button
+        onClick={() => setLayers(!layers)}
+        disabled={!exploded}
+        aria-pressed={exploded && layers}
+        className={buttonClass(exploded && layers)}
+        whileTap={{ scale: 0.9 }}
+        title={t.page.separateLayers}
+      >
+        <Layers size={14} />
+      </motion.button>
+    </div>
+  );
+}
+
+/* ——— Kamera önayarları ve serbest inceleme (yakınlaştırma / kaydırma) ——— */
+function CameraControls() {
+  const inspect = useViewStore((s) => s.inspect);
+  const setInspect = useViewStore((s) => s.setInspect);
+  const setCameraView = useViewStore((s) => s.setCameraView);
+  const t = useMessages();
+
+  return (
+    <div className="flex flex-col items-stretch gap-0.5 p-1 rounded-2xl bg-white/[0.05] border border-white/[0.06]">
+      <motion.button
+        onClick={() => setInspect(!inspect)}
+        aria-pressed={inspect}
+        className={`flex items-center justify-center h-7 rounded-xl transition-colors ${
+          inspect ? "bg-white/[0.12] text-white/85" : "text-white/50 hover:bg-white/[0.1]"
+        }`}
+        whileTap={{ scale: 0.9 }}
+        title={t.page.inspect}
+      >
+        <Scan size={14} />
+      </motion.button>
+      {CAMERA_VIEW_IDS.map((id) => (
+        <button
+          key={id}
+          onClick={() => setCameraView(id)}
+          className="px-2 h-6 rounded-xl text-[10px] text-white/40 hover:text-white/80 hover:bg-white/[0.08] transition-colors"
+        >
+          {t.page.cameraViews[id]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/* ——— Dil ve para birimi ——— */
+function LocaleControl() {
+  const locale = useLocaleStore((s) => s.locale);
+  const setLocale = useLocaleStore((s) => s.setLocale);
+  const setCurrency = useLocaleStore((s) => s.setCurrency);
+  const currencies = useConfiguratorStore((s) => s.catalog?.currencies);
+  const format = usePriceFormat();
+  const t = useMessages();
+
+  // Sayfa dili ve başlığı seçimi izler (ilk değerler layout'ta sunucudan)
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t.meta.title;
+  }, [locale, t]);
+
+  return (
+    <div
+      className="flex items-center gap-0.5 h-9 px-1 rounded-full bg-white/[0.05] border border-white/[0.06]"
+      title={t.page.localeTitle}
+    >
+      {LOCALES.map((l) => (
+        <button
+          key={l.id}
+          onClick={() => setLocale(l.id)}
+          aria-pressed={l.id === locale}
+          title={l.name}
+          className={`w-7 h-7 rounded-full text-[10px] font-bold font-display transition-colors ${
+            l.id === locale ? "bg-white/[0.12] text-white/85" : "text-white/30 hover:text-white/60"
+          }`}
+        >
+          {l.id.toUpperCase()}
+        </button>
+      ))}
+      {currencies && format && (
+        <select
+          value={format.currency.code}
+          onChange={(e) => setCurrency(e.target.value)}
+          aria-label={t.page.currency}
+          className="h-7 pl-1.5 pr-1 rounded-full bg-transparent text-[10px] text-white/50 outline-none hover:text-white/80 transition-colors"
+        >
+          {currencies.map((c) => (
+            <option key={c.code} value={c.code} className="bg-zinc-900">
+              {c.symbol} {c.code}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
 /* ——— Page ——— */
 export default function Home() {
-  const soundEnabled = useConfiguratorStore((s) => s.soundEnabled);
-  const toggleSound = useConfiguratorStore((s) => s.toggleSound);
+  const [shareIssues, setShareIssues] = useState<ShareIssue[]>([]);
+  const [copied, setCopied] = useState(false);
+  const isTyping = useTypingStore((s) => s.status !== "off");
+  const t = useMessages();
+
+  useShareableUrl(setShareIssues);
+
+  // Kayıtlı dil tercihi, yoksa tarayıcı dili
+  useEffect(() => {
+    useLocaleStore.getState().loadPreferences();
+  }, []);
+
+  // Fiyat / stok kataloğu sunucudan
+  useEffect(() => {
+    useConfiguratorStore.getState().loadCatalog();
+  }, []);
+
+  // Kayıtlı yapılandırmalar – özel switch'ler yüklendikten sonra okunur
+  useEffect(() => {
+    useBuildsStore.getState().loadBuilds();
+  }, []);
+
+  const copyLink = async () => {
+    const query = encodeShareParams(getSnapshot(useConfiguratorStore.getState()));
+    const url = `${window.location.origin}${window.location.pathname}?${query}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1800);
+    } catch {
+      window.prompt(t.page.copyPrompt, url);
+    }
+  };
 
   return (
     <main className="relative h-dvh w-full overflow-hidden bg-zinc-950">
@@ -41,52 +376,120 @@ export default function Home() {
             <span className="text-white/40 font-light">CONFIG</span>
           </h1>
           <p className="text-[11px] text-white/25 mt-0.5 tracking-wide">
-            Premium Keyboard Configurator
+            {t.page.tagline}
           </p>
         </div>
 
         <div className="flex items-center gap-2">
-          {/* Sound toggle */}
+          {/* Undo / redo */}
+          <HistoryControls />
+
+          {/* Exploded view */}
+          <ViewControls />
+
+          {/* Saved builds */}
+          <BuildLibrary />
+
+          {/* Compare */}
+          <Compare />
+
+          {/* Image / turntable export */}
+          <ExportPanel />
+
+          {/* Record / replay */}
+          <Recorder />
+
+          {/* Typing test */}
+          <TypingTest />
+
+          {/* Share link */}
           <motion.button
-            onClick={toggleSound}
+            onClick={copyLink}
             className="flex items-center justify-center w-9 h-9 rounded-full bg-white/[0.05] border border-white/[0.06] hover:bg-white/[0.1] transition-colors"
             whileTap={{ scale: 0.9 }}
-            title={soundEnabled ? "Sesi kapat" : "Sesi aç"}
+            title={copied ? t.page.linkCopied : t.page.share}
           >
-            {soundEnabled ? (
-              <Volume2 size={14} className="text-white/50" />
+            {copied ? (
+              <Check size={14} className="text-emerald-400/80" />
             ) : (
-              <VolumeX size={14} className="text-white/25" />
+              <Link2 size={14} className="text-white/50" />
             )}
           </motion.button>
 
+          {/* Volume */}
+          <VolumeControl />
+
+          {/* Language / currency */}
+          <LocaleControl />
+
           {/* Live badge */}
           <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/[0.05] border border-white/[0.06]">
             <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
             <span className="text-[10px] text-white/40 font-medium tracking-wide">
-              Interactive
+              {t.page.live}
             </span>
           </div>
         </div>
       </motion.header>
 
-      {/* ——— Hint ——— */}
+      {/* ——— Hint (yazma testi açıkken gizli) ——— */}
       <motion.div
         className="absolute top-20 left-0 right-0 z-10 text-center pointer-events-none"
         initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
+        animate={{ opacity: isTyping ? 0 : 1 }}
         transition={{ delay: 2, duration: 1 }}
       >
         <p className="text-[11px] text-white/20 tracking-widest uppercase font-display">
-          Klavyeni kullanarak tuşlara bas ⌨
+          {t.page.hint}
         </p>
       </motion.div>
 
+      {/* ——— Share Notice ——— */}
+      <AnimatePresence>
+        {shareIssues.length > 0 && (
+          <motion.div
+            className="absolute top-28 left-1/2 z-30 -translate-x-1/2 w-[min(92vw,420px)]"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <div className="flex items-start gap-3 rounded-2xl glass px-4 py-3">
+              <div className="flex-1">
+                <p className="text-[11px] font-semibold text-amber-300/90">
+                  {t.page.shareIssueTitle}
+                </p>
+                <p className="text-[10px] text-white/40 mt-0.5">
+                  {t.page.shareIssueBody}{" "}
+                  {shareIssues.map((i) => shareIssueText(t, i)).join(", ")}
+                </p>
+              </div>
+              <button
+                onClick={() => setShareIssues([])}
+                className="text-white/30 hover:text-white/60 transition-colors"
+                title={t.page.close}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* ——— 3D Scene ——— */}
       <div className="absolute inset-0">
         <Scene />
       </div>
 
+      {/* ——— Camera ——— */}
+      <motion.div
+        className="absolute right-5 top-1/2 z-10 -translate-y-1/2"
+        initial={{ opacity: 0, x: 20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ duration: 0.8, delay: 0.8, ease: "easeOut" }}
+      >
+        <CameraControls />
+      </motion.div>
+
       {/* ——— Vignette Overlay ——— */}
       <div
         className="absolute inset-0 pointer-events-none z-[5]"
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Library, Save, FolderOpen, Copy, Pencil, Trash2, Check, X } from "lucide-react";
+import { useConfiguratorStore } from "@/store/useConfiguratorStore";
+import { useBuildsStore } from "@/store/useBuildsStore";
+import { useCompareStore, type CompareSlotId } from "@/store/useCompareStore";
+import { MAX_SAVED_BUILDS, type SavedBuild } from "@/lib/savedBuilds";
+import { localeInfo } from "@/lib/i18n";
+import { useLocaleStore, useMessages } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Build Library – kayıtlı yapılandırmalar
+   —————————————————————————————————————————————— */
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "numeric",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+/** Kaydı karşılaştırma slotuna sabitler */
+function pinBuild(id: CompareSlotId, build: SavedBuild) {
+  const { activeCategory, volume } = useConfiguratorStore.getState();
+  useCompareStore.getState().pinSlot(id, {
+    name: build.name,
+    snapshot: { ...build.config, activeCategory, volume },
+    customLayout: build.customLayout,
+    customSwitches: build.customSwitch ? [build.customSwitch] : [],
+  });
+}
+
+function BuildCard({ build, onOpen }: { build: SavedBuild; onOpen: () => void }) {
+  const renameBuild = useBuildsStore((s) => s.renameBuild);
+  const duplicateBuild = useBuildsStore((s) => s.duplicateBuild);
+  const deleteBuild = useBuildsStore((s) => s.deleteBuild);
+  const full = useBuildsStore((s) => s.builds.length >= MAX_SAVED_BUILDS);
+  const tag = useLocaleStore((s) => localeInfo(s.locale).tag);
+  const t = useMessages();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(build.name);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const commitRename = () => {
+    renameBuild(build.id, draft);
+    setEditing(false);
+  };
+
+  return (
+    <motion.li
+      layout
+      className="flex gap-3 rounded-2xl bg-white/[0.03] border border-white/[0.05] p-2"
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.96 }}
+    >
+      <button
+        onClick={onOpen}
+        className="w-24 h-16 flex-shrink-0 flex items-center justify-center rounded-xl overflow-hidden bg-zinc-900"
+        title={t.builds.load}
+      >
+        {build.thumbnail ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={build.thumbnail} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <Library size={16} className="text-white/15" />
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0 flex flex-col justify-between">
+        {editing ? (
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              commitRename();
+            }}
+          >
+            <input
+              autoFocus
+              value={draft}
+              maxLength={60}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setEditing(false)}
+              className="flex-1 min-w-0 rounded-md bg-white/[0.06] px-2 py-0.5 text-[12px] text-white/85 outline-none focus:ring-1 focus:ring-violet-400/50"
+              aria-label={t.builds.name}
+            />
+            <button type="submit" className="p-1 text-emerald-300/80" title={t.builds.save}>
+              <Check size={12} />
+            </button>
+          </form>
+        ) : (
+          <p className="text-[12px] font-semibold text-white/85 truncate">{build.name}</p>
+        )}
+        <p className="text-[10px] text-white/30">
+          {new Date(build.updatedAt).toLocaleString(tag, DATE_FORMAT)}
+          {failed && <span className="ml-2 text-rose-300/80">{t.builds.storageError}</span>}
+        </p>
+
+        <div className="flex items-center gap-0.5 -ml-1">
+          <button
+            onClick={onOpen}
+            className="p-1 rounded-md text-white/40 hover:text-white/80 hover:bg-white/5 transition-colors"
+            title={t.builds.load}
+          >
+            <FolderOpen size={12} />
+          </button>
+          <button
+            onClick={() => {
+              setDraft(build.name);
+              setEditing(true);
+            }}
+            className="p-1 rounded-md text-white/40 hover:text-white/80 hover:bg-white/5 transition-colors"
+            title={t.builds.rename}
+          >
+            <Pencil size={12} />
+          </button>
+          <button
+            onClick={() => setFailed(duplicateBuild(build.id) === "failed")}
+            disabled={full}
+            className="p-1 rounded-md text-white/40 hover:text-white/80 hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            title={t.builds.duplicate}
+          >
+            <Copy size={12} />
+          </button>
+          {(["a", "b"] as const).map((slot) => (
+            <button
+              key={slot}
+              onClick={() => pinBuild(slot, build)}
+              className="px-1.5 py-0.5 rounded-md text-[10px] font-bold text-violet-300/60 hover:text-violet-200 hover:bg-white/5 transition-colors font-display"
+              title={t.builds.pinAs(slot.toUpperCase())}
+            >
+              {slot.toUpperCase()}
+            </button>
+          ))}
+          <div className="flex-1" />
+          {confirmDelete ? (
+            <>
+              <button
+                onClick={() => deleteBuild(build.id)}
+                className="px-1.5 py-0.5 rounded-md text-[10px] font-semibold text-rose-300 hover:bg-rose-500/10 transition-colors"
+              >
+                {t.builds.remove}
+              </button>
+              <button
+                onClick={() => setConfirmDelete(false)}
+                className="p-1 text-white/30 hover:text-white/60 transition-colors"
+                title={t.builds.cancel}
+              >
+                <X size={12} />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="p-1 rounded-md text-white/30 hover:text-rose-300 hover:bg-white/5 transition-colors"
+              title={t.builds.remove}
+            >
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+    </motion.li>
+  );
+}
+
+export default function BuildLibrary() {
+  const builds = useBuildsStore((s) => s.builds);
+  const saveCurrent = useBuildsStore((s) => s.saveCurrent);
+  const openBuild = useBuildsStore((s) => s.openBuild);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [failed, setFailed] = useState(false);
+  const t = useMessages();
+  const full = builds.length >= MAX_SAVED_BUILDS;
+
+  const save = () => {
+    const result = saveCurrent(name);
+    setFailed(result === "failed");
+    if (result === "saved") setName("");
+  };
+
+  return (
+    <>
+      <motion.button
+        onClick={() => setOpen(true)}
+        className="flex items-center justify-center w-9 h-9 rounded-full bg-white/[0.05] border border-white/[0.06] hover:bg-white/[0.1] transition-colors"
+        whileTap={{ scale: 0.9 }}
+        title={t.builds.open}
+      >
+        <Library size={14} className="text-white/50" />
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => setOpen(false)}
+          >
+            <motion.div
+              className="w-full max-w-lg max-h-[90dvh] overflow-y-auto rounded-3xl glass p-5"
+              initial={{ scale: 0.95, y: 10 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.95, y: 10 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-sm font-semibold text-white/90 font-display">
+                  {t.builds.title}
+                  <span className="ml-2 text-[10px] font-normal text-white/30 tabular-nums">
+                    {builds.length}/{MAX_SAVED_BUILDS}
+                  </span>
+                </h2>
+                <button
+                  onClick={() => setOpen(false)}
+                  className="text-white/30 hover:text-white/60 transition-colors"
+                  title={t.page.close}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  save();
+                }}
+              >
+                <input
+                  value={name}
+                  maxLength={60}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t.builds.newName}
+                  className="flex-1 min-w-0 rounded-xl bg-white/[0.05] border border-white/[0.06] px-3 py-2 text-[12px] text-white/85 placeholder:text-white/25 outline-none focus:border-violet-400/40"
+                  aria-label={t.builds.newName}
+                />
+                <button
+                  type="submit"
+                  disabled={full}
+                  className="flex items-center gap-1.5 px-3 rounded-xl bg-white text-zinc-900 text-[12px] font-semibold hover:bg-white/90 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                  title={full ? t.builds.full : t.builds.saveCurrent}
+                >
+                  <Save size={13} />
+                  {t.builds.save}
+                </button>
+              </form>
+              {failed && (
+                <p className="mt-2 text-[11px] text-rose-300/90">{t.builds.storageError}</p>
+              )}
+
+              {builds.length === 0 ? (
+                <p className="mt-6 mb-2 text-center text-[11px] text-white/30">
+                  {t.builds.empty}
+                </p>
+              ) : (
+                <ul className="mt-4 flex flex-col gap-2">
+                  <AnimatePresence initial={false}>
+                    {builds.map((b) => (
+                      <BuildCard
+                        key={b.id}
+                        build={b}
+                        onOpen={() => {
+                          openBuild(b.id);
+                          setOpen(false);
+                        }}
+                      />
+                    ))}
+                  </AnimatePresence>
+                </ul>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
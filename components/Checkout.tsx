@@ -0,0 +1,437 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowRight, ArrowLeft, Check, Copy, Search, X } from "lucide-react";
+import {
+  useConfiguratorStore,
+  pricedConfig,
+} from "@/store/useConfiguratorStore";
+import { CUSTOM_LAYOUT_ID } from "@/lib/layouts";
+import { captureScene } from "@/lib/sceneCapture";
+import { priceBreakdown, type PriceLine } from "@/lib/pricing";
+import { localeInfo } from "@/lib/i18n";
+import type { Messages } from "@/lib/messages";
+import { useLocaleStore, useMessages, usePriceFormat } from "@/store/useLocaleStore";
+import {
+  CUSTOMER_FIELDS,
+  EMPTY_CUSTOMER,
+  fetchOrder,
+  submitOrder,
+  validateCustomer,
+  type CustomerDetails,
+  type CustomerErrors,
+  type OrderErrorId,
+  type OrderIssue,
+  type OrderReceipt,
+  type OrderRequest,
+} from "@/lib/orders";
+
+/* ——————————————————————————————————————————————
+   Checkout – özet → teslimat bilgileri → onay; sipariş sorgulama
+   —————————————————————————————————————————————— */
+
+type Step = "review" | "details" | "done" | "lookup";
+
+interface Quote {
+  request: Omit<OrderRequest, "customer">;
+  lines: PriceLine[];
+}
+
+/** Store'un o anki durumundan sipariş teklifi; katalog yoksa null */
+function buildQuote(): Quote | null {
+  const state = useConfiguratorStore.getState();
+  if (!state.catalog) return null;
+  const priced = pricedConfig(state);
+  const lines = priceBreakdown(state.catalog, priced);
+  return {
+    request: {
+      config: {
+        ...priced,
+        legendFont: state.legendFont,
+        legendPosition: state.legendPosition,
+        lightingSpeed: state.lightingSpeed,
+        lightingBrightness: state.lightingBrightness,
+      },
+      layout:
+        state.selectedOptions.layout === CUSTOM_LAYOUT_ID && state.customLayout
+          ? state.customLayout
+          : undefined,
+      quotedTotal: lines.reduce((sum, l) => sum + l.amount, 0),
+      preview: captureScene({ width: 640, type: "image/jpeg" }) ?? undefined,
+    },
+    lines,
+  };
+}
+
+const inputClass =
+  "w-full rounded-xl bg-black/40 border px-3 py-2 text-[12px] text-white/80 placeholder:text-white/15 outline-none focus:border-white/20";
+
+/** Kalem etiketi seçili dilde; id'siz eski kayıtlarda sunucunun etiketi */
+function lineLabel(t: Messages, line: PriceLine) {
+  const label = line.id ? t.priceLines[line.id] : undefined;
+  if (!label) return line.label;
+  return line.quantity ? `${label} ×${line.quantity}` : label;
+}
+
+/** Sunucunun kimlikle döndürdüğü doğrulama sorunu, seçili dilde */
+function issueText(t: Messages, issue: OrderIssue) {
+  switch (issue.id) {
+    case "unknownOption":
+    case "optionUnavailable":
+      return t.checkout[issue.id](t.categories[issue.category].label, issue.option);
+    case "incompatible":
+      return t.compatibility[issue.rule] ?? issue.rule;
+    default:
+      return t.checkout.issues[issue.id];
+  }
+}
+
+function PriceLines({ lines, total }: { lines: PriceLine[]; total: number }) {
+  const t = useMessages();
+  const format = usePriceFormat();
+  if (!format) return null;
+  return (
+    <div className="flex flex-col gap-1 text-[11px]">
+      {lines.map((l) => (
+        <div key={l.label} className="flex justify-between text-white/45">
+          <span>{lineLabel(t, l)}</span>
+          <span className="tabular-nums">{format.price(l.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between pt-1.5 mt-0.5 border-t border-white/[0.06] text-[13px] font-bold text-white/90 font-display">
+        <span>{t.checkout.total}</span>
+        <span className="tabular-nums">{format.price(total)}</span>
+      </div>
+    </div>
+  );
+}
+
+function CustomerForm({
+  customer,
+  errors,
+  onChange,
+}: {
+  customer: CustomerDetails;
+  errors: CustomerErrors;
+  onChange: (customer: CustomerDetails) => void;
+}) {
+  const t = useMessages();
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+      {CUSTOMER_FIELDS.map((field) => {
+        const error = errors[field.id];
+        const props = {
+          id: `checkout-${field.id}`,
+          value: customer[field.id],
+          autoComplete: field.autoComplete,
+          "aria-invalid": error !== undefined,
+          className: `${inputClass} ${error ? "border-rose-400/50" : "border-white/[0.06]"}`,
+        };
+        const wide = field.type === "textarea" || field.id === "email";
+        return (
+          <label key={field.id} className={`flex flex-col gap-1 ${wide ? "col-span-2" : ""}`}>
+            <span className="text-[10px] text-white/35">{t.checkout.fields[field.id]}</span>
+            {field.type === "textarea" ? (
+              <textarea
+                {...props}
+                rows={2}
+                className={`${props.className} resize-none`}
+                onChange={(e) => onChange({ ...customer, [field.id]: e.target.value })}
+              />
+            ) : (
+              <input
+                {...props}
+                type={field.type}
+                onChange={(e) => onChange({ ...customer, [field.id]: e.target.value })}
+              />
+            )}
+            {error && (
+              <span className="text-[10px] text-rose-400/90">
+                {t.checkout.fieldErrors[field.id] ?? error}
+              </span>
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+function OrderLookup() {
+  const t = useMessages();
+  const format = usePriceFormat();
+  const tag = useLocaleStore((s) => localeInfo(s.locale).tag);
+  const [id, setId] = useState("");
+  const [result, setResult] = useState<OrderReceipt | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const lookup = async () => {
+    setMessage(null);
+    setResult(null);
+    try {
+      const receipt = await fetchOrder(id.trim());
+      if (receipt) setResult(receipt);
+      else setMessage(t.checkout.notFound);
+    } catch {
+      setMessage(t.checkout.lookupFailed);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <input
+          value={id}
+          onChange={(e) => setId(e.target.value.toUpperCase())}
+          onKeyDown={(e) => e.key === "Enter" && lookup()}
+          placeholder="MK-XXXXXXXX-XXXX"
+          className={`${inputClass} border-white/[0.06] font-mono`}
+        />
+        <button
+          onClick={lookup}
+          disabled={!id.trim()}
+          className="flex items-center gap-1.5 px-4 rounded-xl bg-white/[0.08] text-[11px] text-white/70 hover:bg-white/[0.12] disabled:opacity-40 transition-colors"
+        >
+          <Search size={12} />
+          {t.checkout.search}
+        </button>
+      </div>
+      {message && <p className="text-[11px] text-amber-300/80">{message}</p>}
+      {result && (
+        <div className="flex gap-3 rounded-xl bg-black/30 p-3">
+          {result.preview && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={result.preview} alt="" className="w-28 rounded-lg object-cover" />
+          )}
+          <div className="flex flex-col gap-0.5 text-[11px] text-white/50">
+            <span className="font-mono text-white/80">{result.id}</span>
+            <span>{new Date(result.createdAt).toLocaleString(tag)}</span>
+            <span className="text-emerald-400/80">{t.checkout.received}</span>
+            {format && (
+              <span className="font-bold text-white/80 tabular-nums">
+                {format.price(result.total)}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Checkout() {
+  const hasCatalog = useConfiguratorStore((s) => s.catalog !== null);
+  const loadCatalog = useConfiguratorStore((s) => s.loadCatalog);
+  const t = useMessages();
+  const [step, setStep] = useState<Step | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [customer, setCustomer] = useState<CustomerDetails>(EMPTY_CUSTOMER);
+  const [errors, setErrors] = useState<CustomerErrors>({});
+  const [notice, setNotice] = useState<OrderErrorId | null>(null);
+  const [issues, setIssues] = useState<OrderIssue[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [receipt, setReceipt] = useState<OrderReceipt | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const open = () => {
+    setQuote(buildQuote());
+    setNotice(null);
+    setIssues([]);
+    setStep("review");
+  };
+
+  const close = () => {
+    setStep(null);
+    setSubmitting(false);
+  };
+
+  const submit = async () => {
+    if (!quote) return;
+    const fieldErrors = validateCustomer(customer);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    setSubmitting(true);
+    setNotice(null);
+    setIssues([]);
+    const result = await submitOrder({ ...quote.request, customer });
+    setSubmitting(false);
+
+    if (result.ok) {
+      setReceipt(result.receipt);
+      setStep("done");
+      return;
+    }
+    setErrors(result.fields ?? {});
+    setIssues(result.issues ?? []);
+    setNotice(result.error);
+    // Fiyat değişti: kataloğu tazele, yeni tutarı göster
+    if (result.total !== undefined) {
+      await loadCatalog();
+      setQuote(buildQuote());
+      setStep("review");
+    }
+  };
+
+  const copyId = async () => {
+    if (!receipt) return;
+    try {
+      await navigator.clipboard.writeText(receipt.id);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      window.prompt(t.checkout.orderNumber, receipt.id);
+    }
+  };
+
+
+  return (
+    <>
+      {/* ——— Premium CTA Button ——— */}
+      <motion.button
+        onClick={open}
+        disabled={!hasCatalog}
+        className="group relative px-6 py-2.5 rounded-full overflow-hidden bg-gradient-to-r from-violet-600 to-fuchsia-500 shadow-lg shadow-violet-500/25 disabled:opacity-50"
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        {/* Shine sweep */}
+        <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/25 to-transparent -translate-x-full group-hover:translate-x-full transition-transform duration-700 ease-out" />
+
+        <span className="relative flex items-center gap-1.5 text-[11px] font-bold text-white tracking-wide font-display">
+          {t.checkout.cta}
+          <ArrowRight
+            size={13}
+            className="group-hover:translate-x-0.5 transition-transform"
+          />
+        </span>
+      </motion.button>
+
+      <AnimatePresence>
+        {step && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={close}
+          >
+            <motion.div
+              className="w-full max-w-lg max-h-[90dvh] overflow-y-auto rounded-3xl glass p-5"
+              initial={{ scale: 0.95, y: 10 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.95, y: 10 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-sm font-semibold text-white/90 font-display">{step && t.checkout.titles[step]}</h2>
+                <button
+                  onClick={close}
+                  className="text-white/30 hover:text-white/60 transition-colors"
+                  title={t.page.close}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              {notice && (
+                <div className="mb-3 rounded-xl bg-amber-500/10 border border-amber-400/20 px-3 py-2 text-[11px] text-amber-200/90">
+                  {t.checkout.errors[notice] ?? notice}
+                  {issues.length > 0 && (
+                    <ul className="mt-1 list-disc pl-4 text-amber-200/70">
+                      {issues.map((issue, i) => (
+                        <li key={i}>{issueText(t, issue)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {step === "review" && quote && (
+                <div className="flex flex-col gap-4">
+                  {quote.request.preview && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={quote.request.preview}
+                      alt={t.checkout.previewAlt}
+                      className="w-full rounded-2xl"
+                    />
+                  )}
+                  <PriceLines lines={quote.lines} total={quote.request.quotedTotal} />
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => setStep("lookup")}
+                      className="text-[11px] text-white/35 hover:text-white/60 transition-colors"
+                    >
+                      {t.checkout.lookupPrevious}
+                    </button>
+                    <motion.button
+                      onClick={() => setStep("details")}
+                      className="flex items-center gap-1.5 px-5 py-2 rounded-full bg-gradient-to-r from-violet-600 to-fuchsia-500 text-[11px] font-bold text-white font-display"
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      {t.checkout.next}
+                      <ArrowRight size={12} />
+                    </motion.button>
+                  </div>
+                </div>
+              )}
+
+              {step === "details" && quote && (
+                <div className="flex flex-col gap-4">
+                  <CustomerForm customer={customer} errors={errors} onChange={setCustomer} />
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => setStep("review")}
+                      className="flex items-center gap-1 text-[11px] text-white/35 hover:text-white/60 transition-colors"
+                    >
+                      <ArrowLeft size={12} />
+                      {t.checkout.back}
+                    </button>
+                    <motion.button
+                      onClick={submit}
+                      disabled={submitting}
+                      className="px-5 py-2 rounded-full bg-gradient-to-r from-violet-600 to-fuchsia-500 text-[11px] font-bold text-white font-display disabled:opacity-60"
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      {submitting ? t.checkout.submitting : t.checkout.confirm}
+                    </motion.button>
+                  </div>
+                </div>
+              )}
+
+              {step === "done" && receipt && (
+                <div className="flex flex-col items-center gap-3 text-center">
+                  <div className="flex items-center justify-center w-12 h-12 rounded-full bg-emerald-500/15">
+                    <Check size={22} className="text-emerald-400" />
+                  </div>
+                  <p className="text-[11px] text-white/45">
+                    {t.checkout.trackHint}
+                  </p>
+                  <button
+                    onClick={copyId}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl bg-black/40 font-mono text-[13px] text-white/85"
+                    title={t.checkout.copy}
+                  >
+                    {receipt.id}
+                    {copied ? (
+                      <Check size={12} className="text-emerald-400/80" />
+                    ) : (
+                      <Copy size={12} className="text-white/40" />
+                    )}
+                  </button>
+                  <div className="w-full mt-2">
+                    <PriceLines lines={receipt.lines} total={receipt.total} />
+                  </div>
+                </div>
+              )}
+
+              {step === "lookup" && <OrderLookup />}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
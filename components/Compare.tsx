@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Columns2, Pin, Upload, X, Eye, EyeOff } from "lucide-react";
+import {
+  useConfiguratorStore,
+  CATEGORIES,
+  KEY_ZONES,
+  resolveOption,
+  pricedConfig,
+  type Category,
+} from "@/store/useConfiguratorStore";
+import {
+  useCompareStore,
+  type CompareSlot,
+  type CompareSlotId,
+} from "@/store/useCompareStore";
+import { CASE_MODS } from "@/lib/caseMaterials";
+import { totalPrice } from "@/lib/pricing";
+import { optionText } from "@/lib/i18n";
+import type { Messages } from "@/lib/messages";
+import { useMessages, usePriceFormat } from "@/store/useLocaleStore";
+import type { Catalog } from "@/lib/catalog";
+
+/* ——————————————————————————————————————————————
+   Compare – iki yapılandırmayı sabitle, sahnede yan yana göster
+   —————————————————————————————————————————————— */
+
+const SLOT_IDS: CompareSlotId[] = ["a", "b"];
+
+interface DiffRow {
+  label: string;
+  a: string;
+  b: string;
+}
+
+const optionName = (t: Messages, slot: CompareSlot, category: Category, id: string) => {
+  const option = resolveOption(slot, category, id);
+  return option ? optionText(t, category, option).name : id;
+};
+
+/** Kategori seçimleri + fiyatı etkileyen diğer alanlar */
+function diffRows(t: Messages, a: CompareSlot, b: CompareSlot): (DiffRow & { same: boolean })[] {
+  const selected = (slot: CompareSlot, category: Category) =>
+    optionName(t, slot, category, slot.snapshot.selectedOptions[category]);
+  const keycapZones = (slot: CompareSlot) =>
+    KEY_ZONES.map((z) => optionName(t, slot, "keycaps", slot.snapshot.colorway[z.id])).join(
+      " / "
+    );
+  const effect = (slot: CompareSlot) =>
+    t.lightingEffects[slot.snapshot.lightingEffect] ?? slot.snapshot.lightingEffect;
+  const mods = (slot: CompareSlot) =>
+    CASE_MODS.filter((m) => slot.snapshot.caseMods.includes(m.id))
+      .map((m) => t.caseMods[m.id]?.name ?? m.name)
+      .join(", ") || "—";
+  const painted = (slot: CompareSlot) =>
+    String(Object.keys(slot.snapshot.keyOverrides).length);
+
+  const rows: DiffRow[] = [
+    ...CATEGORIES.map((c) => ({
+      label: t.categories[c.id].label,
+      a: selected(a, c.id),
+      b: selected(b, c.id),
+    })),
+    { label: t.compare.rows.keycapZones, a: keycapZones(a), b: keycapZones(b) },
+    { label: t.compare.rows.painted, a: painted(a), b: painted(b) },
+    { label: t.compare.rows.lighting, a: effect(a), b: effect(b) },
+    { label: t.compare.rows.caseMods, a: mods(a), b: mods(b) },
+  ];
+  return rows.map((r) => ({ ...r, same: r.a === r.b }));
+}
+
+const slotTotal = (catalog: Catalog, slot: CompareSlot) =>
+  totalPrice(catalog, pricedConfig({ ...slot, ...slot.snapshot }));
+
+/* ——— Yan yana görünümde farklar ve fiyat ——— */
+function DiffPanel() {
+  const { a, b } = useCompareStore((s) => s.slots);
+  const setActive = useCompareStore((s) => s.setActive);
+  const catalog = useConfiguratorStore((s) => s.catalog);
+  const format = usePriceFormat();
+  const t = useMessages();
+  const [onlyDiff, setOnlyDiff] = useState(true);
+  if (!a || !b) return null;
+
+  const rows = diffRows(t, a, b).filter((r) => !onlyDiff || !r.same);
+  const prices = catalog && { a: slotTotal(catalog, a), b: slotTotal(catalog, b) };
+
+  return (
+    <motion.div
+      className="fixed top-24 left-1/2 z-30 -translate-x-1/2 w-[min(94vw,560px)] rounded-2xl glass px-4 py-3"
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+    >
+      <div className="grid grid-cols-[1fr_1fr_1fr] gap-x-3 items-baseline">
+        <span className="text-[10px] uppercase tracking-wider text-white/30 font-display">
+          {t.compare.title}
+        </span>
+        {[a, b].map((slot, i) => (
+          <span key={i} className="text-[11px] font-semibold text-white/80 truncate">
+            <span className="text-violet-300/80 mr-1">{i === 0 ? "A" : "B"}</span>
+            {slot.name}
+          </span>
+        ))}
+      </div>
+
+      <div className="mt-2 max-h-[38vh] overflow-y-auto">
+        {rows.length === 0 && (
+          <p className="py-2 text-[11px] text-white/35">{t.compare.identical}</p>
+        )}
+        {rows.map((r) => (
+          <div
+            key={r.label}
+            className="grid grid-cols-[1fr_1fr_1fr] gap-x-3 py-1 border-t border-white/[0.04] text-[11px]"
+          >
+            <span className="text-white/35">{r.label}</span>
+            <span className={r.same ? "text-white/40" : "text-white/80"}>{r.a}</span>
+            <span className={r.same ? "text-white/40" : "text-amber-200/90"}>{r.b}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_1fr] gap-x-3 pt-2 mt-1 border-t border-white/[0.08] items-baseline">
+        <span className="text-[10px] text-white/30">{t.compare.total}</span>
+        {prices && format ? (
+          <>
+            <span className="text-sm font-bold tabular-nums text-white/85 font-display">
+              {format.price(prices.a)}
+            </span>
+            <span className="text-sm font-bold tabular-nums text-white/85 font-display">
+              {format.price(prices.b)}
+              {prices.b !== prices.a && (
+                <span
+                  className={`ml-2 text-[10px] font-medium ${
+                    prices.b > prices.a ? "text-rose-300/80" : "text-emerald-300/80"
+                  }`}
+                >
+                  {format.delta(prices.b - prices.a)}
+                </span>
+              )}
+            </span>
+          </>
+        ) : (
+          <span className="col-span-2 text-[11px] text-white/25">—</span>
+        )}
+      </div>
+
+      <div className="mt-3 flex justify-between">
+        <button
+          onClick={() => setOnlyDiff(!onlyDiff)}
+          className="text-[10px] text-white/40 hover:text-white/70 transition-colors"
+        >
+          {onlyDiff ? t.compare.showAll : t.compare.showDiff}
+        </button>
+        <button
+          onClick={() => setActive(false)}
+          className="text-[10px] font-medium text-white/60 hover:text-white/90 transition-colors"
+        >
+          {t.compare.close}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+export default function Compare() {
+  const slots = useCompareStore((s) => s.slots);
+  const active = useCompareStore((s) => s.active);
+  const pinCurrent = useCompareStore((s) => s.pinCurrent);
+  const clearSlot = useCompareStore((s) => s.clearSlot);
+  const loadSlot = useCompareStore((s) => s.loadSlot);
+  const setActive = useCompareStore((s) => s.setActive);
+  const t = useMessages();
+  const [open, setOpen] = useState(false);
+  const ready = slots.a !== null && slots.b !== null;
+
+  return (
+    <div className="relative">
+      <motion.button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center justify-center w-9 h-9 rounded-full border border-white/[0.06] transition-colors ${
+          open || active ? "bg-white/[0.12]" : "bg-white/[0.05] hover:bg-white/[0.1]"
+        }`}
+        whileTap={{ scale: 0.9 }}
+        title={t.compare.open}
+      >
+        <Columns2 size={14} className={active ? "text-violet-300" : "text-white/50"} />
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="absolute top-11 right-0 w-64 rounded-2xl glass p-3 flex flex-col gap-2"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+          >
+            {SLOT_IDS.map((id) => {
+              const slot = slots[id];
+              return (
+                <div key={id} className="flex items-center gap-2">
+                  <span className="w-5 text-[11px] font-bold text-violet-300/80 font-display">
+                    {id.toUpperCase()}
+                  </span>
+                  <span
+                    className={`flex-1 min-w-0 truncate text-[11px] ${
+                      slot ? "text-white/75" : "text-white/25"
+                    }`}
+                  >
+                    {slot?.name ?? t.compare.emptySlot}
+                  </span>
+                  <button
+                    onClick={() => pinCurrent(id)}
+                    className="p-1 rounded-md text-white/40 hover:text-white/80 hover:bg-white/5 transition-colors"
+                    title={t.compare.pinCurrent}
+                  >
+                    <Pin size={12} />
+                  </button>
+                  <button
+                    onClick={() => loadSlot(id)}
+                    disabled={!slot}
+                    className="p-1 rounded-md text-white/40 hover:text-white/80 hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    title={t.compare.load}
+                  >
+                    <Upload size={12} />
+                  </button>
+                  <button
+                    onClick={() => clearSlot(id)}
+                    disabled={!slot}
+                    className="p-1 rounded-md text-white/40 hover:text-rose-300 hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    title={t.compare.clear}
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              );
+            })}
+
+            <button
+              onClick={() => setActive(!active)}
+              disabled={!ready}
+              className="mt-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[11px] font-semibold bg-white/[0.08] text-white/80 hover:bg-white/[0.14] transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              title={ready ? undefined : t.compare.pinTwoFirst}
+            >
+              {active ? <EyeOff size={12} /> : <Eye size={12} />}
+              {active ? t.compare.backToEditor : t.compare.sideBySide}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>{active && <DiffPanel />}</AnimatePresence>
+    </div>
+  );
+}
@@ -1,14 +1,55 @@
 "use client";
 
-import { useCallback, useRef, useEffect, useMemo } from "react";
+import { useCallback, useRef, useEffect, useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Palette, Keyboard, Cog, ArrowRight } from "lucide-react";
+import {
+  Palette,
+  Keyboard,
+  Cog,
+  LayoutGrid,
+  Type,
+  Layers,
+  Lightbulb,
+  Box,
+  Paintbrush,
+  SlidersHorizontal,
+  Play,
+  Trash2,
+  TriangleAlert,
+} from "lucide-react";
 import {
   useConfiguratorStore,
   CATEGORIES,
-  OPTIONS,
+  availableOptions,
+  findOption,
+  resolveOption,
+  KEY_ZONES,
+  activeSwitchSound,
+  pricedConfig,
+  optionCompatibility,
+  type Category,
   type ConfigOption,
+  type KeycapTarget,
 } from "@/store/useConfiguratorStore";
+import KleImport from "@/components/KleImport";
+import Checkout from "@/components/Checkout";
+import SwitchSpecs from "@/components/SwitchSpecs";
+import CustomColorPicker from "@/components/CustomColorPicker";
+import { LEGEND_FONTS, LEGEND_POSITIONS } from "@/lib/legends";
+import {
+  LIGHTING_BRIGHTNESS,
+  LIGHTING_EFFECTS,
+  LIGHTING_SPEED,
+} from "@/lib/lighting";
+import { SOUND_PARAMS, soundEngine } from "@/lib/soundEngine";
+import { CASE_MODS } from "@/lib/caseMaterials";
+import { isAddonAvailable, isAvailable } from "@/lib/catalog";
+import { totalPrice, type PricedConfig } from "@/lib/pricing";
+import type { OptionCheck } from "@/lib/compatibility";
+import { CUSTOM_COLOR_PALETTES } from "@/lib/colorPalettes";
+import { optionText } from "@/lib/i18n";
+import type { Messages } from "@/lib/messages";
+import { useMessages, usePriceFormat } from "@/store/useLocaleStore";
 
 /* ——————————————————————————————————————————————
    Icon mapping
@@ -16,8 +57,13 @@ import {
 
 const CATEGORY_ICONS = {
   body: Palette,
+  material: Box,
   keycaps: Keyboard,
   switches: Cog,
+  layout: LayoutGrid,
+  legends: Type,
+  profile: Layers,
+  lighting: Lightbulb,
 } as const;
 
 /* ——————————————————————————————————————————————
@@ -27,9 +73,10 @@ const CATEGORY_ICONS = {
 function CategoryTabs() {
   const activeCategory = useConfiguratorStore((s) => s.activeCategory);
   const setActiveCategory = useConfiguratorStore((s) => s.setActiveCategory);
+  const t = useMessages();
 
   return (
-    <div className="flex items-center gap-1 px-3">
+    <div className="flex items-center gap-1 px-3 overflow-x-auto scrollbar-hide">
       {CATEGORIES.map((cat) => {
         const isActive = activeCategory === cat.id;
         const Icon = CATEGORY_ICONS[cat.id];
@@ -37,7 +84,7 @@ function CategoryTabs() {
           <motion.button
             key={cat.id}
             onClick={() => setActiveCategory(cat.id)}
-            className="relative flex-1 px-3 py-2.5 rounded-xl text-center"
+            className="relative flex-1 flex-shrink-0 min-w-[68px] px-3 py-2.5 rounded-xl text-center"
             whileTap={{ scale: 0.96 }}
           >
             {isActive && (
@@ -59,14 +106,14 @@ function CategoryTabs() {
                   isActive ? "text-white" : "text-white/30"
                 }`}
               >
-                {cat.label}
+                {t.categories[cat.id].label}
               </span>
               <span
                 className={`text-[9px] transition-colors duration-300 ${
                   isActive ? "text-white/40" : "text-white/15"
                 }`}
               >
-                {cat.subtitle}
+                {t.categories[cat.id].subtitle}
               </span>
             </span>
           </motion.button>
@@ -80,18 +127,57 @@ function CategoryTabs() {
    Color Swatch
    —————————————————————————————————————————————— */
 
+/** Swatch rengi üzerinde okunabilir metin rengi */
+function readableOn(hex: string) {
+  const n = parseInt(hex.slice(1), 16);
+  const luma = 0.299 * (n >> 16) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255);
+  return luma > 150 ? "rgba(0,0,0,0.7)" : "rgba(255,255,255,0.85)";
+}
+
 interface SwatchProps {
   option: ConfigOption;
+  /** Seçili dildeki ad */
+  name: string;
   isSelected: boolean;
   index: number;
+  /** Seçilirse toplam fiyattaki değişim (biçimlenmiş); fark yoksa undefined */
+  delta?: string;
+  available: boolean;
+  /** Uyumluluk durumu – "blocked" seçilemez, "resolvable" onay ister */
+  compat: OptionCheck;
   onSelect: () => void;
 }
 
-function ColorSwatch({ option, isSelected, index, onSelect }: SwatchProps) {
+/** Kural gerekçeleri seçili dilde; sözlükte yoksa kuralın kendi metni */
+const compatReasons = (t: Messages, compat: Exclude<OptionCheck, { status: "ok" }>) =>
+  compat.rules.map((id, i) => t.compatibility[id] ?? compat.reasons[i]);
+
+function ColorSwatch({
+  option,
+  name,
+  isSelected,
+  index,
+  delta,
+  available,
+  compat,
+  onSelect,
+}: SwatchProps) {
+  const t = useMessages();
+  const blocked = compat.status === "blocked";
+  const enabled = available && !blocked;
+  const title = !available
+    ? t.configurator.outOfStock
+    : compat.status === "ok"
+      ? undefined
+      : compatReasons(t, compat).join("\n");
   return (
     <motion.button
       onClick={onSelect}
-      className="snap-center flex-shrink-0 flex flex-col items-center gap-2 outline-none"
+      disabled={!enabled}
+      title={title}
+      className={`snap-center flex-shrink-0 flex flex-col items-center gap-2 outline-none ${
+        enabled ? "" : "opacity-35 cursor-not-allowed"
+      }`}
       initial={{ opacity: 0, scale: 0.7, y: 14 }}
       animate={{ opacity: 1, scale: 1, y: 0 }}
       transition={{
@@ -128,6 +214,21 @@ function ColorSwatch({ option, isSelected, index, onSelect }: SwatchProps) {
           )}
         </AnimatePresence>
 
+        {option.badge && (
+          <span
+            className="absolute inset-0 flex items-center justify-center text-[11px] font-bold font-display pointer-events-none"
+            style={{ color: readableOn(option.color) }}
+          >
+            {option.badge}
+          </span>
+        )}
+
+        {compat.status === "resolvable" && !isSelected && (
+          <span className="absolute -top-0.5 -right-0.5 w-4 h-4 rounded-full bg-amber-400 text-black flex items-center justify-center pointer-events-none">
+            <TriangleAlert className="w-2.5 h-2.5" strokeWidth={2.5} />
+          </span>
+        )}
+
         {/* Inner shine */}
         <div
           className="absolute inset-[6px] rounded-full pointer-events-none"
@@ -143,12 +244,49 @@ function ColorSwatch({ option, isSelected, index, onSelect }: SwatchProps) {
           isSelected ? "text-white/90" : "text-white/25"
         }`}
       >
-        {option.name}
+        {name}
       </span>
+      {(delta || !enabled) && (
+        <span className="-mt-1.5 text-[9px] tabular-nums text-white/30">
+          {!available
+            ? t.configurator.soldOut
+            : blocked
+              ? t.configurator.incompatible
+              : delta}
+        </span>
+      )}
     </motion.button>
   );
 }
 
+/** Seçeneği seçmenin yapılandırmaya etkisi (fiyat farkı için) */
+function withOption(
+  config: PricedConfig,
+  category: Category,
+  option: ConfigOption,
+  keycapTarget: KeycapTarget
+): PricedConfig {
+  const id = option.basedOn ?? option.id;
+  if (category === "keycaps") {
+    const colorway =
+      keycapTarget === "all"
+        ? { alphas: id, modifiers: id, accents: id }
+        : { ...config.colorway, [keycapTarget]: id };
+    return {
+      ...config,
+      colorway,
+      selectedOptions: { ...config.selectedOptions, keycaps: colorway.alphas },
+    };
+  }
+  return {
+    ...config,
+    selectedOptions: { ...config.selectedOptions, [category]: id },
+    // Işık rengi seçmek kapalı ışığı açar
+    ...(category === "lighting" &&
+      config.lightingEffect === "off" && { lightingEffect: "static" as const }),
+  };
+}
+
 /* ——————————————————————————————————————————————
    Color Carousel
    —————————————————————————————————————————————— */
@@ -157,11 +295,87 @@ function ColorCarousel() {
   const activeCategory = useConfiguratorStore((s) => s.activeCategory);
   const selectedOptions = useConfiguratorStore((s) => s.selectedOptions);
   const selectOption = useConfiguratorStore((s) => s.selectOption);
+  const customLayout = useConfiguratorStore((s) => s.customLayout);
+  const customSwitches = useConfiguratorStore((s) => s.customSwitches);
+  const keycapTarget = useConfiguratorStore((s) => s.keycapTarget);
+  const colorway = useConfiguratorStore((s) => s.colorway);
+  const brush = useConfiguratorStore((s) => s.brush);
+  const keyOverrides = useConfiguratorStore((s) => s.keyOverrides);
+  const lightingEffect = useConfiguratorStore((s) => s.lightingEffect);
+  const caseMods = useConfiguratorStore((s) => s.caseMods);
+  const catalog = useConfiguratorStore((s) => s.catalog);
+  const t = useMessages();
+  const format = usePriceFormat();
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  const options = OPTIONS[activeCategory];
-  const selectedId = selectedOptions[activeCategory];
+  // Keycap'lerde seçili swatch, hedef bölgeye (veya fırçaya) göre değişir
+  const selectedId =
+    activeCategory !== "keycaps" || keycapTarget === "all"
+      ? selectedOptions[activeCategory]
+      : keycapTarget === "paint"
+        ? brush
+        : colorway[keycapTarget];
+
+  // Seçili özel renk listenin sonunda kendi swatch'ıyla görünür
+  const options = useMemo(() => {
+    const list = availableOptions({ customLayout, customSwitches }, activeCategory);
+    const custom = !list.some((o) => o.id === selectedId) && findOption(activeCategory, selectedId);
+    return custom ? [...list, custom] : list;
+  }, [customLayout, customSwitches, activeCategory, selectedId]);
+
+  // Fırça seçimi fiyatı değiştirmez – paint modunda fark gösterilmez
+  const deltas = useMemo(() => {
+    if (!catalog || !format || (activeCategory === "keycaps" && keycapTarget === "paint")) {
+      return null;
+    }
+    const config = pricedConfig({
+      customLayout,
+      customSwitches,
+      selectedOptions,
+      colorway,
+      keyOverrides,
+      lightingEffect,
+      caseMods,
+    });
+    const current = totalPrice(catalog, config);
+    return new Map(
+      options.map((o) => {
+        const diff =
+          totalPrice(catalog, withOption(config, activeCategory, o, keycapTarget)) - current;
+        return [o.id, diff === 0 ? undefined : format.delta(diff)];
+      })
+    );
+  }, [
+    catalog,
+    format,
+    options,
+    activeCategory,
+    keycapTarget,
+    customLayout,
+    customSwitches,
+    selectedOptions,
+    colorway,
+    keyOverrides,
+    lightingEffect,
+    caseMods,
+  ]);
   const selectedOption = options.find((o) => o.id === selectedId);
+  const selectedText = selectedOption && optionText(t, activeCategory, selectedOption);
+
+  const compat = useMemo(
+    () =>
+      new Map(
+        options.map((o) => [
+          o.id,
+          optionCompatibility(
+            { customLayout, customSwitches, selectedOptions, catalog },
+            activeCategory,
+            o.id
+          ),
+        ])
+      ),
+    [options, customLayout, customSwitches, selectedOptions, catalog, activeCategory]
+  );
 
   const handleSelect = useCallback(
     (option: ConfigOption) => {
@@ -206,8 +420,12 @@ function ColorCarousel() {
               <ColorSwatch
                 key={opt.id}
                 option={opt}
+                name={optionText(t, activeCategory, opt).name}
                 isSelected={opt.id === selectedId}
                 index={i}
+                delta={deltas?.get(opt.id)}
+                available={isAvailable(catalog, activeCategory, opt.id)}
+                compat={compat.get(opt.id) ?? { status: "ok" }}
                 onSelect={() => handleSelect(opt)}
               />
             ))}
@@ -216,7 +434,7 @@ function ColorCarousel() {
       </div>
 
       <AnimatePresence mode="wait">
-        {selectedOption && (
+        {selectedOption && selectedText && (
           <motion.div
             key={selectedOption.id}
             className="text-center px-4"
@@ -226,11 +444,11 @@ function ColorCarousel() {
             transition={{ duration: 0.15 }}
           >
             <p className="text-sm font-semibold text-white/80 font-display">
-              {selectedOption.name}
+              {selectedText.name}
             </p>
-            {selectedOption.description && (
+            {selectedText.description && (
               <p className="text-[11px] text-white/35 mt-0.5">
-                {selectedOption.description}
+                {selectedText.description}
               </p>
             )}
           </motion.div>
@@ -241,34 +459,426 @@ function ColorCarousel() {
 }
 
 /* ——————————————————————————————————————————————
-   Summary Footer (dynamic pricing + CTA)
+   Uyumluluk çözümü (seçim başka bir seçimi geçersiz kılıyorsa)
    —————————————————————————————————————————————— */
 
-const PREMIUM_BODIES = new Set(["burgundy", "forest", "rose"]);
-const PREMIUM_KEYCAPS = new Set(["matcha", "lavender", "sunset"]);
-const PREMIUM_SWITCHES = new Set(["speed", "black"]);
+function ResolutionBanner() {
+  const pending = useConfiguratorStore((s) => s.pendingResolution);
+  const customLayout = useConfiguratorStore((s) => s.customLayout);
+  const customSwitches = useConfiguratorStore((s) => s.customSwitches);
+  const applyResolution = useConfiguratorStore((s) => s.applyResolution);
+  const dismissResolution = useConfiguratorStore((s) => s.dismissResolution);
+  const t = useMessages();
+
+  const nameOf = (category: Category, id: string) => {
+    const option = resolveOption({ customLayout, customSwitches }, category, id);
+    return option ? optionText(t, category, option).name : id;
+  };
+
+  return (
+    <AnimatePresence>
+      {pending && (
+        <motion.div
+          key={`${pending.category}-${pending.optionId}`}
+          className="mt-2 mx-1 rounded-2xl border border-amber-400/25 bg-amber-400/[0.06] px-4 py-3"
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          transition={{ duration: 0.2 }}
+        >
+          <div className="flex items-start gap-2.5">
+            <TriangleAlert className="w-4 h-4 mt-0.5 text-amber-300 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold text-white/85">
+                {t.configurator.changesNeeded(nameOf(pending.category, pending.optionId))}
+              </p>
+              <ul className="mt-1.5 flex flex-col gap-1">
+                {pending.changes.map((ch) => (
+                  <li key={ch.category} className="text-[11px] text-white/55">
+                    <span className="text-white/75">{t.categories[ch.category].label}:</span>{" "}
+                    {nameOf(ch.category, ch.from)} → {nameOf(ch.category, ch.to)}
+                    <span className="block text-[10px] text-white/30">{t.compatibility[ch.rule] ?? ch.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              onClick={dismissResolution}
+              className="px-3 py-1.5 rounded-lg text-[11px] font-medium text-white/50 hover:text-white/80 hover:bg-white/5 transition-colors"
+            >
+              {t.configurator.cancel}
+            </button>
+            <button
+              onClick={applyResolution}
+              className="px-3 py-1.5 rounded-lg text-[11px] font-semibold bg-amber-400 text-black hover:bg-amber-300 transition-colors"
+            >
+              {t.configurator.apply}
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Segmented Control (kategoriye özel alt seçenekler)
+   —————————————————————————————————————————————— */
+
+interface SegmentedProps<T extends string> {
+  items: { id: T; name: string }[];
+  value: T;
+  onChange: (id: T) => void;
+}
+
+function Segmented<T extends string>({ items, value, onChange }: SegmentedProps<T>) {
+  return (
+    <div className="flex items-center gap-0.5 p-0.5 rounded-full bg-white/[0.04] border border-white/[0.05]">
+      {items.map((item) => (
+        <button
+          key={item.id}
+          onClick={() => onChange(item.id)}
+          className={`px-2.5 py-1 rounded-full text-[10px] font-medium transition-colors ${
+            item.id === value
+              ? "bg-white/[0.12] text-white/90"
+              : "text-white/30 hover:text-white/60"
+          }`}
+        >
+          {item.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function LegendControls() {
+  const legendFont = useConfiguratorStore((s) => s.legendFont);
+  const legendPosition = useConfiguratorStore((s) => s.legendPosition);
+  const setLegendFont = useConfiguratorStore((s) => s.setLegendFont);
+  const setLegendPosition = useConfiguratorStore((s) => s.setLegendPosition);
+  const t = useMessages();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 px-4">
+      <Segmented items={LEGEND_FONTS} value={legendFont} onChange={setLegendFont} />
+      <Segmented
+        items={LEGEND_POSITIONS.map((p) => ({ id: p.id, name: t.legendPositions[p.id] }))}
+        value={legendPosition}
+        onChange={setLegendPosition}
+      />
+    </div>
+  );
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  range: { min: number; max: number };
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+function Slider({ label, value, range, step, format, onChange }: SliderProps) {
+  return (
+    <label className="flex items-center gap-2 text-[10px] text-white/35">
+      <span className="w-16 text-right">{label}</span>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-28 accent-violet-500"
+      />
+      <span className="w-8 tabular-nums text-white/50">{format(value)}</span>
+    </label>
+  );
+}
+
+function LightingControls() {
+  const lightingEffect = useConfiguratorStore((s) => s.lightingEffect);
+  const lightingSpeed = useConfiguratorStore((s) => s.lightingSpeed);
+  const lightingBrightness = useConfiguratorStore((s) => s.lightingBrightness);
+  const setLightingEffect = useConfiguratorStore((s) => s.setLightingEffect);
+  const setLightingSpeed = useConfiguratorStore((s) => s.setLightingSpeed);
+  const setLightingBrightness = useConfiguratorStore(
+    (s) => s.setLightingBrightness
+  );
+  const animated = lightingEffect !== "off" && lightingEffect !== "static";
+  const t = useMessages();
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 px-4">
+      <Segmented
+        items={LIGHTING_EFFECTS.map((e) => ({ id: e.id, name: t.lightingEffects[e.id] }))}
+        value={lightingEffect}
+        onChange={setLightingEffect}
+      />
+      {lightingEffect !== "off" && (
+        <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1">
+          <Slider
+            label={t.configurator.brightness}
+            value={lightingBrightness}
+            range={LIGHTING_BRIGHTNESS}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={setLightingBrightness}
+          />
+          {animated && (
+            <Slider
+              label={t.configurator.speed}
+              value={lightingSpeed}
+              range={LIGHTING_SPEED}
+              step={0.25}
+              format={(v) => `${v}×`}
+              onChange={setLightingSpeed}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Sönümleme modları – birden fazlası aynı anda seçilebilir */
+function CaseModControls() {
+  const caseMods = useConfiguratorStore((s) => s.caseMods);
+  const toggleCaseMod = useConfiguratorStore((s) => s.toggleCaseMod);
+  const catalog = useConfiguratorStore((s) => s.catalog);
+  const t = useMessages();
+  const format = usePriceFormat();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-1.5 px-4">
+      {CASE_MODS.map((mod) => {
+        const text = t.caseMods[mod.id] ?? mod;
+        const isOn = caseMods.includes(mod.id);
+        const available = isOn || isAddonAvailable(catalog, mod.id);
+        const price = catalog?.addons[mod.id]?.price;
+        return (
+          <button
+            key={mod.id}
+            onClick={() => toggleCaseMod(mod.id)}
+            disabled={!available}
+            title={available ? text.description : t.configurator.outOfStock}
+            aria-pressed={isOn}
+            className={`px-2.5 py-1 rounded-full text-[10px] font-medium border transition-colors disabled:opacity-35 disabled:cursor-not-allowed ${
+              isOn
+                ? "bg-violet-500/20 border-violet-400/30 text-white/90"
+                : "bg-white/[0.04] border-white/[0.05] text-white/35 hover:text-white/60"
+            }`}
+          >
+            {text.name}
+            {format && price !== undefined && (
+              <span className="ml-1 tabular-nums text-white/30">
+                {format.delta(price)}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Ondalık adımların kayan nokta artıklarını gizler */
+const linkClass =
+  "flex items-center gap-1 text-[10px] text-white/40 hover:text-white/70 transition-colors";
+
+const formatParam = (value: number, unit: string) =>
+  `${Number(value.toFixed(3))}${unit && ` ${unit}`}`;
+
+function SoundControls() {
+  const sound = useConfiguratorStore(activeSwitchSound);
+  const isTuned = useConfiguratorStore((s) => s.soundTuning !== null);
+  const switchId = useConfiguratorStore((s) => s.selectedOptions.switches);
+  const isCustom = useConfiguratorStore((s) =>
+    s.customSwitches.some((o) => o.id === s.selectedOptions.switches)
+  );
+  const tuneSound = useConfiguratorStore((s) => s.tuneSound);
+  const resetSoundTuning = useConfiguratorStore((s) => s.resetSoundTuning);
+  const saveCustomSwitch = useConfiguratorStore((s) => s.saveCustomSwitch);
+  const deleteCustomSwitch = useConfiguratorStore((s) => s.deleteCustomSwitch);
+  const t = useMessages();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const preview = () => {
+    soundEngine.playDown(sound);
+    setTimeout(() => soundEngine.playUp(sound), 90);
+  };
+
+  const save = () => {
+    saveCustomSwitch(name, t.configurator.customSwitch);
+    setName("");
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 px-4">
+      <div className="flex items-center gap-3">
+        <button onClick={() => setOpen((o) => !o)} className={linkClass}>
+          <SlidersHorizontal size={10} />
+          {t.configurator.soundTuning}
+        </button>
+        <button onClick={preview} className={linkClass}>
+          <Play size={10} />
+          {t.configurator.listen}
+        </button>
+        <SwitchSpecs className={linkClass} />
+        {isCustom && (
+          <button onClick={() => deleteCustomSwitch(switchId)} className={linkClass}>
+            <Trash2 size={10} />
+            {t.configurator.remove}
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {SOUND_PARAMS.map((param) => (
+              <Slider
+                key={param.key}
+                label={t.soundParams[param.key]}
+                value={sound[param.key]}
+                range={param}
+                step={param.step}
+                format={(v) => formatParam(v, param.unit)}
+                onChange={(v) => tuneSound({ [param.key]: v })}
+              />
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && save()}
+              placeholder={t.configurator.customSwitchName}
+              maxLength={32}
+              className="w-36 rounded-full bg-black/40 border border-white/[0.06] px-3 py-1 text-[10px] text-white/70 placeholder:text-white/20 outline-none focus:border-white/20"
+            />
+            <button
+              onClick={save}
+              className="px-3 py-1 rounded-full bg-white/[0.08] text-[10px] font-medium text-white/70 hover:bg-white/[0.14] transition-colors"
+            >
+              {t.configurator.saveAsSwitch}
+            </button>
+            {isTuned && (
+              <button onClick={resetSoundTuning} className={linkClass}>
+                {t.configurator.reset}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function KeycapControls() {
+  const keycapTarget = useConfiguratorStore((s) => s.keycapTarget);
+  const setKeycapTarget = useConfiguratorStore((s) => s.setKeycapTarget);
+  const overrideCount = useConfiguratorStore(
+    (s) => Object.keys(s.keyOverrides).length
+  );
+  const clearKeyOverrides = useConfiguratorStore((s) => s.clearKeyOverrides);
+  const t = useMessages();
+  const targets: { id: KeycapTarget; name: string }[] = [
+    { id: "all", name: t.keycapTargets.all },
+    ...KEY_ZONES.map((z) => ({ id: z.id, name: t.keyZones[z.id] })),
+    { id: "paint", name: t.keycapTargets.paint },
+  ];
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 px-4">
+      <Segmented
+        items={targets}
+        value={keycapTarget}
+        onChange={setKeycapTarget}
+      />
+      {(keycapTarget === "paint" || overrideCount > 0) && (
+        <div className="flex items-center gap-2 text-[10px] text-white/30">
+          {keycapTarget === "paint" && (
+            <span className="flex items-center gap-1">
+              <Paintbrush size={10} />
+              {t.configurator.paintHint}
+            </span>
+          )}
+          {overrideCount > 0 && (
+            <button
+              onClick={clearKeyOverrides}
+              className="text-white/40 hover:text-white/70 underline underline-offset-2"
+            >
+              {t.configurator.clearPainted(overrideCount)}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Summary Footer (dynamic pricing + CTA)
+   —————————————————————————————————————————————— */
 
 function SummaryFooter() {
   const bodyColor = useConfiguratorStore((s) => s.bodyColor);
   const keycapColor = useConfiguratorStore((s) => s.keycapColor);
   const switchColor = useConfiguratorStore((s) => s.switchColor);
   const selectedOptions = useConfiguratorStore((s) => s.selectedOptions);
+  const colorway = useConfiguratorStore((s) => s.colorway);
+  const keyOverrides = useConfiguratorStore((s) => s.keyOverrides);
+  const lightingEffect = useConfiguratorStore((s) => s.lightingEffect);
+  const caseMods = useConfiguratorStore((s) => s.caseMods);
+  const catalog = useConfiguratorStore((s) => s.catalog);
+  const catalogError = useConfiguratorStore((s) => s.catalogError);
+  const customLayout = useConfiguratorStore((s) => s.customLayout);
+  const customSwitches = useConfiguratorStore((s) => s.customSwitches);
+  const t = useMessages();
+  const format = usePriceFormat();
+  const paintedCount = Object.keys(keyOverrides).length;
 
-  const bodyOpt = OPTIONS.body.find((o) => o.id === selectedOptions.body);
-  const keycapOpt = OPTIONS.keycaps.find(
-    (o) => o.id === selectedOptions.keycaps
-  );
-  const switchOpt = OPTIONS.switches.find(
-    (o) => o.id === selectedOptions.switches
-  );
+  const nameOf = (category: Category) => {
+    const option = resolveOption(
+      { customLayout, customSwitches },
+      category,
+      selectedOptions[category]
+    );
+    return option && optionText(t, category, option).name;
+  };
 
+  // Katalog yüklenene kadar fiyat gösterilmez
   const price = useMemo(() => {
-    let total = 349;
-    if (PREMIUM_BODIES.has(selectedOptions.body)) total += 30;
-    if (PREMIUM_KEYCAPS.has(selectedOptions.keycaps)) total += 25;
-    if (PREMIUM_SWITCHES.has(selectedOptions.switches)) total += 15;
-    return total;
-  }, [selectedOptions]);
+    if (!catalog || !format) return null;
+    const total = totalPrice(
+      catalog,
+      pricedConfig({
+        customLayout,
+        customSwitches,
+        selectedOptions,
+        colorway,
+        keyOverrides,
+        lightingEffect,
+        caseMods,
+      })
+    );
+    return format.price(total);
+  }, [
+    catalog,
+    format,
+    customLayout,
+    customSwitches,
+    selectedOptions,
+    colorway,
+    keyOverrides,
+    lightingEffect,
+    caseMods,
+  ]);
 
   return (
     <div className="flex items-center justify-between px-4 pt-3 mt-2 border-t border-white/[0.05]">
@@ -287,10 +897,13 @@ function SummaryFooter() {
         </div>
         <div className="flex flex-col">
           <span className="text-[10px] text-white/30 leading-tight">
-            {bodyOpt?.name} · {keycapOpt?.name}
+            {nameOf("body")} {nameOf("material")} · {nameOf("keycaps")}{" "}
+            {nameOf("profile")}
+            {paintedCount > 0 && ` · ${t.configurator.customKeys(paintedCount)}`}
           </span>
           <span className="text-[10px] text-white/20 leading-tight">
-            {switchOpt?.name}
+            {nameOf("layout")} · {nameOf("switches")}
+            {lightingEffect !== "off" && " · RGB"}
           </span>
         </div>
       </div>
@@ -299,34 +912,22 @@ function SummaryFooter() {
       <div className="flex items-center gap-3">
         <AnimatePresence mode="wait">
           <motion.span
-            key={price}
-            className="text-base font-bold text-white/90 tabular-nums font-display"
+            key={price ?? "pending"}
+            className={`text-base font-bold tabular-nums font-display ${
+              price ? "text-white/90" : "text-white/25"
+            }`}
             initial={{ opacity: 0, y: 8 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -8 }}
             transition={{ duration: 0.15 }}
+            title={catalogError ? t.page.catalogUnavailable : undefined}
           >
-            ${price}
+            {price ?? "—"}
           </motion.span>
         </AnimatePresence>
 
-        {/* ——— Premium CTA Button ——— */}
-        <motion.button
-          className="group relative px-6 py-2.5 rounded-full overflow-hidden bg-gradient-to-r from-violet-600 to-fuchsia-500 shadow-lg shadow-violet-500/25"
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-        >
-          {/* Shine sweep */}
-          <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/25 to-transparent -translate-x-full group-hover:translate-x-full transition-transform duration-700 ease-out" />
-
-          <span className="relative flex items-center gap-1.5 text-[11px] font-bold text-white tracking-wide font-display">
-            Sipariş Ver
-            <ArrowRight
-              size={13}
-              className="group-hover:translate-x-0.5 transition-transform"
-            />
-          </span>
-        </motion.button>
+        {/* ——— CTA + checkout ——— */}
+        <Checkout />
       </div>
     </div>
   );
@@ -337,6 +938,8 @@ function SummaryFooter() {
    —————————————————————————————————————————————— */
 
 export default function ConfiguratorUI() {
+  const activeCategory = useConfiguratorStore((s) => s.activeCategory);
+
   return (
     <div className="absolute bottom-0 left-0 right-0 z-20 pointer-events-none">
       <motion.div
@@ -354,6 +957,46 @@ export default function ConfiguratorUI() {
         <div className="mt-3">
           <ColorCarousel />
         </div>
+        <ResolutionBanner />
+        {CUSTOM_COLOR_PALETTES[activeCategory] && (
+          <div className="mt-2">
+            <CustomColorPicker
+              key={activeCategory}
+              category={activeCategory}
+              className={linkClass}
+            />
+          </div>
+        )}
+        {activeCategory === "material" && (
+          <div className="mt-2">
+            <CaseModControls />
+          </div>
+        )}
+        {activeCategory === "layout" && (
+          <div className="mt-2">
+            <KleImport />
+          </div>
+        )}
+        {activeCategory === "keycaps" && (
+          <div className="mt-2">
+            <KeycapControls />
+          </div>
+        )}
+        {activeCategory === "legends" && (
+          <div className="mt-2">
+            <LegendControls />
+          </div>
+        )}
+        {activeCategory === "switches" && (
+          <div className="mt-2">
+            <SoundControls />
+          </div>
+        )}
+        {activeCategory === "lighting" && (
+          <div className="mt-2">
+            <LightingControls />
+          </div>
+        )}
         <SummaryFooter />
       </motion.div>
     </div>
@@ -0,0 +1,244 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Pipette } from "lucide-react";
+import {
+  useConfiguratorStore,
+  findOption,
+  type Category,
+} from "@/store/useConfiguratorStore";
+import {
+  CUSTOM_COLOR_PALETTES,
+  hexToRgb,
+  hsvToRgb,
+  nearestPaletteColor,
+  paletteColor,
+  parseHex,
+  rgbToHex,
+  rgbToHsv,
+  type Hsv,
+  type PaletteColor,
+  type Rgb,
+} from "@/lib/colorPalettes";
+import { useMessages, usePriceFormat } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Custom Color Picker – serbest renk, üretilebilir palete oturtulur
+   —————————————————————————————————————————————— */
+
+/** Bu farkın altında iki renk göz için aynıdır (CIE76) */
+const JUST_NOTICEABLE_DELTA_E = 2.3;
+
+const RGB_CHANNELS = ["r", "g", "b"] as const;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/** Doygunluk (x) / parlaklık (y) karesi */
+function SaturationValue({ hsv, onChange }: { hsv: Hsv; onChange: (hsv: Hsv) => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const pick = (e: React.PointerEvent) => {
+    const rect = ref.current?.getBoundingClientRect();
+    if (!rect) return;
+    onChange({
+      h: hsv.h,
+      s: clamp01((e.clientX - rect.left) / rect.width),
+      v: 1 - clamp01((e.clientY - rect.top) / rect.height),
+    });
+  };
+
+  return (
+    <div
+      ref={ref}
+      className="relative w-36 h-24 rounded-lg cursor-crosshair touch-none shrink-0"
+      style={{
+        background: `linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, hsl(${hsv.h} 100% 50%))`,
+      }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pick(e);
+      }}
+      onPointerMove={(e) => e.buttons === 1 && pick(e)}
+    >
+      <div
+        className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow pointer-events-none"
+        style={{ left: `${hsv.s * 100}%`, top: `${(1 - hsv.v) * 100}%` }}
+      />
+    </div>
+  );
+}
+
+function ColorDot({ color, title }: { color: string; title?: string }) {
+  return (
+    <span
+      className="w-5 h-5 rounded-full border border-white/15 shrink-0"
+      style={{ background: color }}
+      title={title}
+    />
+  );
+}
+
+export default function CustomColorPicker({
+  category,
+  className,
+}: {
+  category: Category;
+  className?: string;
+}) {
+  const palette = CUSTOM_COLOR_PALETTES[category];
+  const selectedId = useConfiguratorStore((s) => s.selectedOptions[category]);
+  const recentIds = useConfiguratorStore((s) => s.recentColors[category]);
+  const selectPaletteColor = useConfiguratorStore((s) => s.selectPaletteColor);
+  const catalog = useConfiguratorStore((s) => s.catalog);
+  const t = useMessages();
+  const format = usePriceFormat();
+  const [open, setOpen] = useState(false);
+  // Seçici mevcut seçimin renginden başlar
+  const [hsv, setHsv] = useState<Hsv>(() =>
+    rgbToHsv(hexToRgb(findOption(category, selectedId)?.color ?? "#808080"))
+  );
+  const [hexDraft, setHexDraft] = useState<string | null>(null);
+
+  const hex = rgbToHex(hsvToRgb(hsv));
+  const rgb = hexToRgb(hex);
+  const recent = (recentIds ?? [])
+    .map((id) => paletteColor(category, id))
+    .filter((c): c is PaletteColor => c !== undefined);
+
+  if (!palette) return null;
+  const nearest = nearestPaletteColor(palette, hex);
+
+  const setColor = (next: string) => {
+    setHsv(rgbToHsv(hexToRgb(next)));
+    setHexDraft(null);
+  };
+
+  const commitHex = (input: string) => {
+    const parsed = parseHex(input);
+    if (parsed) setColor(parsed);
+    else setHexDraft(null);
+  };
+
+  const setChannel = (channel: keyof Rgb, value: number) => {
+    if (Number.isNaN(value)) return;
+    setColor(rgbToHex({ ...rgb, [channel]: Math.min(Math.max(value, 0), 255) }));
+  };
+
+  const exact = nearest.deltaE < JUST_NOTICEABLE_DELTA_E;
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 px-4">
+      <button onClick={() => setOpen((o) => !o)} className={className}>
+        <Pipette size={10} />
+        {t.customColor.open}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="flex items-start gap-3 rounded-2xl bg-black/30 border border-white/[0.06] p-3"
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 6 }}
+            transition={{ duration: 0.15 }}
+          >
+            <div className="flex flex-col gap-2">
+              <SaturationValue hsv={hsv} onChange={setHsv} />
+              <input
+                type="range"
+                min={0}
+                max={359}
+                value={Math.round(hsv.h)}
+                onChange={(e) => setHsv({ ...hsv, h: Number(e.target.value) })}
+                className="w-36 h-2 rounded-full appearance-none cursor-pointer"
+                style={{
+                  background:
+                    "linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)",
+                }}
+              />
+            </div>
+
+            <div className="flex flex-col gap-2 text-[10px] text-white/35">
+              <div className="flex items-center gap-1.5">
+                <span className="w-6">Hex</span>
+                <input
+                  value={hexDraft ?? hex}
+                  onChange={(e) => setHexDraft(e.target.value)}
+                  onBlur={(e) => commitHex(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && commitHex(e.currentTarget.value)}
+                  maxLength={7}
+                  spellCheck={false}
+                  className="w-20 rounded-full bg-black/40 border border-white/[0.06] px-2 py-0.5 font-mono text-white/70 outline-none focus:border-white/20"
+                />
+              </div>
+              <div className="flex items-center gap-1.5">
+                {RGB_CHANNELS.map((channel) => (
+                  <label key={channel} className="flex items-center gap-1 uppercase">
+                    {channel}
+                    <input
+                      type="number"
+                      min={0}
+                      max={255}
+                      value={rgb[channel]}
+                      onChange={(e) => setChannel(channel, Number(e.target.value))}
+                      className="w-11 rounded-full bg-black/40 border border-white/[0.06] px-1.5 py-0.5 tabular-nums text-white/70 outline-none focus:border-white/20"
+                    />
+                  </label>
+                ))}
+              </div>
+
+              {/* İstenen → üretilecek ton */}
+              <div className="flex items-center gap-2">
+                <ColorDot color={hex} title={t.customColor.requested} />
+                <span className="text-white/20">→</span>
+                <ColorDot color={nearest.match.color} title={t.customColor.produced} />
+                <div className="flex flex-col leading-tight">
+                  <span className="text-white/60">{nearest.match.name}</span>
+                  <span>
+                    {t.customColor.palettes[palette]} ·{" "}
+                    {exact
+                      ? t.customColor.exact
+                      : t.customColor.deltaE(nearest.deltaE.toFixed(1))}
+                  </span>
+                </div>
+              </div>
+
+              {recent.length > 0 && (
+                <div className="flex items-center gap-1.5">
+                  <span>{t.customColor.recent}</span>
+                  {recent.map((c) => (
+                    <button
+                      key={c.id}
+                      onClick={() => {
+                        setColor(c.color);
+                        selectPaletteColor(category, c.id);
+                      }}
+                      title={c.name}
+                      className={`w-4 h-4 rounded-full border transition-transform hover:scale-110 ${
+                        c.id === selectedId ? "border-white/80" : "border-white/15"
+                      }`}
+                      style={{ background: c.color }}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => selectPaletteColor(category, nearest.match.id)}
+                  className="px-3 py-1 rounded-full bg-white/[0.08] text-[10px] font-medium text-white/70 hover:bg-white/[0.14] transition-colors"
+                >
+                  {t.customColor.apply}
+                </button>
+                {catalog && format && (
+                  <span>{t.customColor.surcharge(format.delta(catalog.surcharges.customColor))}</span>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
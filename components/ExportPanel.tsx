@@ -0,0 +1,332 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ImageDown, Film, X } from "lucide-react";
+import {
+  CAMERA_PRESETS,
+  EXPORT_BACKGROUNDS,
+  EXPORT_SIZE,
+  TURNTABLE_LIMITS,
+  exportImage,
+  exportTurntable,
+  SceneExportError,
+  type ExportBackground,
+  type TurntableFormat,
+} from "@/lib/sceneExport";
+import type { CameraPreset } from "@/lib/sceneCapture";
+import { useMessages } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Export Panel – yüksek çözünürlüklü görsel ve turntable
+   —————————————————————————————————————————————— */
+
+const SIZE_PRESETS = [
+  { id: "fhd", width: 1920, height: 1080 },
+  { id: "uhd", width: 3840, height: 2160 },
+  { id: "square", width: 2048, height: 2048 },
+] as const;
+
+const DURATIONS = [3, 6, 10];
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const clampSize = (value: number) =>
+  Math.min(EXPORT_SIZE.max, Math.max(EXPORT_SIZE.min, Math.round(value) || EXPORT_SIZE.min));
+
+function Chips<T extends string | number>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: {
+  options: { id: T; name: string }[];
+  value: T;
+  onChange: (id: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map((o) => (
+        <button
+          key={o.id}
+          onClick={() => onChange(o.id)}
+          disabled={disabled}
+          className={`px-2.5 py-1 rounded-lg text-[11px] transition-colors disabled:opacity-40 ${
+            value === o.id
+              ? "bg-white/[0.12] text-white/90"
+              : "bg-white/[0.03] text-white/40 hover:text-white/70"
+          }`}
+        >
+          {o.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mt-4">
+      <p className="mb-1.5 text-[10px] uppercase tracking-wider text-white/30">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+export default function ExportPanel() {
+  const t = useMessages();
+  const [open, setOpen] = useState(false);
+  const [width, setWidth] = useState(1920);
+  const [height, setHeight] = useState(1080);
+  const [preset, setPreset] = useState<CameraPreset>("isometric");
+  const [background, setBackground] = useState<ExportBackground>("transparent");
+  const [format, setFormat] = useState<TurntableFormat>("webm");
+  const [seconds, setSeconds] = useState(6);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [controller, setController] = useState<AbortController | null>(null);
+  const busy = progress !== null;
+
+  const options = { width: clampSize(width), height: clampSize(height), preset, background };
+  const stamp = () => `mech-${preset}-${Date.now()}`;
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    setProgress(0);
+    try {
+      await task();
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "AbortError")) {
+        // Tarayıcı / kodlayıcı hataları kullanıcıya ham gösterilmez
+        if (err instanceof SceneExportError) {
+          setError(t.exportPanel.errors[err.code]);
+        } else {
+          console.error(err);
+          setError(t.exportPanel.failed);
+        }
+      }
+    } finally {
+      setController(null);
+      setProgress(null);
+    }
+  };
+
+  const savePng = () =>
+    run(async () => {
+      // Büyük render ana iş parçacığını kilitler – önce ilerleme durumu çizilsin
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      download(await exportImage(options), `${stamp()}.png`);
+    });
+
+  const saveTurntable = () =>
+    run(async () => {
+      const abort = new AbortController();
+      setController(abort);
+      const blob = await exportTurntable({
+        ...options,
+        format,
+        seconds,
+        onProgress: setProgress,
+        signal: abort.signal,
+      });
+      download(blob, `${stamp()}.${format}`);
+    });
+
+  const { maxSize, fps } = TURNTABLE_LIMITS[format];
+  const clipScale = Math.min(1, maxSize / Math.max(options.width, options.height));
+
+  return (
+    <>
+      <motion.button
+        onClick={() => setOpen(true)}
+        className="flex items-center justify-center w-9 h-9 rounded-full bg-white/[0.05] border border-white/[0.06] hover:bg-white/[0.1] transition-colors"
+        whileTap={{ scale: 0.9 }}
+        title={t.exportPanel.open}
+      >
+        <ImageDown size={14} className="text-white/50" />
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => !busy && setOpen(false)}
+          >
+            <motion.div
+              className="w-full max-w-md max-h-[90dvh] overflow-y-auto rounded-3xl glass p-5"
+              initial={{ scale: 0.95, y: 10 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.95, y: 10 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-white/90 font-display">
+                  {t.exportPanel.title}
+                </h2>
+                <button
+                  onClick={() => setOpen(false)}
+                  disabled={busy}
+                  className="text-white/30 hover:text-white/60 transition-colors disabled:opacity-30"
+                  title={t.page.close}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              <Section title={t.exportPanel.resolution}>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {SIZE_PRESETS.map((s) => (
+                    <button
+                      key={s.id}
+                      onClick={() => {
+                        setWidth(s.width);
+                        setHeight(s.height);
+                      }}
+                      disabled={busy}
+                      className={`px-2.5 py-1 rounded-lg text-[11px] transition-colors disabled:opacity-40 ${
+                        width === s.width && height === s.height
+                          ? "bg-white/[0.12] text-white/90"
+                          : "bg-white/[0.03] text-white/40 hover:text-white/70"
+                      }`}
+                    >
+                      {t.exportPanel.sizes[s.id]}
+                    </button>
+                  ))}
+                  <div className="flex items-center gap-1 ml-auto text-[11px] text-white/30">
+                    <input
+                      type="number"
+                      value={width}
+                      min={EXPORT_SIZE.min}
+                      max={EXPORT_SIZE.max}
+                      onChange={(e) => setWidth(e.target.valueAsNumber || 0)}
+                      onBlur={() => setWidth(clampSize(width))}
+                      disabled={busy}
+                      className="w-16 rounded-md bg-white/[0.05] px-1.5 py-1 text-white/80 tabular-nums outline-none focus:ring-1 focus:ring-violet-400/50"
+                      aria-label={t.exportPanel.width}
+                    />
+                    ×
+                    <input
+                      type="number"
+                      value={height}
+                      min={EXPORT_SIZE.min}
+                      max={EXPORT_SIZE.max}
+                      onChange={(e) => setHeight(e.target.valueAsNumber || 0)}
+                      onBlur={() => setHeight(clampSize(height))}
+                      disabled={busy}
+                      className="w-16 rounded-md bg-white/[0.05] px-1.5 py-1 text-white/80 tabular-nums outline-none focus:ring-1 focus:ring-violet-400/50"
+                      aria-label={t.exportPanel.height}
+                    />
+                  </div>
+                </div>
+              </Section>
+
+              <Section title={t.exportPanel.camera}>
+                <Chips
+                  options={CAMERA_PRESETS.map((id) => ({ id, name: t.exportPanel.cameraPresets[id] }))}
+                  value={preset}
+                  onChange={setPreset}
+                  disabled={busy}
+                />
+              </Section>
+
+              <Section title={t.exportPanel.background}>
+                <Chips
+                  options={EXPORT_BACKGROUNDS.map((id) => ({
+                    id,
+                    name: t.exportPanel.backgrounds[id],
+                  }))}
+                  value={background}
+                  onChange={setBackground}
+                  disabled={busy}
+                />
+              </Section>
+
+              <button
+                onClick={savePng}
+                disabled={busy}
+                className="mt-5 w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-white text-zinc-900 text-[12px] font-semibold hover:bg-white/90 transition-colors disabled:opacity-30"
+              >
+                <ImageDown size={14} />
+                {t.exportPanel.png}
+              </button>
+
+              <div className="mt-5 pt-4 border-t border-white/[0.06]">
+                <p className="text-[12px] font-semibold text-white/80">{t.exportPanel.turntable}</p>
+                <p className="mt-0.5 text-[10px] text-white/30">
+                  {t.exportPanel.turntableInfo(fps)} ·{" "}
+                  {Math.round((options.width * clipScale) / 2) * 2}×
+                  {Math.round((options.height * clipScale) / 2) * 2}
+                  {format === "webm" && background === "transparent" && ` · ${t.exportPanel.opaqueVideo}`}
+                </p>
+
+                <Section title={t.exportPanel.format}>
+                  <Chips
+                    options={[
+                      { id: "webm" as const, name: "WebM" },
+                      { id: "gif" as const, name: "GIF" },
+                    ]}
+                    value={format}
+                    onChange={setFormat}
+                    disabled={busy}
+                  />
+                </Section>
+
+                <Section title={t.exportPanel.duration}>
+                  <Chips
+                    options={DURATIONS.map((d) => ({ id: d, name: t.exportPanel.seconds(d) }))}
+                    value={seconds}
+                    onChange={setSeconds}
+                    disabled={busy}
+                  />
+                </Section>
+
+                {busy ? (
+                  <div className="mt-4 flex items-center gap-3">
+                    <div className="flex-1 h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+                      <div
+                        className="h-full bg-violet-400/80 transition-[width]"
+                        style={{ width: `${progress * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-[10px] text-white/40 tabular-nums">
+                      {Math.round(progress * 100)}%
+                    </span>
+                    {controller && (
+                      <button
+                        onClick={() => controller.abort()}
+                        className="text-[11px] text-rose-300/80 hover:text-rose-300 transition-colors"
+                      >
+                        {t.exportPanel.cancel}
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <button
+                    onClick={saveTurntable}
+                    className="mt-4 w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-white/[0.06] border border-white/[0.08] text-white/80 text-[12px] font-semibold hover:bg-white/[0.1] transition-colors"
+                  >
+                    <Film size={14} />
+                    {t.exportPanel.create(format === "webm" ? "WebM" : "GIF")}
+                  </button>
+                )}
+              </div>
+
+              {error && <p className="mt-3 text-[11px] text-rose-300/80">{error}</p>}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
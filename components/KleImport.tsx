@@ -0,0 +1,149 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Upload, FileJson, X } from "lucide-react";
+import { useConfiguratorStore } from "@/store/useConfiguratorStore";
+import { parseKle, KleParseError } from "@/lib/kle";
+import type { Messages } from "@/lib/messages";
+import { useMessages } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   KLE Import – yapıştır veya dosya yükle
+   —————————————————————————————————————————————— */
+
+/** "Satır 2, tuş 1: "w" sıfırdan büyük olmalı" */
+function kleErrorText(t: Messages, err: KleParseError) {
+  const where = err.row === undefined ? "" : t.kleImport.at(err.row, err.key);
+  const { errors } = t.kleImport;
+  switch (err.code) {
+    case "notNumber":
+    case "notPositive":
+      return where + errors[err.code](err.property ?? "");
+    default:
+      return where + errors[err.code];
+  }
+}
+
+export default function KleImport() {
+  const importLayout = useConfiguratorStore((s) => s.importLayout);
+  const t = useMessages();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const close = () => {
+    setOpen(false);
+    setError(null);
+  };
+
+  const submit = (source: string) => {
+    try {
+      importLayout(parseKle(source));
+      setText("");
+      close();
+    } catch (err) {
+      setError(err instanceof KleParseError ? kleErrorText(t, err) : t.kleImport.failed);
+    }
+  };
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    submit(content);
+  };
+
+  return (
+    <>
+      <div className="flex justify-center">
+        <motion.button
+          onClick={() => setOpen(true)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/[0.05] border border-white/[0.06] hover:bg-white/[0.1] transition-colors"
+          whileTap={{ scale: 0.95 }}
+        >
+          <FileJson size={12} className="text-white/40" />
+          <span className="text-[10px] font-medium text-white/50 tracking-wide">
+            {t.kleImport.open}
+          </span>
+        </motion.button>
+      </div>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={close}
+          >
+            <motion.div
+              className="w-full max-w-lg rounded-3xl glass p-5"
+              initial={{ scale: 0.95, y: 10 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.95, y: 10 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h2 className="text-sm font-semibold text-white/90 font-display">
+                    {t.kleImport.open}
+                  </h2>
+                  <p className="text-[10px] text-white/35 mt-0.5">{t.kleImport.subtitle}</p>
+                </div>
+                <button
+                  onClick={close}
+                  className="text-white/30 hover:text-white/60 transition-colors"
+                  title={t.page.close}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                spellCheck={false}
+                placeholder={'["Esc","!\\n1","@\\n2", …],\n[{w:1.5},"Tab","Q", …]'}
+                className="w-full h-48 resize-none rounded-xl bg-black/40 border border-white/[0.06] p-3 font-mono text-[11px] text-white/70 placeholder:text-white/15 outline-none focus:border-white/20"
+              />
+
+              {error && (
+                <p className="mt-2 text-[11px] text-rose-400/90">{error}</p>
+              )}
+
+              <div className="flex items-center justify-between mt-4">
+                <button
+                  onClick={() => fileRef.current?.click()}
+                  className="flex items-center gap-1.5 text-[11px] text-white/40 hover:text-white/70 transition-colors"
+                >
+                  <Upload size={12} />
+                  {t.kleImport.upload}
+                </button>
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept=".json,.txt,application/json"
+                  className="hidden"
+                  onChange={onFile}
+                />
+
+                <motion.button
+                  onClick={() => submit(text)}
+                  className="px-5 py-2 rounded-full bg-gradient-to-r from-violet-600 to-fuchsia-500 text-[11px] font-bold text-white font-display"
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t.kleImport.submit}
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Circle, Play, Square, Repeat, Download, Upload, Sparkles } from "lucide-react";
+import { useConfiguratorStore } from "@/store/useConfiguratorStore";
+import { useRecorderStore } from "@/store/useRecorderStore";
+import {
+  parseRecording,
+  serializeRecording,
+  RecordingParseError,
+} from "@/lib/recording";
+import type { Messages } from "@/lib/messages";
+import { useMessages } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Recorder – tuş kaydı, döngülü oynatma, JSON dışa / içe aktarma
+   —————————————————————————————————————————————— */
+
+const DEMO_URL = "/demos/showcase.json";
+
+function IconButton({
+  onClick,
+  title,
+  active = false,
+  disabled = false,
+  children,
+}: {
+  onClick: () => void;
+  title: string;
+  active?: boolean;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <motion.button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className={`flex items-center justify-center w-7 h-7 rounded-full transition-colors disabled:opacity-30 disabled:pointer-events-none ${
+        active ? "bg-white/[0.12]" : "hover:bg-white/[0.1]"
+      }`}
+      whileTap={{ scale: 0.9 }}
+    >
+      {children}
+    </motion.button>
+  );
+}
+
+function recordingErrorText(t: Messages, err: RecordingParseError) {
+  const { errors } = t.recorder;
+  switch (err.code) {
+    case "unsupportedVersion":
+    case "invalidEvent":
+      return errors[err.code](err.detail ?? "");
+    default:
+      return errors[err.code];
+  }
+}
+
+export default function Recorder() {
+  const status = useRecorderStore((s) => s.status);
+  const recording = useRecorderStore((s) => s.recording);
+  const loop = useRecorderStore((s) => s.loop);
+  const startRecording = useRecorderStore((s) => s.startRecording);
+  const play = useRecorderStore((s) => s.play);
+  const stop = useRecorderStore((s) => s.stop);
+  const setLoop = useRecorderStore((s) => s.setLoop);
+  const loadRecording = useRecorderStore((s) => s.loadRecording);
+  const t = useMessages();
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const load = (source: string, autoplay: boolean) => {
+    try {
+      loadRecording(parseRecording(source));
+      setError(null);
+      if (autoplay) play();
+    } catch (err) {
+      setError(
+        err instanceof RecordingParseError ? recordingErrorText(t, err) : t.recorder.readFailed
+      );
+    }
+  };
+
+  const record = () => {
+    // Odaktaki buton Space ile tekrar tetiklenmesin
+    if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+    startRecording(useConfiguratorStore.getState().selectedOptions.switches);
+  };
+
+  const exportRecording = () => {
+    if (!recording) return;
+    const blob = new Blob([serializeRecording(recording)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `mech-recording-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    load(await file.text(), false);
+  };
+
+  const loadDemo = async () => {
+    try {
+      const res = await fetch(DEMO_URL);
+      if (!res.ok) throw new Error(res.statusText);
+      load(await res.text(), true);
+    } catch {
+      setError(t.recorder.demoFailed);
+    }
+  };
+
+  const isRecording = status === "recording";
+  const isPlaying = status === "playing";
+
+  return (
+    <div className="relative flex items-center gap-0.5 h-9 px-1 rounded-full bg-white/[0.05] border border-white/[0.06]">
+      <IconButton
+        onClick={isRecording ? stop : record}
+        title={isRecording ? t.recorder.finish : t.recorder.record}
+        active={isRecording}
+        disabled={isPlaying}
+      >
+        {isRecording ? (
+          <Square size={11} className="text-rose-400 fill-rose-400" />
+        ) : (
+          <Circle size={12} className="text-rose-400/80 fill-rose-400/80" />
+        )}
+      </IconButton>
+      <IconButton
+        onClick={isPlaying ? stop : play}
+        title={
+          isPlaying
+            ? t.recorder.stop
+            : recording
+              ? t.recorder.play(recording.name)
+              : t.recorder.noRecording
+        }
+        active={isPlaying}
+        disabled={!recording || isRecording}
+      >
+        {isPlaying ? (
+          <Square size={11} className="text-white/60 fill-white/60" />
+        ) : (
+          <Play size={13} className="text-white/50" />
+        )}
+      </IconButton>
+      <IconButton onClick={() => setLoop(!loop)} title={t.recorder.loop} active={loop}>
+        <Repeat size={13} className={loop ? "text-violet-300" : "text-white/35"} />
+      </IconButton>
+      <IconButton
+        onClick={exportRecording}
+        title={t.recorder.download}
+        disabled={!recording || isRecording}
+      >
+        <Download size={13} className="text-white/50" />
+      </IconButton>
+      <IconButton
+        onClick={() => fileRef.current?.click()}
+        title={t.recorder.import}
+        disabled={isRecording}
+      >
+        <Upload size={13} className="text-white/50" />
+      </IconButton>
+      <IconButton onClick={loadDemo} title={t.recorder.demo} disabled={isRecording}>
+        <Sparkles size={13} className="text-white/50" />
+      </IconButton>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={onFile}
+      />
+
+      <AnimatePresence>
+        {error && (
+          <motion.button
+            onClick={() => setError(null)}
+            className="absolute top-11 right-0 whitespace-nowrap rounded-xl glass px-3 py-1.5 text-[10px] text-rose-300/90"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            title={t.page.close}
+          >
+            {error}
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
 "use client";
 
-import { Suspense, useRef, useMemo, useEffect, useCallback } from "react";
-import { Canvas, useFrame, ThreeEvent } from "@react-three/fiber";
+import {
+  Suspense,
+  useRef,
+  useMemo,
+  useEffect,
+  useCallback,
+  useState,
+  type ComponentRef,
+} from "react";
+import { Canvas, useFrame, useThree, ThreeEvent } from "@react-three/fiber";
 import {
   Environment,
   ContactShadows,
@@ -11,8 +19,64 @@ import {
   Sparkles,
 } from "@react-three/drei";
 import * as THREE from "three";
-import { useConfiguratorStore } from "@/store/useConfiguratorStore";
-import { soundEngine } from "@/lib/soundEngine";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import {
+  useConfiguratorStore,
+  activeSwitchSound,
+  activeSwitchSpec,
+  availableOptions,
+  findOption,
+  type Colorway,
+} from "@/store/useConfiguratorStore";
+import { useTypingStore } from "@/store/useTypingStore";
+import { useRecorderStore } from "@/store/useRecorderStore";
+import { useCompareStore, type CompareSlot } from "@/store/useCompareStore";
+import { isExploded, useViewStore } from "@/store/useViewStore";
+import { heatColor, maxHits } from "@/lib/typingTest";
+import { registerCapture, registerRenderer } from "@/lib/sceneCapture";
+import { createOffscreenRenderer, EXPORT_SUBJECT } from "@/lib/offscreenRender";
+import { CAMERA_VIEWS, boundingSphere, framePosition } from "@/lib/cameraViews";
+import { keySound, soundEngine } from "@/lib/soundEngine";
+import {
+  keyZone,
+  resolveLayout,
+  type KeyboardLayout,
+  type KeyZone,
+} from "@/lib/layouts";
+import { LEGEND_FONTS, legendFor, type KeyLegend } from "@/lib/legends";
+import {
+  attachLegendUvs,
+  buildLegendAtlas,
+  createInstancedLegendMaterial,
+  createLegendPlane,
+} from "@/lib/legendAtlas";
+import {
+  createInstanceGroup,
+  disposeInstanceGroup,
+  instanceKey,
+  setInstanceColor,
+  setInstanceMatrix,
+} from "@/lib/keycapInstances";
+import {
+  effectColor,
+  pruneRipples,
+  type LitKey,
+  type Ripple,
+} from "@/lib/lighting";
+import {
+  caseAcoustics,
+  createWoodTexture,
+  getCaseMaterial,
+} from "@/lib/caseMaterials";
+import {
+  conformToSurface,
+  createSculptedGeometry,
+  frontFace,
+  getProfile,
+  keycapShape,
+  type KeycapProfile,
+  type KeycapShape,
+} from "@/lib/keycapProfiles";
 
 /* ——————————————————————————————————————————————
    Constants
@@ -20,81 +84,207 @@ import { soundEngine } from "@/lib/soundEngine";
 
 const UNIT = 0.36;
 const KEY_GAP = 0.04;
-const KEY_H = 0.13;
 const BODY_H = 0.35;
 const LERP = 0.045;
+/** Basma derinliği ve yaklaşma oranı – referans yol için, switch'e göre ölçeklenir */
 const KEY_PRESS_DEPTH = -0.045;
 const KEY_PRESS_LERP = 0.28;
+const KEY_PRESS_TRAVEL = 4;
 
-const ROW_Y = [0.018, 0.008, 0, 0.004, 0.01];
+/** Keycap tabanının gövde üstündeki yüksekliği (plate + switch) */
+const KEY_BASE_Y = BODY_H / 2 + 0.015;
 
-/* ——————————————————————————————————————————————
-   Physical keyboard → key index mapping
-   —————————————————————————————————————————————— */
+/** Arka ışık düzlemi – plate'in hemen üstünde, tuş aralıklarından görünür */
+const BACKLIGHT_Y = BODY_H / 2 + 0.011;
+
+/* — Patlatılmış görünüm — */
+
+/** Gerçek ölçü (mm) → sahne birimi; 1u = 19.05 mm */
+const MM = UNIT / 19.05;
+/** Plate üst yüzeyi – switch'ler buraya oturur */
+const PLATE_TOP = BODY_H / 2 + 0.01;
+const SWITCH_HOUSING = { size: 14 * MM, height: 11.6 * MM };
+const SWITCH_STEM = { arm: 4 * MM, thickness: 1.3 * MM, height: 3.6 * MM };
+const SWITCH_H = SWITCH_HOUSING.height + SWITCH_STEM.height;
+/** Keycap'lerin kalkma yüksekliği – stem'in üstünde boşluk kalır */
+const EXPLODE_LIFT = SWITCH_H + 0.12;
+/** Katmanlar ayrılınca ardışık katmanlar arası mesafe */
+const LAYER_GAP = 0.2;
+const EXPLODE_LERP = 0.08;
 
-const KEY_MAP: Record<string, number> = {
-  // Row 0 — Number row (14 keys)
-  Backquote: 0, Digit1: 1, Digit2: 2, Digit3: 3, Digit4: 4,
-  Digit5: 5, Digit6: 6, Digit7: 7, Digit8: 8, Digit9: 9,
-  Digit0: 10, Minus: 11, Equal: 12, Backspace: 13,
-  // Row 1 — QWERTY (14 keys)
-  Tab: 14, KeyQ: 15, KeyW: 16, KeyE: 17, KeyR: 18,
-  KeyT: 19, KeyY: 20, KeyU: 21, KeyI: 22, KeyO: 23,
-  KeyP: 24, BracketLeft: 25, BracketRight: 26, Backslash: 27,
-  // Row 2 — Home row (13 keys)
-  CapsLock: 28, KeyA: 29, KeyS: 30, KeyD: 31, KeyF: 32,
-  KeyG: 33, KeyH: 34, KeyJ: 35, KeyK: 36, KeyL: 37,
-  Semicolon: 38, Quote: 39, Enter: 40,
-  // Row 3 — Bottom row (12 keys)
-  ShiftLeft: 41, KeyZ: 42, KeyX: 43, KeyC: 44, KeyV: 45,
-  KeyB: 46, KeyN: 47, KeyM: 48, Comma: 49, Period: 50,
-  Slash: 51, ShiftRight: 52,
-  // Row 4 — Space row (7 keys)
-  ControlLeft: 53, MetaLeft: 54, AltLeft: 55, Space: 56,
-  AltRight: 57, ContextMenu: 58, ControlRight: 59,
+/** Kasa içi katmanlar (kapalıyken gövdenin içinde) – `order`: alttan sıra */
+const INNER_LAYERS = {
+  caseFoam: { y: -0.05, height: 0.1, order: 1 },
+  pcb: { y: 0.09, height: 1.6 * MM, order: 2 },
+  plateFoam: { y: 0.14, height: 0.04, order: 3 },
 };
+/** Plate, switch'ler ve keycap'ler birlikte en üstte */
+const STACK_ORDER = 4;
+
+/** Bu genişliğin (u) üzerindeki layout'lar kadraja sığması için küçültülür */
+const FIT_WIDTH = 16;
+
+/** Ofset / renk bu eşiğin altına inince animasyon o tuş için durur */
+const SETTLE_EPSILON = 1e-4;
 
 /* ——————————————————————————————————————————————
-   Key Layout Generator (65 % Mechanical KB)
+   Layout → world-space keys
    —————————————————————————————————————————————— */
 
 interface KeyData {
+  code: string;
   x: number;
   z: number;
   w: number;
   d: number;
   row: number;
+  /** Y ekseni etrafında dönüş (rad) */
+  rotY: number;
+  /** İkincil dikdörtgen – tuş merkezine göre (ISO Enter, stepped) */
+  secondary?: { x: number; z: number; w: number; d: number };
+  legend: KeyLegend;
+  zone: KeyZone;
 }
 
-function generateKeys(): KeyData[] {
-  const rows: number[][] = [
-    [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 2],
-    [1.5, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1.5],
-    [1.75, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 2.25],
-    [2.25, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 2.75],
-    [1.25, 1.25, 1.25, 6.25, 1.25, 1.25, 1.25],
-  ];
-
-  const TOTAL_W = 15;
-  const keys: KeyData[] = [];
-
-  rows.forEach((row, ri) => {
-    let cursor = 0;
-    row.forEach((kw) => {
-      keys.push({
-        x: (cursor + kw / 2) * UNIT - (TOTAL_W * UNIT) / 2,
-        z: (ri - (rows.length - 1) / 2) * UNIT,
-        w: kw * UNIT - KEY_GAP,
-        d: UNIT - KEY_GAP,
-        row: ri,
-      });
-      cursor += kw;
-    });
+function toKeyData(layout: KeyboardLayout): KeyData[] {
+  const fnLayer = layout.keyMap.F1 === undefined;
+  return layout.keys.map((k) => {
+    let cx = k.x + k.w / 2;
+    let cy = k.y + k.h / 2;
+    const angle = ((k.rotation?.angle ?? 0) * Math.PI) / 180;
+    if (k.rotation) {
+      const dx = cx - k.rotation.x;
+      const dy = cy - k.rotation.y;
+      cx = k.rotation.x + dx * Math.cos(angle) - dy * Math.sin(angle);
+      cy = k.rotation.y + dx * Math.sin(angle) + dy * Math.cos(angle);
+    }
+
+    return {
+      code: k.code,
+      x: cx * UNIT - (layout.width * UNIT) / 2,
+      z: cy * UNIT - (layout.depth * UNIT) / 2,
+      w: k.w * UNIT - KEY_GAP,
+      d: k.h * UNIT - KEY_GAP,
+      row: k.row,
+      rotY: -angle,
+      secondary: k.secondary && {
+        x: (k.secondary.x + k.secondary.w / 2 - k.w / 2) * UNIT,
+        z: (k.secondary.y + k.secondary.h / 2 - k.h / 2) * UNIT,
+        w: k.secondary.w * UNIT - KEY_GAP,
+        d: k.secondary.h * UNIT - KEY_GAP,
+      },
+      legend: legendFor(k, fnLayer),
+      zone: keyZone(k.code),
+    };
+  });
+}
+
+function colorwayColors(colorway: Colorway): Record<KeyZone, string> {
+  const color = (id: string) => findOption("keycaps", id)?.color ?? "#fff";
+  return {
+    alphas: color(colorway.alphas),
+    modifiers: color(colorway.modifiers),
+    accents: color(colorway.accents),
+  };
+}
+
+/** Tek keycap material'i – renk instance başına verilir */
+function createKeycapMaterial() {
+  return new THREE.MeshPhysicalMaterial({
+    color: "#fff",
+    roughness: 0.55,
+    metalness: 0.05,
+    clearcoat: 0.4,
+    clearcoatRoughness: 0.25,
+  });
+}
+
+/** Tuş altı RGB ışığı – renk ve parlaklık instance rengiyle verilir */
+function createBacklightMaterial() {
+  return new THREE.MeshBasicMaterial({
+    color: "#fff",
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    toneMapped: false,
   });
+}
+
+/** Heykelsi keycap; ikincil dikdörtgen varsa iki gövde birleştirilir */
+function createKeycapGeometry(
+  k: KeyData,
+  shape: KeycapShape,
+  profile: KeycapProfile
+): THREE.BufferGeometry {
+  const primary = createSculptedGeometry(shape);
+  if (!k.secondary) return primary;
+
+  const secondary = createSculptedGeometry(
+    keycapShape(profile, k.row, k.secondary.w, k.secondary.d)
+  );
+  secondary.translate(k.secondary.x, 0, k.secondary.z);
+  const merged = mergeGeometries([primary, secondary]) ?? primary;
+  if (merged !== primary) primary.dispose();
+  secondary.dispose();
+  return merged;
+}
+
+const scratchMatrix = new THREE.Matrix4();
+const scratchColor = new THREE.Color();
+const scratchScale = new THREE.Vector3();
+
+/** Tuşun instance dönüşümü – `offset`: basılma derinliği */
+function keyMatrix(k: KeyData, offset: number, target: THREE.Matrix4) {
+  return target.makeRotationY(k.rotY).setPosition(k.x, KEY_BASE_Y + offset, k.z);
+}
+
+/** Tuşun altındaki arka ışık düzleminin dönüşümü (birim düzlem ölçeklenir) */
+function backlightMatrix(k: KeyData, target: THREE.Matrix4) {
+  return target
+    .makeRotationY(k.rotY)
+    .scale(scratchScale.set(k.w + KEY_GAP, 1, k.d + KEY_GAP))
+    .setPosition(k.x, BACKLIGHT_Y, k.z);
+}
+
+/** MX tarzı switch: alt / üst gövde ve artı biçimli stem – taban y = 0 */
+function createSwitchGeometries() {
+  const { size, height } = SWITCH_HOUSING;
+  const lower = new THREE.BoxGeometry(size, height * 0.45, size).translate(0, height * 0.225, 0);
+  const upper = new THREE.BoxGeometry(size * 0.82, height * 0.55, size * 0.82).translate(
+    0,
+    height * 0.725,
+    0
+  );
+  const { arm, thickness, height: stemH } = SWITCH_STEM;
+  const armX = new THREE.BoxGeometry(arm, stemH, thickness);
+  const armZ = new THREE.BoxGeometry(thickness, stemH, arm);
+
+  const housing = mergeGeometries([lower, upper])!;
+  const stem = mergeGeometries([armX, armZ])!.translate(0, height + stemH / 2, 0);
+  [lower, upper, armX, armZ].forEach((g) => g.dispose());
+  return { housing, stem };
+}
 
-  return keys;
+/** Switch'in dönüşümü – `y`: taban yüksekliği */
+function switchMatrix(k: KeyData, y: number, target: THREE.Matrix4) {
+  return target.makeRotationY(k.rotY).setPosition(k.x, y, k.z);
+}
+
+/** Slider / checkbox gibi metin girmeyen input türleri */
+const NON_TEXT_INPUTS = new Set(["range", "checkbox", "radio", "button", "color"]);
+
+/** Metin alanlarına yazarken sahnedeki tuşlar tepki vermez */
+function isEditableTarget(target: EventTarget | null) {
+  if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.has(target.type);
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["TEXTAREA", "SELECT"].includes(target.tagName))
+  );
 }
 
+/** Aynı üst yüzeye sahip tuşlar legend geometrisini paylaşır */
+const shapeId = (k: KeyData) => `${k.row}|${k.w}|${k.d}`;
+
 /* ——————————————————————————————————————————————
    Keyboard Model
    —————————————————————————————————————————————— */
@@ -102,39 +292,69 @@ function generateKeys(): KeyData[] {
 function KeyboardModel() {
   const bodyColor = useConfiguratorStore((s) => s.bodyColor);
   const keycapColor = useConfiguratorStore((s) => s.keycapColor);
+  const colorway = useConfiguratorStore((s) => s.colorway);
+  const keyOverrides = useConfiguratorStore((s) => s.keyOverrides);
   const switchColor = useConfiguratorStore((s) => s.switchColor);
   const activeCategory = useConfiguratorStore((s) => s.activeCategory);
-  const switchId = useConfiguratorStore((s) => s.selectedOptions.switches);
-  const isSoundOn = useConfiguratorStore((s) => s.soundEnabled);
+  const switchSound = useConfiguratorStore(activeSwitchSound);
+  const switchSpec = useConfiguratorStore(activeSwitchSpec);
+  const volume = useConfiguratorStore((s) => s.volume);
+  const isSoundOn = volume > 0;
+  const layoutId = useConfiguratorStore((s) => s.selectedOptions.layout);
+  const customLayout = useConfiguratorStore((s) => s.customLayout);
+  const legendColor = useConfiguratorStore((s) => s.legendColor);
+  const legendFontId = useConfiguratorStore((s) => s.legendFont);
+  const legendPosition = useConfiguratorStore((s) => s.legendPosition);
+  const profileId = useConfiguratorStore((s) => s.selectedOptions.profile);
+  const lightingColor = useConfiguratorStore((s) => s.lightingColor);
+  const lightingEffect = useConfiguratorStore((s) => s.lightingEffect);
+  const lightingSpeed = useConfiguratorStore((s) => s.lightingSpeed);
+  const lightingBrightness = useConfiguratorStore((s) => s.lightingBrightness);
+  const materialId = useConfiguratorStore((s) => s.selectedOptions.material);
+  const caseMods = useConfiguratorStore((s) => s.caseMods);
+  const heatmap = useTypingStore((s) => s.heatmap);
+  const recorderStatus = useRecorderStore((s) => s.status);
+  const recording = useRecorderStore((s) => s.recording);
+  const exploded = useViewStore((s) => isExploded(s, activeCategory));
+  const layersSplit = useViewStore((s) => s.layers) && exploded;
+  const focusOn = useViewStore((s) => s.focusOn);
 
   const groupRef = useRef<THREE.Group>(null!);
-  const keysGroupRef = useRef<THREE.Group>(null!);
+  /** Plate ve üstündekiler – katmanlar ayrılınca birlikte yükselir */
+  const stackRef = useRef<THREE.Group>(null!);
+  const layerRefs = useRef<Partial<Record<keyof typeof INNER_LAYERS, THREE.Mesh | null>>>({});
 
   /* — Material refs — */
   const bodyMatRef = useRef<THREE.MeshPhysicalMaterial>(null!);
   const accentMatRef = useRef<THREE.MeshPhysicalMaterial>(null!);
 
-  const keycapMat = useMemo(
-    () =>
-      new THREE.MeshPhysicalMaterial({
-        color: new THREE.Color(keycapColor),
-        roughness: 0.55,
-        metalness: 0.05,
-        clearcoat: 0.4,
-        clearcoatRoughness: 0.25,
-      }),
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    []
+  /* — Keycap material (renkler instance başına) — */
+  const keycapMat = useMemo(() => createKeycapMaterial(), []);
+
+  /* — Case material (görünüm + akustik) — */
+  const caseMaterial = getCaseMaterial(materialId);
+  const caseTexture = caseMaterial.render.texture;
+  const woodTexture = useMemo(
+    () => (caseTexture === "wood" ? createWoodTexture() : null),
+    [caseTexture]
   );
+  useEffect(() => () => woodTexture?.dispose(), [woodTexture]);
+
+  useEffect(() => {
+    soundEngine.setAcoustics(caseAcoustics(materialId, caseMods));
+  }, [materialId, caseMods]);
+  const zoneColors = useMemo(() => colorwayColors(colorway), [colorway]);
 
   /* — Lerp targets — */
   const tBody = useRef(new THREE.Color(bodyColor));
-  const tKeycap = useRef(new THREE.Color(keycapColor));
   const tAccent = useRef(new THREE.Color(switchColor));
+  const tLegend = useRef(new THREE.Color(legendColor));
+  const tLighting = useRef(new THREE.Color(lightingColor));
 
   useEffect(() => { tBody.current.set(bodyColor); }, [bodyColor]);
-  useEffect(() => { tKeycap.current.set(keycapColor); }, [keycapColor]);
   useEffect(() => { tAccent.current.set(switchColor); }, [switchColor]);
+  useEffect(() => { tLegend.current.set(legendColor); }, [legendColor]);
+  useEffect(() => { tLighting.current.set(lightingColor); }, [lightingColor]);
 
   /* — Rotation targets — */
   const tRotation = useRef({ x: 0.15, y: 0 });
@@ -142,58 +362,388 @@ function KeyboardModel() {
   useEffect(() => {
     switch (activeCategory) {
       case "body":    tRotation.current = { x: 0.15, y: 0 }; break;
+      case "material": tRotation.current = { x: 0.1, y: -0.5 }; break;
       case "keycaps": tRotation.current = { x: 0.55, y: 0 }; break;
       case "switches": tRotation.current = { x: 0.08, y: 0.35 }; break;
+      case "layout":  tRotation.current = { x: 0.7, y: 0 }; break;
+      case "legends": tRotation.current = { x: 0.45, y: -0.2 }; break;
+      case "profile": tRotation.current = { x: 0.05, y: 0.6 }; break;
+      case "lighting": tRotation.current = { x: 0.6, y: 0.25 }; break;
     }
   }, [activeCategory]);
 
+  /* — Layout & keys — */
+  const layout = useMemo(
+    () => resolveLayout(layoutId, customLayout),
+    [layoutId, customLayout]
+  );
+  const keys = useMemo(() => toKeyData(layout), [layout]);
+  // Ses tuşun konumuna göre pan'lanır ve filtrelenir
+  const keySounds = useMemo(
+    () =>
+      layout.keys.map((k) =>
+        keySound(
+          k.code,
+          k.w,
+          (k.x + k.w / 2) / layout.width,
+          (k.y + k.h / 2) / layout.depth
+        )
+      ),
+    [layout]
+  );
+
+  useEffect(() => {
+    soundEngine.setVolume(volume);
+  }, [volume]);
+
+  /* — Keycap profile geometry (aynı ölçüdeki tuşlar geometriyi paylaşır) — */
+  const profile = getProfile(profileId);
+  const keyShapes = useMemo(
+    () => keys.map((k) => keycapShape(profile, k.row, k.w, k.d)),
+    [keys, profile]
+  );
+
+  const keyGeometries = useMemo(() => {
+    const cache = new Map<string, THREE.BufferGeometry>();
+    return keys.map((k, i) => {
+      const id = [k.row, k.w, k.d, JSON.stringify(k.secondary ?? null)].join("|");
+      let geo = cache.get(id);
+      if (!geo) {
+        geo = createKeycapGeometry(k, keyShapes[i], profile);
+        cache.set(id, geo);
+      }
+      return geo;
+    });
+  }, [keys, keyShapes, profile]);
+
+  useEffect(
+    () => () => new Set(keyGeometries).forEach((g) => g.dispose()),
+    [keyGeometries]
+  );
+
+  /* — Legends (tek atlas texture) — */
+  const [fontsReady, setFontsReady] = useState(false);
+
+  useEffect(() => {
+    document.fonts.ready.then(() => setFontsReady(true));
+  }, []);
+
+  const legendAtlas = useMemo(() => {
+    const font =
+      LEGEND_FONTS.find((f) => f.id === legendFontId) ?? LEGEND_FONTS[0];
+    const atlasKeys = keys.map((k, i) => ({
+      legend: k.legend,
+      w: keyShapes[i].topW / UNIT,
+      h: keyShapes[i].topD / UNIT,
+      frontH: frontFace(keyShapes[i]).length / UNIT,
+    }));
+    return buildLegendAtlas(atlasKeys, font, legendPosition);
+    // fontsReady: web fontları yüklenince atlas yeniden çizilir
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [keys, keyShapes, legendFontId, legendPosition, fontsReady]);
+
+  const legendMat = useMemo(
+    () => createInstancedLegendMaterial(legendAtlas.texture, tLegend.current),
+    [legendAtlas]
+  );
+
+  /* ═══════════════════════════════════════════
+     Instanced meshes
+     ═══════════════════════════════════════════ */
+
+  const keyOffsets = useMemo(() => new Float32Array(keys.length), [keys]);
+
+  const keycaps = useMemo(() => {
+    const group = createInstanceGroup(keyGeometries, keycapMat, (i, m) =>
+      keyMatrix(keys[i], keyOffsets[i], m)
+    );
+    group.meshes.forEach((m) => (m.castShadow = true));
+    return group;
+  }, [keys, keyGeometries, keycapMat, keyOffsets]);
+
+  useEffect(() => () => disposeInstanceGroup(keycaps), [keycaps]);
+
+  const legends = useMemo(() => {
+    const topGeos = new Map<string, THREE.BufferGeometry>();
+    const frontGeos = new Map<string, THREE.BufferGeometry>();
+
+    const top = keys.map((k, i) => {
+      if (!legendAtlas.top[i]) return null;
+      const id = shapeId(k);
+      if (!topGeos.has(id)) {
+        const shape = keyShapes[i];
+        // Üst legend çanağın eğrisine oturtulur
+        topGeos.set(
+          id,
+          conformToSurface(
+            createLegendPlane(shape.topW, shape.topD, undefined, 8).rotateX(-Math.PI / 2),
+            shape
+          )
+        );
+      }
+      return topGeos.get(id)!;
+    });
+
+    const front = keys.map((k, i) => {
+      if (!legendAtlas.front[i]) return null;
+      const id = shapeId(k);
+      if (!frontGeos.has(id)) {
+        const face = frontFace(keyShapes[i]);
+        frontGeos.set(
+          id,
+          createLegendPlane(face.w, face.length)
+            .rotateX(-face.angle)
+            .translate(0, face.y, face.z + 0.001)
+        );
+      }
+      return frontGeos.get(id)!;
+    });
+
+    const place = (i: number, m: THREE.Matrix4) => keyMatrix(keys[i], keyOffsets[i], m);
+    const groups = {
+      top: createInstanceGroup(top, legendMat, place),
+      front: createInstanceGroup(front, legendMat, place),
+      geometries: [...topGeos.values(), ...frontGeos.values()],
+    };
+    attachLegendUvs(groups.top, legendAtlas.top);
+    attachLegendUvs(groups.front, legendAtlas.front);
+    return groups;
+  }, [keys, keyShapes, keyOffsets, legendAtlas, legendMat]);
+
+  useEffect(
+    () => () => {
+      legendAtlas.texture.dispose();
+      legendMat.dispose();
+    },
+    [legendAtlas, legendMat]
+  );
+
+  useEffect(
+    () => () => {
+      disposeInstanceGroup(legends.top);
+      disposeInstanceGroup(legends.front);
+      legends.geometries.forEach((g) => g.dispose());
+    },
+    [legends]
+  );
+
+  /* — RGB arka ışık (tuş başına bir instance) — */
+  const backlightGeo = useMemo(
+    () => new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2),
+    []
+  );
+  const backlightMat = useMemo(() => createBacklightMaterial(), []);
+
+  const backlight = useMemo(
+    () =>
+      createInstanceGroup(
+        keys.map(() => backlightGeo),
+        backlightMat,
+        (i, m) => backlightMatrix(keys[i], m)
+      ),
+    [keys, backlightGeo, backlightMat]
+  );
+
+  useEffect(() => () => disposeInstanceGroup(backlight), [backlight]);
+
+  /* — Switch'ler (yalnızca patlatılmış görünümde) – stem rengi seçili switch — */
+  const switchGeos = useMemo(() => createSwitchGeometries(), []);
+  const housingMat = useMemo(
+    () => new THREE.MeshStandardMaterial({ color: "#1c1c20", roughness: 0.45, metalness: 0.1 }),
+    []
+  );
+  const stemMat = useMemo(() => new THREE.MeshStandardMaterial({ roughness: 0.4 }), []);
+
+  useEffect(
+    () => () => {
+      switchGeos.housing.dispose();
+      switchGeos.stem.dispose();
+      housingMat.dispose();
+      stemMat.dispose();
+    },
+    [switchGeos, housingMat, stemMat]
+  );
+
+  const switches = useMemo(() => {
+    const place = (i: number, m: THREE.Matrix4) => switchMatrix(keys[i], PLATE_TOP - SWITCH_H, m);
+    return {
+      housing: createInstanceGroup(keys.map(() => switchGeos.housing), housingMat, place),
+      stem: createInstanceGroup(keys.map(() => switchGeos.stem), stemMat, place),
+    };
+  }, [keys, switchGeos, housingMat, stemMat]);
+
+  useEffect(
+    () => () => {
+      disposeInstanceGroup(switches.housing);
+      disposeInstanceGroup(switches.stem);
+    },
+    [switches]
+  );
+
+  /** Patlatma (0–1) ve katman ayrımı (0–1) – `explodeSync`: yeni mesh'ler konumlansın */
+  const explode = useRef(0);
+  const layerSplit = useRef(0);
+  const explodeSync = useRef(true);
+
+  useEffect(() => {
+    explodeSync.current = true;
+  }, [keycaps, legends, switches]);
+
+  /** Efektler için tuş konumları – dalga klavye genişliği boyunca ilerler */
+  const litKeys = useMemo<LitKey[]>(() => {
+    const xs = keys.map((k) => k.x);
+    const zs = keys.map((k) => k.z);
+    const minX = Math.min(...xs);
+    const minZ = Math.min(...zs);
+    const spanX = Math.max(...xs) - minX || 1;
+    const spanZ = Math.max(...zs) - minZ || 1;
+    return keys.map((k) => ({
+      x: k.x,
+      z: k.z,
+      u: (k.x - minX) / spanX,
+      v: (k.z - minZ) / spanZ,
+    }));
+  }, [keys]);
+
+  /** Hız ile ölçeklenmiş efekt zamanı ve tepkisel halkalar */
+  const lightPhase = useRef(0);
+  const ripples = useRef<Ripple[]>([]);
+  const lightBase = useRef(new THREE.Color(lightingColor));
+
+  /* — Instance renkleri: bölge rengi, tuş override'ı veya yazma testi ısı haritası — */
+  const keyColorTargets = useMemo(() => {
+    if (heatmap) {
+      const max = maxHits(heatmap);
+      return keys.map((k) => heatColor(heatmap[k.code], max, new THREE.Color()));
+    }
+    return keys.map((k) => {
+      const override = keyOverrides[k.code];
+      return new THREE.Color(
+        (override && findOption("keycaps", override)?.color) || zoneColors[k.zone]
+      );
+    });
+  }, [keys, keyOverrides, zoneColors, heatmap]);
+  const keyColors = useMemo(() => keys.map(() => new THREE.Color()), [keys]);
+
+  /** Renk lerp katsayısı – 1: anında (yeni mesh'ler), 0: tüm renkler oturdu */
+  const colorLerp = useRef(1);
+
+  useEffect(() => {
+    colorLerp.current = 1;
+  }, [keycaps]);
+
+  useEffect(() => {
+    if (colorLerp.current === 0) colorLerp.current = LERP;
+  }, [keyColorTargets]);
+
+  const bodyW = layout.width * UNIT + 0.3;
+  const bodyD = layout.depth * UNIT + 0.25;
+  const fitScale = Math.min(1, FIT_WIDTH / layout.width);
+
   /* — Entry + pulse scale — */
   const targetScale = useRef(new THREE.Vector3(0.01, 0.01, 0.01));
 
   useEffect(() => {
-    const t = setTimeout(() => targetScale.current.set(1, 1, 1), 200);
+    const t = setTimeout(() => targetScale.current.setScalar(fitScale), 200);
     return () => clearTimeout(t);
-  }, []);
+  }, [fitScale]);
 
   useEffect(() => {
-    targetScale.current.set(1.015, 1.015, 1.015);
-    const t = setTimeout(() => targetScale.current.set(1, 1, 1), 150);
+    targetScale.current.setScalar(fitScale * 1.015);
+    const t = setTimeout(() => targetScale.current.setScalar(fitScale), 150);
     return () => clearTimeout(t);
-  }, [bodyColor, keycapColor, switchColor]);
-
-  /* — Keys — */
-  const keys = useMemo(generateKeys, []);
-  const bodyW = 15 * UNIT + 0.3;
-  const bodyD = 5 * UNIT + 0.25;
+  }, [bodyColor, keycapColor, colorway, switchColor, fitScale]);
 
   /* ═══════════════════════════════════════════
      Key press tracking
      ═══════════════════════════════════════════ */
 
   const pressedKeys = useRef(new Set<number>());
-  const keyOffsets = useRef(new Float32Array(keys.length));
+  /** Ofseti henüz hedefine oturmamış tuşlar – animasyon yalnızca bunları günceller */
+  const settlingKeys = useRef(new Set<number>());
+  /** Pointer ile basılı tutulan tuş */
+  const pointerKey = useRef<number | null>(null);
+
+  /** Kayıt oynatma durumu – `held`: oynatmanın basılı tuttuğu tuşlar */
+  const playback = useRef<{ start: number; index: number; held: Set<number> } | null>(
+    null
+  );
 
-  // Base Y for each key (precomputed)
-  const baseY = useMemo(
-    () => keys.map((k) => BODY_H / 2 + KEY_H / 2 + 0.015 + (ROW_Y[k.row] ?? 0)),
+  // Layout değişince eski index'ler geçersiz olur
+  useEffect(() => {
+    pressedKeys.current.clear();
+    settlingKeys.current.clear();
+    pointerKey.current = null;
+    ripples.current = [];
+    playback.current?.held.clear();
+  }, [layout]);
+
+  // Tüm basışlar buradan geçer – tepkisel ışık ve kayıt da aynı olayı dinler
+  const pressKey = useCallback(
+    (i: number) => {
+      pressedKeys.current.add(i);
+      settlingKeys.current.add(i);
+      ripples.current.push({ x: keys[i].x, z: keys[i].z, start: lightPhase.current });
+      useRecorderStore.getState().capture(keys[i].code, "down");
+    },
     [keys]
   );
 
+  /** Tuşu bırakır; tuş basılı değilse false döner */
+  const releaseKey = useCallback(
+    (i: number) => {
+      if (!pressedKeys.current.delete(i)) return false;
+      settlingKeys.current.add(i);
+      useRecorderStore.getState().capture(keys[i].code, "up");
+      return true;
+    },
+    [keys]
+  );
+
+  /* — Kayıt oynatma: olaylar fiziksel girişle aynı pressKey / releaseKey'e gider — */
+
+  // Kayıttaki switch'in sesi; bu tarayıcıda yoksa seçili switch
+  const playbackSound = useMemo(() => {
+    const option = availableOptions(useConfiguratorStore.getState(), "switches").find(
+      (o) => o.id === recording?.switchId
+    );
+    return option?.sound ?? null;
+  }, [recording]);
+
+  useEffect(() => {
+    if (recorderStatus !== "playing") return;
+    const state = { start: performance.now(), index: 0, held: new Set<number>() };
+    playback.current = state;
+    return () => {
+      state.held.forEach((i) => releaseKey(i));
+      playback.current = null;
+    };
+  }, [recorderStatus, recording, releaseKey]);
+
   // Physical keyboard events
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
-      const idx = KEY_MAP[e.code];
+      // Undo / redo kısayolları olayı capture aşamasında tüketir
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+      // Yazma testi aynı olayı dinler – kısayollar (Ctrl/⌘/Alt) sayılmaz.
+      // Sayılan tuşun varsayılanı (Space ile buton tetikleme vb.) engellenir.
+      if (
+        !e.repeat && !e.ctrlKey && !e.metaKey && !e.altKey &&
+        useTypingStore.getState().handleKey(e.code, e.key)
+      ) {
+        e.preventDefault();
+      }
+      const idx = layout.keyMap[e.code];
       if (idx === undefined) return;
       if (!e.repeat) {
-        pressedKeys.current.add(idx);
-        if (isSoundOn) soundEngine.playDown(switchId);
+        pressKey(idx);
+        if (isSoundOn) soundEngine.playDown(switchSound, keySounds[idx]);
       }
     };
     const up = (e: KeyboardEvent) => {
-      const idx = KEY_MAP[e.code];
-      if (idx === undefined) return;
-      pressedKeys.current.delete(idx);
-      if (isSoundOn) soundEngine.playUp(switchId);
+      const idx = layout.keyMap[e.code];
+      if (idx === undefined || !releaseKey(idx)) return;
+      if (isSoundOn) soundEngine.playUp(switchSound, keySounds[idx]);
     };
 
     window.addEventListener("keydown", down);
@@ -202,34 +752,97 @@ function KeyboardModel() {
       window.removeEventListener("keydown", down);
       window.removeEventListener("keyup", up);
     };
-  }, [switchId, isSoundOn]);
+  }, [layout, keySounds, switchSound, isSoundOn, pressKey, releaseKey]);
 
-  // 3D click on keycap
+  // 3D click on keycap (raycast → instanceId → tuş index'i)
   const handleKeyPointerDown = useCallback(
     (i: number, e: ThreeEvent<PointerEvent>) => {
       e.stopPropagation();
-      pressedKeys.current.add(i);
-      if (isSoundOn) soundEngine.playDown(switchId);
+
+      // Paint modu: tuşa basmak yerine fırça rengini uygula
+      const store = useConfiguratorStore.getState();
+      if (store.activeCategory === "keycaps" && store.keycapTarget === "paint") {
+        store.paintKey(keys[i].code);
+        return;
+      }
+
+      pressKey(i);
+      pointerKey.current = i;
+      if (isSoundOn) soundEngine.playDown(switchSound, keySounds[i]);
     },
-    [switchId, isSoundOn]
+    [keys, keySounds, switchSound, isSoundOn, pressKey]
   );
 
   const handleKeyPointerUp = useCallback(
     (i: number) => {
-      pressedKeys.current.delete(i);
-      if (isSoundOn) soundEngine.playUp(switchId);
+      pointerKey.current = null;
+      if (!releaseKey(i)) return;
+      if (isSoundOn) soundEngine.playUp(switchSound, keySounds[i]);
     },
-    [switchId, isSoundOn]
+    [keySounds, switchSound, isSoundOn, releaseKey]
   );
 
+  // İmleç basılı tuştan çıkınca tuş sessizce bırakılır
+  const handleKeyPointerLeave = useCallback(
+    (i: number) => {
+      if (pointerKey.current !== i) return;
+      pointerKey.current = null;
+      releaseKey(i);
+    },
+    [releaseKey]
+  );
+
+  /** Instanced mesh event'i → tuş index'i */
+  const withKey =
+    (handler: (i: number, e: ThreeEvent<PointerEvent>) => void) =>
+    (e: ThreeEvent<PointerEvent>) => {
+      const i = instanceKey(keycaps, e.object, e.instanceId);
+      if (i !== undefined) handler(i, e);
+    };
+
   /* ═══════════════════════════════════════════
      Animation loop
      ═══════════════════════════════════════════ */
 
-  useFrame((state) => {
+  // Kısa yollu switch daha sığ ve daha çabuk iner
+  const travelScale = switchSpec.totalTravel / KEY_PRESS_TRAVEL;
+  const pressDepth = KEY_PRESS_DEPTH * travelScale;
+  const pressLerp = Math.min(0.6, KEY_PRESS_LERP / travelScale);
+
+  useFrame((state, delta) => {
     const g = groupRef.current;
     if (!g) return;
 
+    // Kayıt oynatma – bu kareye kadar zamanı gelen olaylar
+    const play = playback.current;
+    if (play && recording) {
+      const sound = playbackSound ?? switchSound;
+      const elapsed = performance.now() - play.start;
+      const { events } = recording;
+      while (play.index < events.length && events[play.index].t <= elapsed) {
+        const event = events[play.index++];
+        const idx = layout.keyMap[event.code];
+        if (idx === undefined) continue;
+        if (event.type === "down") {
+          pressKey(idx);
+          play.held.add(idx);
+          if (isSoundOn) soundEngine.playDown(sound, keySounds[idx]);
+        } else if (play.held.delete(idx) && releaseKey(idx)) {
+          if (isSoundOn) soundEngine.playUp(sound, keySounds[idx]);
+        }
+      }
+      if (play.index >= events.length && elapsed >= recording.duration) {
+        if (useRecorderStore.getState().loop) {
+          play.held.forEach((i) => releaseKey(i));
+          play.held.clear();
+          play.start = performance.now();
+          play.index = 0;
+        } else {
+          useRecorderStore.getState().stop();
+        }
+      }
+    }
+
     // Scale (entry + pulse)
     g.scale.lerp(targetScale.current, 0.06);
 
@@ -239,27 +852,121 @@ function KeyboardModel() {
 
     // Color lerps
     bodyMatRef.current?.color.lerp(tBody.current, LERP);
-    keycapMat.color.lerp(tKeycap.current, LERP);
+    legendMat.color.lerp(tLegend.current, LERP);
 
     if (accentMatRef.current) {
       accentMatRef.current.color.lerp(tAccent.current, LERP);
       accentMatRef.current.emissive.lerp(tAccent.current, LERP);
       accentMatRef.current.emissiveIntensity =
         0.3 + Math.sin(state.clock.elapsedTime * 1.5) * 0.15;
+      stemMat.color.copy(accentMatRef.current.color);
     }
 
-    // Key press Y offsets (smooth spring)
-    if (keysGroupRef.current) {
-      const children = keysGroupRef.current.children;
-      for (let i = 0; i < children.length; i++) {
-        const target = pressedKeys.current.has(i) ? KEY_PRESS_DEPTH : 0;
-        keyOffsets.current[i] = THREE.MathUtils.lerp(
-          keyOffsets.current[i],
-          target,
-          KEY_PRESS_LERP
-        );
-        children[i].position.y = baseY[i] + keyOffsets.current[i];
+    // Katmanlar – kasa yerinde kalır, üstündekiler sırayla yükselir
+    const splitTarget = layersSplit ? 1 : 0;
+    if (layerSplit.current !== splitTarget) {
+      const next = THREE.MathUtils.lerp(layerSplit.current, splitTarget, EXPLODE_LERP);
+      layerSplit.current = Math.abs(next - splitTarget) < SETTLE_EPSILON ? splitTarget : next;
+    }
+    const gap = layerSplit.current * LAYER_GAP;
+    if (stackRef.current) stackRef.current.position.y = gap * STACK_ORDER;
+    for (const [id, layer] of Object.entries(INNER_LAYERS)) {
+      const mesh = layerRefs.current[id as keyof typeof INNER_LAYERS];
+      if (!mesh) continue;
+      mesh.position.y = layer.y + gap * layer.order;
+      // Kapalıyken gövdenin içinde – şeffaf kasada görünmesin
+      mesh.visible = gap > 0;
+    }
+
+    // Patlatma – keycap'ler kalkar, switch'ler plate'ten yükselir
+    const settling = settlingKeys.current;
+    const explodeTarget = exploded ? 1 : 0;
+    const exploding = explode.current !== explodeTarget || explodeSync.current;
+    if (exploding) {
+      const next = THREE.MathUtils.lerp(explode.current, explodeTarget, EXPLODE_LERP);
+      explode.current = Math.abs(next - explodeTarget) < SETTLE_EPSILON ? explodeTarget : next;
+      explodeSync.current = false;
+
+      const dirty = new Set<THREE.InstancedMesh>();
+      const y = PLATE_TOP - SWITCH_H * (1 - explode.current);
+      keys.forEach((k, i) => {
+        switchMatrix(k, y, scratchMatrix);
+        setInstanceMatrix(switches.housing, i, scratchMatrix, dirty);
+        setInstanceMatrix(switches.stem, i, scratchMatrix, dirty);
+        settling.add(i);
+      });
+      dirty.forEach((m) => {
+        m.instanceMatrix.needsUpdate = true;
+        m.computeBoundingSphere();
+        m.visible = explode.current > 0;
+      });
+    }
+
+    // RGB arka ışık
+    const lit = lightingEffect !== "off";
+    const phase = (lightPhase.current += delta * lightingSpeed);
+    pruneRipples(ripples.current, phase);
+    lightBase.current.lerp(tLighting.current, LERP);
+    backlight.meshes.forEach((m) => (m.visible = lit));
+    if (lit) {
+      litKeys.forEach((k, i) => {
+        effectColor(
+          lightingEffect,
+          k,
+          phase,
+          lightBase.current,
+          ripples.current,
+          pressedKeys.current.has(i),
+          scratchColor
+        ).multiplyScalar(lightingBrightness);
+        setInstanceColor(backlight, i, scratchColor);
+      });
+      backlight.meshes.forEach((m) => {
+        if (m.instanceColor) m.instanceColor.needsUpdate = true;
+      });
+    }
+
+    // Keycap instance renkleri – tümü hedefe oturunca durur
+    if (colorLerp.current > 0) {
+      let settled = true;
+      keyColors.forEach((c, i) => {
+        const target = keyColorTargets[i];
+        c.lerp(target, colorLerp.current);
+        const delta =
+          Math.abs(c.r - target.r) + Math.abs(c.g - target.g) + Math.abs(c.b - target.b);
+        if (delta < SETTLE_EPSILON) c.copy(target);
+        else settled = false;
+        setInstanceColor(keycaps, i, c);
+      });
+      keycaps.meshes.forEach((m) => {
+        if (m.instanceColor) m.instanceColor.needsUpdate = true;
+      });
+      colorLerp.current = settled ? 0 : LERP;
+    }
+
+    // Key press Y offsets (smooth spring) – yalnızca hareket eden tuşlar
+    const lift = EXPLODE_LIFT * explode.current;
+    if (settling.size > 0) {
+      const dirty = new Set<THREE.InstancedMesh>();
+      for (const i of settling) {
+        const target = pressedKeys.current.has(i) ? pressDepth : 0;
+        let offset = THREE.MathUtils.lerp(keyOffsets[i], target, pressLerp);
+        if (Math.abs(offset - target) < SETTLE_EPSILON) {
+          offset = target;
+          settling.delete(i);
+        }
+        keyOffsets[i] = offset;
+
+        keyMatrix(keys[i], offset + lift, scratchMatrix);
+        setInstanceMatrix(keycaps, i, scratchMatrix, dirty);
+        setInstanceMatrix(legends.top, i, scratchMatrix, dirty);
+        setInstanceMatrix(legends.front, i, scratchMatrix, dirty);
       }
+      dirty.forEach((m) => {
+        m.instanceMatrix.needsUpdate = true;
+        // Kalkan tuşlar raycast / culling sınırının dışına çıkmasın
+        if (exploding) m.computeBoundingSphere();
+      });
     }
   });
 
@@ -268,25 +975,33 @@ function KeyboardModel() {
      ═══════════════════════════════════════════ */
 
   return (
-    <group ref={groupRef} scale={0.01}>
+    <group
+      ref={groupRef}
+      scale={0.01}
+      onDoubleClick={(e) => {
+        // En yakın yüzey – tuş, switch veya katman
+        e.stopPropagation();
+        focusOn(e.point.toArray());
+      }}
+    >
       {/* Body */}
       <RoundedBox args={[bodyW, BODY_H, bodyD]} radius={0.08} smoothness={4}>
+        {/* Malzeme değişince yeniden oluşturulur (transmission / map shader'ı değiştirir) */}
         <meshPhysicalMaterial
+          key={caseMaterial.id}
           ref={bodyMatRef}
           color={bodyColor}
-          roughness={0.25}
-          metalness={0.3}
-          clearcoat={1}
-          clearcoatRoughness={0.1}
+          map={woodTexture}
+          roughness={caseMaterial.render.roughness}
+          metalness={caseMaterial.render.metalness}
+          clearcoat={caseMaterial.render.clearcoat}
+          clearcoatRoughness={caseMaterial.render.clearcoatRoughness}
+          transmission={caseMaterial.render.transmission ?? 0}
+          thickness={caseMaterial.render.thickness ?? 0}
+          ior={caseMaterial.render.ior ?? 1.5}
         />
       </RoundedBox>
 
-      {/* Inner Plate */}
-      <mesh position={[0, BODY_H / 2 + 0.005, 0]}>
-        <boxGeometry args={[bodyW - 0.16, 0.01, bodyD - 0.16]} />
-        <meshStandardMaterial color="#111" metalness={0.9} roughness={0.3} />
-      </mesh>
-
       {/* Accent LED Strip */}
       <RoundedBox
         args={[bodyW - 0.2, 0.035, 0.05]}
@@ -303,22 +1018,55 @@ function KeyboardModel() {
         />
       </RoundedBox>
 
-      {/* Keycaps */}
-      <group ref={keysGroupRef}>
-        {keys.map((k, i) => (
-          <mesh
-            key={i}
-            position={[k.x, baseY[i], k.z]}
-            material={keycapMat}
-            castShadow
-            onPointerDown={(e) => handleKeyPointerDown(i, e)}
-            onPointerUp={() => handleKeyPointerUp(i)}
-            onPointerLeave={() => {
-              pressedKeys.current.delete(i);
-            }}
-          >
-            <boxGeometry args={[k.w, KEY_H, k.d]} />
-          </mesh>
+      {/* Kasa içi katmanlar – yalnızca ayrıldığında görünür */}
+      {caseMods.includes("case-foam") && (
+        <mesh ref={(m) => void (layerRefs.current.caseFoam = m)} visible={false}>
+          <boxGeometry args={[bodyW - 0.16, INNER_LAYERS.caseFoam.height, bodyD - 0.16]} />
+          <meshStandardMaterial color="#3f3f46" roughness={1} />
+        </mesh>
+      )}
+      <mesh ref={(m) => void (layerRefs.current.pcb = m)} visible={false}>
+        <boxGeometry args={[bodyW - 0.16, INNER_LAYERS.pcb.height, bodyD - 0.16]} />
+        <meshStandardMaterial color="#14532d" metalness={0.3} roughness={0.5} />
+      </mesh>
+      {caseMods.includes("plate-foam") && (
+        <mesh ref={(m) => void (layerRefs.current.plateFoam = m)} visible={false}>
+          <boxGeometry args={[bodyW - 0.16, INNER_LAYERS.plateFoam.height, bodyD - 0.16]} />
+          <meshStandardMaterial color="#52525b" roughness={1} />
+        </mesh>
+      )}
+
+      <group ref={stackRef}>
+        {/* Inner Plate */}
+        <mesh position={[0, BODY_H / 2 + 0.005, 0]}>
+          <boxGeometry args={[bodyW - 0.16, 0.01, bodyD - 0.16]} />
+          <meshStandardMaterial color="#111" metalness={0.9} roughness={0.3} />
+        </mesh>
+
+        {/* Switch'ler – gövde + stem */}
+        {[...switches.housing.meshes, ...switches.stem.meshes].map((mesh) => (
+          <primitive key={mesh.uuid} object={mesh} />
+        ))}
+
+        {/* Keycaps – geometri başına bir InstancedMesh */}
+        {keycaps.meshes.map((mesh) => (
+          <primitive
+            key={mesh.uuid}
+            object={mesh}
+            onPointerDown={withKey(handleKeyPointerDown)}
+            onPointerUp={withKey(handleKeyPointerUp)}
+            onPointerLeave={withKey(handleKeyPointerLeave)}
+          />
+        ))}
+
+        {/* RGB backlight */}
+        {backlight.meshes.map((mesh) => (
+          <primitive key={mesh.uuid} object={mesh} />
+        ))}
+
+        {/* Legends (atlas UV'leri instance attribute'u) */}
+        {[...legends.top.meshes, ...legends.front.meshes].map((mesh) => (
+          <primitive key={mesh.uuid} object={mesh} />
         ))}
       </group>
 
@@ -347,6 +1095,125 @@ function KeyboardModel() {
   );
 }
 
+/* ——————————————————————————————————————————————
+   Compare – sabitlenmiş iki yapılandırma yan yana
+   —————————————————————————————————————————————— */
+
+/** Kamera yönüne dik eksen – modeller ekranda yan yana durur */
+const COMPARE_AXIS = Math.PI / 4;
+const COMPARE_SPACING = 1.65;
+const COMPARE_SCALE = 0.5;
+
+/**
+ * Etkileşimsiz, animasyonsuz klavye: gövde, malzeme ve keycap renkleri.
+ * Legend ve ışık çizilmez – farklar panelde listelenir.
+ */
+function StaticKeyboard({ slot }: { slot: CompareSlot }) {
+  const { selectedOptions, colorway, keyOverrides } = slot.snapshot;
+  const layout = useMemo(
+    () => resolveLayout(selectedOptions.layout, slot.customLayout),
+    [selectedOptions.layout, slot.customLayout]
+  );
+  const keys = useMemo(() => toKeyData(layout), [layout]);
+  const profile = getProfile(selectedOptions.profile);
+  const caseMaterial = getCaseMaterial(selectedOptions.material);
+  const caseTexture = caseMaterial.render.texture;
+  const woodTexture = useMemo(
+    () => (caseTexture === "wood" ? createWoodTexture() : null),
+    [caseTexture]
+  );
+  useEffect(() => () => woodTexture?.dispose(), [woodTexture]);
+
+  const keycapMat = useMemo(() => createKeycapMaterial(), []);
+  useEffect(() => () => keycapMat.dispose(), [keycapMat]);
+
+  const geometries = useMemo(() => {
+    const cache = new Map<string, THREE.BufferGeometry>();
+    return keys.map((k) => {
+      const id = [k.row, k.w, k.d, JSON.stringify(k.secondary ?? null)].join("|");
+      let geo = cache.get(id);
+      if (!geo) {
+        geo = createKeycapGeometry(k, keycapShape(profile, k.row, k.w, k.d), profile);
+        cache.set(id, geo);
+      }
+      return geo;
+    });
+  }, [keys, profile]);
+  useEffect(() => () => new Set(geometries).forEach((g) => g.dispose()), [geometries]);
+
+  const keycaps = useMemo(() => {
+    const group = createInstanceGroup(geometries, keycapMat, (i, m) =>
+      keyMatrix(keys[i], 0, m)
+    );
+    group.meshes.forEach((m) => (m.castShadow = true));
+    return group;
+  }, [keys, geometries, keycapMat]);
+  useEffect(() => () => disposeInstanceGroup(keycaps), [keycaps]);
+
+  useEffect(() => {
+    const zoneColors = colorwayColors(colorway);
+    keys.forEach((k, i) => {
+      const override = keyOverrides[k.code];
+      scratchColor.set(
+        (override && findOption("keycaps", override)?.color) || zoneColors[k.zone]
+      );
+      setInstanceColor(keycaps, i, scratchColor);
+    });
+    keycaps.meshes.forEach((m) => {
+      if (m.instanceColor) m.instanceColor.needsUpdate = true;
+    });
+  }, [keys, keycaps, colorway, keyOverrides]);
+
+  const bodyColor = findOption("body", selectedOptions.body)?.color ?? "#18181b";
+  const bodyW = layout.width * UNIT + 0.3;
+  const bodyD = layout.depth * UNIT + 0.25;
+
+  return (
+    <group scale={Math.min(1, FIT_WIDTH / layout.width) * COMPARE_SCALE}>
+      <RoundedBox args={[bodyW, BODY_H, bodyD]} radius={0.08} smoothness={4}>
+        <meshPhysicalMaterial
+          key={caseMaterial.id}
+          color={bodyColor}
+          map={woodTexture}
+          roughness={caseMaterial.render.roughness}
+          metalness={caseMaterial.render.metalness}
+          clearcoat={caseMaterial.render.clearcoat}
+          clearcoatRoughness={caseMaterial.render.clearcoatRoughness}
+          transmission={caseMaterial.render.transmission ?? 0}
+          thickness={caseMaterial.render.thickness ?? 0}
+          ior={caseMaterial.render.ior ?? 1.5}
+        />
+      </RoundedBox>
+      <mesh position={[0, BODY_H / 2 + 0.005, 0]}>
+        <boxGeometry args={[bodyW - 0.16, 0.01, bodyD - 0.16]} />
+        <meshStandardMaterial color="#111" metalness={0.9} roughness={0.3} />
+      </mesh>
+      {keycaps.meshes.map((mesh) => (
+        <primitive key={mesh.uuid} object={mesh} />
+      ))}
+    </group>
+  );
+}
+
+function CompareModels() {
+  const { a, b } = useCompareStore((s) => s.slots);
+  if (!a || !b) return null;
+
+  return (
+    <group rotation={[0, COMPARE_AXIS, 0]}>
+      {[a, b].map((slot, i) => (
+        <group
+          key={i}
+          position={[(i === 0 ? -1 : 1) * COMPARE_SPACING, 0, 0]}
+          rotation={[0.15, -COMPARE_AXIS, 0]}
+        >
+          <StaticKeyboard slot={slot} />
+        </group>
+      ))}
+    </group>
+  );
+}
+
 /* ——————————————————————————————————————————————
    Lights
    —————————————————————————————————————————————— */
@@ -364,10 +1231,174 @@ function Lights() {
 }
 
 /* ——————————————————————————————————————————————
-   Scene Export
+   Capture bridge – Canvas dışından anlık görüntü
+   —————————————————————————————————————————————— */
+
+type OrbitControlsImpl = ComponentRef<typeof OrbitControls>;
+
+const ORIGIN = new THREE.Vector3();
+
+function CaptureBridge() {
+  const gl = useThree((s) => s.gl);
+  const scene = useThree((s) => s.scene);
+  const camera = useThree((s) => s.camera);
+  const controls = useThree((s) => s.controls) as OrbitControlsImpl | null;
+
+  useEffect(
+    () =>
+      registerCapture(() => {
+        gl.render(scene, camera);
+        return gl.domElement;
+      }),
+    [gl, scene, camera]
+  );
+  useEffect(
+    () =>
+      registerRenderer(
+        createOffscreenRenderer(
+          gl,
+          scene,
+          camera as THREE.PerspectiveCamera,
+          () => controls?.target ?? ORIGIN
+        )
+      ),
+    [gl, scene, camera, controls]
+  );
+  return null;
+}
+
+/* ——————————————————————————————————————————————
+   Camera rig – önayarlar, serbest inceleme, odaklanma
+   —————————————————————————————————————————————— */
+
+const CAMERA_TWEEN_SECONDS = 0.9;
+/** Son etkileşimden bu kadar sonra otomatik dönüş sürer (ms) */
+const AUTO_ROTATE_IDLE_MS = 4000;
+/** Odaklanılan noktaya kamera uzaklığı */
+const FOCUS_DISTANCE = 1.4;
+/** İnceleme kapalıyken dikey açı sınırları */
+const POLAR_LIMITS = { min: Math.PI / 5, max: Math.PI / 2.1 };
+const ZOOM_LIMITS = { min: 0.6, max: 14 };
+
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+interface CameraTween {
+  fromPosition: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  /** 0 – 1 */
+  t: number;
+}
+
+function CameraRig({ comparing }: { comparing: boolean }) {
+  const controls = useRef<OrbitControlsImpl>(null!);
+  const camera = useThree((s) => s.camera);
+  const scene = useThree((s) => s.scene);
+  const inspect = useViewStore((s) => s.inspect);
+  const cameraRequest = useViewStore((s) => s.cameraRequest);
+
+  const tween = useRef<CameraTween | null>(null);
+  /** Sürükleme / yakınlaştırma sırasında ve sonrasındaki bekleme süresinde otomatik dönüş durur */
+  const paused = useRef(false);
+  const idleTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const pause = useCallback(() => {
+    clearTimeout(idleTimer.current);
+    paused.current = true;
+  }, []);
+
+  const resumeLater = useCallback(() => {
+    clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(() => (paused.current = false), AUTO_ROTATE_IDLE_MS);
+  }, []);
+
+  useEffect(() => () => clearTimeout(idleTimer.current), []);
+
+  // Önayar / odak isteği → mevcut konumdan hedefe geçiş
+  useEffect(() => {
+    const goal = useViewStore.getState().cameraGoal;
+    const c = controls.current;
+    if (!goal || !c) return;
+
+    const toPosition = new THREE.Vector3();
+    const toTarget = new THREE.Vector3();
+    if ("view" in goal) {
+      const sphere = boundingSphere(scene.getObjectByName(EXPORT_SUBJECT));
+      toTarget.copy(sphere.center);
+      framePosition(
+        sphere,
+        camera as THREE.PerspectiveCamera,
+        CAMERA_VIEWS[goal.view],
+        toPosition
+      );
+    } else {
+      // Bakış yönü korunur, kamera noktaya yaklaşır
+      toTarget.fromArray(goal.point);
+      toPosition.subVectors(camera.position, c.target).setLength(FOCUS_DISTANCE).add(toTarget);
+    }
+
+    tween.current = {
+      fromPosition: camera.position.clone(),
+      toPosition,
+      fromTarget: c.target.clone(),
+      toTarget,
+      t: 0,
+    };
+    // Geçiş boyunca kullanıcı girişi ve sınırlar devre dışı
+    c.enabled = false;
+    pause();
+  }, [cameraRequest, camera, scene, pause]);
+
+  useFrame((_, delta) => {
+    const c = controls.current;
+    if (!c) return;
+    c.autoRotate = !comparing && !paused.current;
+
+    const tw = tween.current;
+    if (!tw) return;
+    tw.t = Math.min(1, tw.t + delta / CAMERA_TWEEN_SECONDS);
+    const k = easeInOutCubic(tw.t);
+    camera.position.lerpVectors(tw.fromPosition, tw.toPosition, k);
+    c.target.lerpVectors(tw.fromTarget, tw.toTarget, k);
+    camera.lookAt(c.target);
+    if (tw.t < 1) return;
+
+    tween.current = null;
+    // Tepeden bakan önayar sınırın dışında kalmasın – sınır o açıya genişler
+    if (!inspect) c.minPolarAngle = Math.min(POLAR_LIMITS.min, c.getPolarAngle());
+    c.enabled = true;
+    c.update();
+    resumeLater();
+  });
+
+  return (
+    <OrbitControls
+      ref={controls}
+      makeDefault
+      onStart={pause}
+      onEnd={resumeLater}
+      autoRotateSpeed={0.4}
+      enablePan={inspect}
+      enableZoom={inspect}
+      enableDamping
+      dampingFactor={0.05}
+      minDistance={ZOOM_LIMITS.min}
+      maxDistance={ZOOM_LIMITS.max}
+      maxPolarAngle={POLAR_LIMITS.max}
+      minPolarAngle={inspect ? 0 : POLAR_LIMITS.min}
+    />
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Scene – Canvas kökü (ışıklar, kamera, klavye / karşılaştırma)
    —————————————————————————————————————————————— */
 
 export default function Scene() {
+  const comparing = useCompareStore((s) => s.active);
+
   return (
     <div style={{ width: "100%", height: "100%" }}>
       <Canvas
@@ -379,6 +1410,7 @@ export default function Scene() {
         <fog attach="fog" args={["#09090b", 10, 22]} />
 
         <Lights />
+        <CaptureBridge />
 
         <Sparkles count={50} scale={10} size={1.2} speed={0.2} opacity={0.08} color="#a78bfa" />
 
@@ -386,22 +1418,20 @@ export default function Scene() {
           <Environment preset="city" environmentIntensity={0.3} />
         </Suspense>
 
-        <Center>
-          <KeyboardModel />
-        </Center>
+        {/* Karşılaştırmada etkileşimli model (ve klavye dinleyicileri) kaldırılır */}
+        <group name={EXPORT_SUBJECT}>
+          {comparing ? (
+            <CompareModels />
+          ) : (
+            <Center>
+              <KeyboardModel />
+            </Center>
+          )}
+        </group>
 
         <ContactShadows position={[0, -0.55, 0]} opacity={0.35} scale={12} blur={2.5} far={4} />
 
-        <OrbitControls
-          autoRotate
-          autoRotateSpeed={0.4}
-          enablePan={false}
-          enableZoom={false}
-          enableDamping
-          dampingFactor={0.05}
-          maxPolarAngle={Math.PI / 2.1}
-          minPolarAngle={Math.PI / 5}
-        />
+        <CameraRig comparing={comparing} />
       </Canvas>
     </div>
   );
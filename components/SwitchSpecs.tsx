@@ -0,0 +1,272 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Activity, X } from "lucide-react";
+import {
+  useConfiguratorStore,
+  availableOptions,
+  switchSpecOf,
+} from "@/store/useConfiguratorStore";
+import { forceCurve, type SwitchSpec } from "@/lib/switchSpecs";
+import { localeInfo, optionText } from "@/lib/i18n";
+import { useLocaleStore, useMessages } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Switch Specs – karşılaştırma tablosu ve kuvvet – yol eğrileri
+   —————————————————————————————————————————————— */
+
+const CHART = { width: 320, height: 170, left: 30, right: 8, top: 8, bottom: 24 };
+const FORCE_STEP = 20;
+
+/** Koyu switch renkleri (ör. MX Black) koyu zeminde de seçilebilsin */
+const strokeColor = (color: string) => `color-mix(in srgb, ${color} 70%, white)`;
+
+function ForceChart({
+  curves,
+  highlighted,
+  labels,
+}: {
+  curves: { id: string; color: string; spec: SwitchSpec }[];
+  highlighted: string;
+  labels: { travel: string; force: string; actuationPoint: string };
+}) {
+  const maxTravel = Math.ceil(Math.max(...curves.map((c) => c.spec.totalTravel)));
+  const maxForce =
+    Math.ceil(Math.max(...curves.map((c) => c.spec.bottomOutForce)) / FORCE_STEP) * FORCE_STEP;
+  const plotW = CHART.width - CHART.left - CHART.right;
+  const plotH = CHART.height - CHART.top - CHART.bottom;
+  const x = (travel: number) => CHART.left + (travel / maxTravel) * plotW;
+  const y = (force: number) => CHART.top + plotH - (force / maxForce) * plotH;
+
+  const active = curves.find((c) => c.id === highlighted);
+  // Vurgulanan eğri en üstte çizilir
+  const ordered = [...curves.filter((c) => c !== active), ...(active ? [active] : [])];
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`${labels.force} / ${labels.travel}`}
+    >
+      {Array.from({ length: maxForce / FORCE_STEP + 1 }, (_, i) => i * FORCE_STEP).map((f) => (
+        <g key={`f${f}`}>
+          <line
+            x1={CHART.left}
+            x2={CHART.width - CHART.right}
+            y1={y(f)}
+            y2={y(f)}
+            stroke="white"
+            strokeOpacity={0.06}
+          />
+          <text x={CHART.left - 4} y={y(f) + 3} textAnchor="end" className="fill-white/30 text-[8px]">
+            {f}
+          </text>
+        </g>
+      ))}
+      {Array.from({ length: maxTravel + 1 }, (_, i) => i).map((t) => (
+        <g key={`t${t}`}>
+          <line
+            x1={x(t)}
+            x2={x(t)}
+            y1={CHART.top}
+            y2={CHART.top + plotH}
+            stroke="white"
+            strokeOpacity={0.06}
+          />
+          <text x={x(t)} y={CHART.top + plotH + 10} textAnchor="middle" className="fill-white/30 text-[8px]">
+            {t}
+          </text>
+        </g>
+      ))}
+      <text
+        x={CHART.width - CHART.right}
+        y={CHART.height - 2}
+        textAnchor="end"
+        className="fill-white/30 text-[8px]"
+      >
+        {labels.travel}
+      </text>
+      <text x={CHART.left + 4} y={CHART.top + 8} className="fill-white/30 text-[8px]">
+        {labels.force}
+      </text>
+
+      {ordered.map((c) => (
+        <polyline
+          key={c.id}
+          points={forceCurve(c.spec)
+            .map((p) => `${x(p.travel)},${y(p.force)}`)
+            .join(" ")}
+          fill="none"
+          style={{ stroke: strokeColor(c.color) }}
+          strokeWidth={c === active ? 2 : 1}
+          strokeOpacity={c === active ? 1 : 0.3}
+          strokeLinejoin="round"
+        />
+      ))}
+
+      {active && (
+        <g>
+          <line
+            x1={x(active.spec.preTravel)}
+            x2={x(active.spec.preTravel)}
+            y1={y(active.spec.actuationForce)}
+            y2={CHART.top + plotH}
+            stroke="white"
+            strokeOpacity={0.35}
+            strokeDasharray="2 2"
+          />
+          <circle
+            cx={x(active.spec.preTravel)}
+            cy={y(active.spec.actuationForce)}
+            r={3}
+            className="fill-white"
+          >
+            <title>{labels.actuationPoint}</title>
+          </circle>
+        </g>
+      )}
+    </svg>
+  );
+}
+
+export default function SwitchSpecs({ className }: { className?: string }) {
+  const customSwitches = useConfiguratorStore((s) => s.customSwitches);
+  const selectedId = useConfiguratorStore((s) => s.selectedOptions.switches);
+  const selectOption = useConfiguratorStore((s) => s.selectOption);
+  const locale = useLocaleStore((s) => s.locale);
+  const t = useMessages();
+  const [open, setOpen] = useState(false);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const switches = useMemo(
+    () =>
+      availableOptions({ customLayout: null, customSwitches }, "switches").map((option) => ({
+        id: option.id,
+        color: option.color,
+        name: optionText(t, "switches", option).name,
+        spec: switchSpecOf(option),
+      })),
+    [customSwitches, t]
+  );
+
+  const tag = localeInfo(locale).tag;
+  const mm = (value: number) =>
+    `${value.toLocaleString(tag, { minimumFractionDigits: 1 })} mm`;
+  const specs = t.switchSpecs;
+
+  return (
+    <>
+      <button onClick={() => setOpen(true)} className={className}>
+        <Activity size={10} />
+        {specs.open}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => setOpen(false)}
+          >
+            <motion.div
+              className="w-full max-w-xl max-h-[90dvh] overflow-y-auto rounded-3xl glass p-5"
+              initial={{ scale: 0.95, y: 10 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.95, y: 10 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h2 className="text-sm font-semibold text-white/90 font-display">
+                    {specs.title}
+                  </h2>
+                  <p className="text-[10px] text-white/35 mt-0.5">{specs.subtitle}</p>
+                </div>
+                <button
+                  onClick={() => setOpen(false)}
+                  className="text-white/30 hover:text-white/60 transition-colors"
+                  title={t.page.close}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              <ForceChart
+                curves={switches}
+                highlighted={hovered ?? selectedId}
+                labels={specs}
+              />
+
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-[11px] tabular-nums">
+                  <thead>
+                    <tr className="text-left text-[9px] uppercase tracking-wider text-white/30">
+                      <th className="py-1.5 pr-2 font-medium">{specs.columns.name}</th>
+                      <th className="py-1.5 pr-2 font-medium">{specs.columns.type}</th>
+                      <th className="py-1.5 pr-2 font-medium text-right">
+                        {specs.columns.actuation}
+                      </th>
+                      <th className="py-1.5 pr-2 font-medium text-right">
+                        {specs.columns.bottomOut}
+                      </th>
+                      <th className="py-1.5 pr-2 font-medium text-right">
+                        {specs.columns.preTravel}
+                      </th>
+                      <th className="py-1.5 pr-2 font-medium text-right">
+                        {specs.columns.totalTravel}
+                      </th>
+                      <th className="py-1.5 font-medium">{specs.columns.sound}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {switches.map((s) => (
+                      <tr
+                        key={s.id}
+                        onClick={() => selectOption("switches", s.id)}
+                        onMouseEnter={() => setHovered(s.id)}
+                        onMouseLeave={() => setHovered(null)}
+                        className={`cursor-pointer border-t border-white/[0.04] transition-colors ${
+                          s.id === selectedId
+                            ? "bg-white/[0.08] text-white/90"
+                            : "text-white/55 hover:bg-white/[0.04]"
+                        }`}
+                      >
+                        <td className="py-1.5 pr-2">
+                          <span className="flex items-center gap-1.5 whitespace-nowrap">
+                            <span
+                              className="w-2 h-2 rounded-full shrink-0 ring-1 ring-white/20"
+                              style={{ backgroundColor: s.color }}
+                            />
+                            {s.name}
+                          </span>
+                        </td>
+                        <td className="py-1.5 pr-2">{specs.types[s.spec.type]}</td>
+                        <td className="py-1.5 pr-2 text-right">{s.spec.actuationForce} gf</td>
+                        <td className="py-1.5 pr-2 text-right">{s.spec.bottomOutForce} gf</td>
+                        <td className="py-1.5 pr-2 text-right">{mm(s.spec.preTravel)}</td>
+                        <td className="py-1.5 pr-2 text-right">{mm(s.spec.totalTravel)}</td>
+                        <td className="py-1.5">
+                          <span
+                            className="tracking-[0.2em] text-white/70"
+                            title={specs.soundLevels[s.spec.soundLevel]}
+                          >
+                            {"●".repeat(s.spec.soundLevel)}
+                            <span className="text-white/15">{"●".repeat(5 - s.spec.soundLevel)}</span>
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Gauge, RotateCcw, Flame, X } from "lucide-react";
+import { useTypingStore } from "@/store/useTypingStore";
+import { useLocaleStore, useMessages } from "@/store/useLocaleStore";
+import { computeAccuracy, computeWpm } from "@/lib/typingTest";
+
+/* ——————————————————————————————————————————————
+   Typing Test – başlık butonu + sahne üstü panel.
+   Tuşlar KeyboardModel'in keydown dinleyicisinden gelir.
+   —————————————————————————————————————————————— */
+
+const formatSeconds = (ms: number) => `${(Math.max(0, ms) / 1000).toFixed(1)}s`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col items-center">
+      <span className="text-base font-bold text-white/90 tabular-nums font-display">
+        {value}
+      </span>
+      <span className="text-[9px] uppercase tracking-widest text-white/30">{label}</span>
+    </div>
+  );
+}
+
+/** Yazılan karakterler doğru / yanlış, imleç ve kalan metin */
+function Passage() {
+  const passage = useTypingStore((s) => s.passage);
+  const input = useTypingStore((s) => s.input);
+
+  return (
+    <p className="font-mono text-[13px] leading-relaxed tracking-wide">
+      {[...passage].map((char, i) => {
+        const typed = input[i];
+        const className =
+          typed === undefined
+            ? i === input.length
+              ? "text-white/60 border-b border-violet-400"
+              : "text-white/25"
+            : typed === char
+              ? "text-white/85"
+              : "text-rose-300 bg-rose-500/20 rounded-sm";
+        return (
+          <span key={i} className={className}>
+            {char}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+function LiveStats() {
+  const passage = useTypingStore((s) => s.passage);
+  const input = useTypingStore((s) => s.input);
+  const keystrokes = useTypingStore((s) => s.keystrokes);
+  const errors = useTypingStore((s) => s.errors);
+  const startedAt = useTypingStore((s) => s.startedAt);
+  const t = useMessages();
+  const [now, setNow] = useState(0);
+
+  // Test sürerken WPM / süre canlı güncellenir
+  useEffect(() => {
+    if (startedAt === null) return;
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [startedAt]);
+
+  const elapsed = startedAt === null ? 0 : Math.max(0, now - startedAt);
+  const correct = [...input].filter((c, i) => c === passage[i]).length;
+
+  return (
+    <div className="flex items-center justify-center gap-8">
+      <Stat label="WPM" value={String(computeWpm(correct, elapsed))} />
+      <Stat
+        label={t.typingTest.accuracy}
+        value={formatPercent(computeAccuracy(keystrokes, errors))}
+      />
+      <Stat label={t.typingTest.time} value={formatSeconds(elapsed)} />
+    </div>
+  );
+}
+
+function Results() {
+  const results = useTypingStore((s) => s.results);
+  const heatmap = useTypingStore((s) => s.heatmap);
+  const toggleHeatmap = useTypingStore((s) => s.toggleHeatmap);
+  const t = useMessages();
+  const last = results[0];
+  if (!last) return null;
+  const best = Math.max(...results.map((r) => r.wpm));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-center gap-8">
+        <Stat label="WPM" value={String(last.wpm)} />
+        <Stat label={t.typingTest.accuracy} value={formatPercent(last.accuracy)} />
+        <Stat label={t.typingTest.time} value={formatSeconds(last.durationMs)} />
+        <Stat label={t.typingTest.best} value={String(best)} />
+      </div>
+
+      {results.length > 1 && (
+        <div className="flex items-center justify-center gap-1.5 text-[10px] text-white/30">
+          <span>{t.typingTest.previous}</span>
+          {results.slice(1, 6).map((r) => (
+            <span
+              key={r.finishedAt}
+              className="px-1.5 py-0.5 rounded bg-white/[0.04] tabular-nums"
+              title={t.typingTest.accuracyOf(formatPercent(r.accuracy))}
+            >
+              {r.wpm}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-center gap-3">
+        <button
+          onClick={toggleHeatmap}
+          className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-medium border transition-colors ${
+            heatmap
+              ? "bg-violet-500/20 border-violet-400/30 text-white/90"
+              : "bg-white/[0.04] border-white/[0.05] text-white/40 hover:text-white/70"
+          }`}
+        >
+          <Flame size={11} />
+          {t.typingTest.heatmap}
+        </button>
+        {heatmap && (
+          <span className="flex items-center gap-1.5 text-[9px] text-white/30">
+            <span className="w-2 h-2 rounded-full bg-green-500" /> {t.typingTest.correct}
+            <span className="w-2 h-2 rounded-full bg-red-500" /> {t.typingTest.wrong}
+            <span className="text-white/20">· {t.typingTest.brightness}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TypingTest() {
+  const status = useTypingStore((s) => s.status);
+  const loadResults = useTypingStore((s) => s.loadResults);
+  const startTest = useTypingStore((s) => s.startTest);
+  const closeTest = useTypingStore((s) => s.closeTest);
+  const t = useMessages();
+  const isOpen = status !== "off";
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults]);
+
+  // Dil değişince henüz başlamamış test o dilin metniyle yenilenir
+  const locale = useLocaleStore((s) => s.locale);
+  useEffect(() => {
+    if (useTypingStore.getState().status === "ready") startTest();
+  }, [locale, startTest]);
+
+  // Odaktaki buton Space ile tekrar tetiklenmesin
+  const start = () => {
+    if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+    startTest();
+  };
+
+  return (
+    <>
+      <motion.button
+        onClick={isOpen ? closeTest : start}
+        className={`flex items-center justify-center w-9 h-9 rounded-full border transition-colors ${
+          isOpen
+            ? "bg-violet-500/20 border-violet-400/30"
+            : "bg-white/[0.05] border-white/[0.06] hover:bg-white/[0.1]"
+        }`}
+        whileTap={{ scale: 0.9 }}
+        title={isOpen ? t.typingTest.close : t.typingTest.open}
+      >
+        <Gauge size={14} className={isOpen ? "text-violet-300" : "text-white/50"} />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="fixed top-20 left-1/2 z-30 -translate-x-1/2 w-[min(92vw,560px)]"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <div className="rounded-2xl glass px-5 py-4 flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-[11px] font-semibold text-white/70 tracking-wide font-display">
+                  {status === "finished" ? t.typingTest.result : t.typingTest.title}
+                </h2>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={start}
+                    className="text-white/30 hover:text-white/60 transition-colors"
+                    title={t.typingTest.newPassage}
+                  >
+                    <RotateCcw size={13} />
+                  </button>
+                  <button
+                    onClick={closeTest}
+                    className="text-white/30 hover:text-white/60 transition-colors"
+                    title={t.page.close}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {status === "finished" ? (
+                <Results />
+              ) : (
+                <>
+                  <Passage />
+                  {status === "ready" ? (
+                    <p className="text-center text-[10px] text-white/30">
+                      {t.typingTest.startHint}
+                    </p>
+                  ) : (
+                    <LiveStats />
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
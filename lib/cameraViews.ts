@@ -0,0 +1,59 @@
+/**
+ * Camera Views
+ * ─────────────
+ * Adlandırılmış kamera açıları – sahnedeki önayar geçişleri ve dışa aktarma
+ * aynı tabloyu kullanır. Mesafe, kadrajlanan nesnenin sınır küresi ve
+ * kameranın görüş açısından hesaplanır; böylece layout boyutundan bağımsızdır.
+ */
+
+import * as THREE from "three";
+
+export interface CameraView {
+  /** Y ekseni etrafında açı (rad) – 0: önden */
+  azimuth: number;
+  /** Tepeden açı (rad) – 0: tam tepeden */
+  polar: number;
+}
+
+export const CAMERA_VIEWS = {
+  // Canvas'ın başlangıç kamerasıyla ([4, 3, 4]) aynı yön
+  home: { azimuth: Math.PI / 4, polar: Math.acos(3 / Math.sqrt(41)) },
+  isometric: { azimuth: Math.PI / 4, polar: Math.atan(Math.SQRT2) },
+  front: { azimuth: 0, polar: Math.PI * 0.38 },
+  // Tam tepeden – küçük açı lookAt'in tekilliğini önler
+  top: { azimuth: 0, polar: 0.001 },
+  side: { azimuth: Math.PI / 2, polar: Math.PI * 0.44 },
+} satisfies Record<string, CameraView>;
+
+export type CameraViewId = keyof typeof CAMERA_VIEWS;
+
+export const CAMERA_VIEW_IDS = Object.keys(CAMERA_VIEWS) as CameraViewId[];
+
+/** Kadrajda nesnenin çevresinde bırakılan pay */
+const FRAME_MARGIN = 1.12;
+
+/**
+ * Küreyi verilen açıdan kadraja sığdıran kamera konumu (`target`'a yazılır).
+ * `turn`: azimuta eklenen açı – turntable kareleri.
+ */
+export function framePosition(
+  sphere: THREE.Sphere,
+  camera: THREE.PerspectiveCamera,
+  view: CameraView,
+  target: THREE.Vector3,
+  turn = 0
+) {
+  const vFov = THREE.MathUtils.degToRad(camera.fov);
+  const hFov = 2 * Math.atan(Math.tan(vFov / 2) * camera.aspect);
+  const distance = (sphere.radius * FRAME_MARGIN) / Math.sin(Math.min(vFov, hFov) / 2);
+  return target
+    .setFromSpherical(new THREE.Spherical(distance, view.polar, view.azimuth + turn))
+    .add(sphere.center);
+}
+
+/** Nesnenin sınır küresi; nesne yoksa `fallback` yarıçaplı orijin küresi */
+export function boundingSphere(object: THREE.Object3D | undefined, fallback = 3) {
+  return object
+    ? new THREE.Box3().setFromObject(object).getBoundingSphere(new THREE.Sphere())
+    : new THREE.Sphere(new THREE.Vector3(), fallback);
+}
@@ -0,0 +1,167 @@
+/**
+ * Case Materials & Acoustics
+ * ───────────────────────────
+ * Kasa malzemesi hem görünümü (metalness, roughness, polycarbonate için
+ * transmission, ahşap doku) hem de sesi belirler: kasa rezonansı ve
+ * frekans dengesi ses motorunun master bus'ındaki EQ'ya uygulanır.
+ * Köpük / tape modları bu akustiği sönümleyen eklentilerdir.
+ * Fiyatlar katalogdadır (data/catalog.json).
+ */
+
+import * as THREE from "three";
+
+/** Kasa EQ'su – değerler dB, frekanslar Hz */
+export interface CaseAcoustics {
+  /** Kasanın rezonans tepesi */
+  resonanceFreq: number;
+  resonanceQ: number;
+  resonanceGain: number;
+  /** 250 Hz altı (thock) */
+  lowGain: number;
+  /** 4 kHz üstü (click, tiz çınlama) */
+  brightness: number;
+}
+
+export interface CaseMaterial {
+  id: string;
+  render: {
+    metalness: number;
+    roughness: number;
+    clearcoat: number;
+    clearcoatRoughness: number;
+    /** Yarı saydam malzemeler (polycarbonate) */
+    transmission?: number;
+    thickness?: number;
+    ior?: number;
+    /** Prosedürel doku – renk gövde rengiyle çarpılır */
+    texture?: "wood";
+  };
+  acoustics: CaseAcoustics;
+}
+
+// id'ler store'daki "material" option id'leriyle eşleşir
+export const CASE_MATERIALS: Record<string, CaseMaterial> = {
+  plastic: {
+    id: "plastic",
+    render: { metalness: 0.15, roughness: 0.3, clearcoat: 1, clearcoatRoughness: 0.1 },
+    acoustics: { resonanceFreq: 600, resonanceQ: 3, resonanceGain: 4, lowGain: -2, brightness: 0 },
+  },
+  aluminum: {
+    id: "aluminum",
+    render: { metalness: 0.9, roughness: 0.3, clearcoat: 0.3, clearcoatRoughness: 0.2 },
+    acoustics: { resonanceFreq: 2200, resonanceQ: 6, resonanceGain: 5, lowGain: -1, brightness: 3 },
+  },
+  polycarbonate: {
+    id: "polycarbonate",
+    render: {
+      metalness: 0,
+      roughness: 0.12,
+      clearcoat: 1,
+      clearcoatRoughness: 0.05,
+      transmission: 0.7,
+      thickness: 0.4,
+      ior: 1.58,
+    },
+    acoustics: { resonanceFreq: 900, resonanceQ: 2, resonanceGain: 3, lowGain: 0, brightness: 1 },
+  },
+  wood: {
+    id: "wood",
+    render: {
+      metalness: 0,
+      roughness: 0.65,
+      clearcoat: 0.2,
+      clearcoatRoughness: 0.4,
+      texture: "wood",
+    },
+    acoustics: { resonanceFreq: 400, resonanceQ: 1.5, resonanceGain: 2, lowGain: 3, brightness: -4 },
+  },
+};
+
+export const DEFAULT_CASE_MATERIAL_ID = "plastic";
+
+export function getCaseMaterial(id: string): CaseMaterial {
+  return CASE_MATERIALS[id] ?? CASE_MATERIALS[DEFAULT_CASE_MATERIAL_ID];
+}
+
+/* ——————————————————————————————————————————————
+   Sönümleme modları
+   —————————————————————————————————————————————— */
+
+export interface CaseMod {
+  id: string;
+  name: string;
+  description: string;
+  /** Rezonans tepesinin çarpanı ve dB eklemeleri */
+  effect: { resonanceScale?: number; lowGain?: number; brightness?: number };
+}
+
+export const CASE_MODS: CaseMod[] = [
+  {
+    id: "case-foam",
+    name: "Kasa Köpüğü",
+    description: "Boşluk yankısını keser",
+    effect: { resonanceScale: 0.3, lowGain: 1 },
+  },
+  {
+    id: "plate-foam",
+    name: "Plate Köpüğü",
+    description: "Tiz çınlamayı yumuşatır",
+    effect: { resonanceScale: 0.8, brightness: -2 },
+  },
+  {
+    id: "tape",
+    name: "Tape Mod",
+    description: "Daha derin, tok ses",
+    effect: { lowGain: 3, brightness: -1.5 },
+  },
+];
+
+export const isCaseMod = (id: string) => CASE_MODS.some((m) => m.id === id);
+
+/** Malzeme akustiğine seçili modları uygular */
+export function caseAcoustics(materialId: string, modIds: string[]): CaseAcoustics {
+  const a = { ...getCaseMaterial(materialId).acoustics };
+  for (const mod of CASE_MODS) {
+    if (!modIds.includes(mod.id)) continue;
+    a.resonanceGain *= mod.effect.resonanceScale ?? 1;
+    a.lowGain += mod.effect.lowGain ?? 0;
+    a.brightness += mod.effect.brightness ?? 0;
+  }
+  return a;
+}
+
+/* ——————————————————————————————————————————————
+   Ahşap doku
+   —————————————————————————————————————————————— */
+
+/** Açık tonlu, yatay damarlı prosedürel ahşap – gövde rengiyle tonlanır */
+export function createWoodTexture(): THREE.CanvasTexture {
+  const size = 512;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d")!;
+  const img = ctx.createImageData(size, size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // Halka deseni: y boyunca sinüs, x ile hafifçe dalgalanan
+      const warp = Math.sin(x * 0.012) * 18 + Math.sin(x * 0.045 + y * 0.01) * 4;
+      const ring = 0.5 + 0.5 * Math.sin((y + warp) * 0.11);
+      const grain = Math.sin(x * 0.9 + y * 0.05) * 0.04;
+      const v = 0.72 + ring * 0.22 + grain;
+      const i = (y * size + x) * 4;
+      img.data[i] = Math.min(255, v * 255);
+      img.data[i + 1] = Math.min(255, v * 225);
+      img.data[i + 2] = Math.min(255, v * 190);
+      img.data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(img, 0, 0);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+  texture.anisotropy = 4;
+  return texture;
+}
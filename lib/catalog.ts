@@ -0,0 +1,105 @@
+/**
+ * Product Catalog
+ * ────────────────
+ * Fiyatlar, stok durumu ve para birimleri sunucudaki `data/catalog.json`
+ * dosyasından gelir (`GET /api/catalog`). Seçeneklerin görünümü (ad, renk,
+ * ses) `OPTIONS`'ta kalır; katalog aynı option id'leriyle eşleşir.
+ */
+
+import { CATEGORIES, type Category } from "@/store/useConfiguratorStore";
+
+export interface CatalogEntry {
+  /** Temel fiyata eklenen tutar (negatif olabilir) – temel para biriminde */
+  price: number;
+  available: boolean;
+}
+
+export interface Currency {
+  code: string;
+  symbol: string;
+  /** 1 temel para birimi = `rate` bu para birimi */
+  rate: number;
+}
+
+export interface Catalog {
+  version: number;
+  /** Varsayılan yapılandırmanın fiyatı */
+  base: number;
+  /** İlki temel para birimidir (rate = 1) */
+  currencies: Currency[];
+  surcharges: {
+    /** Modifier / aksan bölgeleri alfalardan farklı renkte */
+    multiZone: number;
+    /** Tek tek boyanan tuş başına */
+    paintedKey: number;
+    /** Kapalı dışındaki ışık efektleri RGB PCB gerektirir */
+    rgb: number;
+    /** Palet dışı seçilen (özel) renk – renklendirilen parça başına */
+    customColor: number;
+  };
+  options: Record<Category, Record<string, CatalogEntry>>;
+  /** Kasa sönümleme modları (CASE_MODS id'leri) */
+  addons: Record<string, CatalogEntry>;
+}
+
+export const CATALOG_URL = "/api/catalog";
+
+/* ——————————————————————————————————————————————
+   Doğrulama
+   —————————————————————————————————————————————— */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isEntry = (value: unknown): value is CatalogEntry =>
+  isRecord(value) &&
+  typeof value.price === "number" &&
+  typeof value.available === "boolean";
+
+const isEntryMap = (value: unknown) =>
+  isRecord(value) && Object.values(value).every(isEntry);
+
+const isCurrency = (value: unknown): value is Currency =>
+  isRecord(value) &&
+  typeof value.code === "string" &&
+  typeof value.symbol === "string" &&
+  typeof value.rate === "number" &&
+  value.rate > 0;
+
+export function isCatalog(value: unknown): value is Catalog {
+  if (!isRecord(value)) return false;
+  const { surcharges, options, currencies } = value;
+  return (
+    typeof value.version === "number" &&
+    typeof value.base === "number" &&
+    Array.isArray(currencies) &&
+    currencies.length > 0 &&
+    currencies.every(isCurrency) &&
+    isRecord(surcharges) &&
+    ["multiZone", "paintedKey", "rgb", "customColor"].every((k) => typeof surcharges[k] === "number") &&
+    isRecord(options) &&
+    CATEGORIES.every((c) => isEntryMap(options[c.id])) &&
+    isEntryMap(value.addons)
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Erişim
+   —————————————————————————————————————————————— */
+
+/** Katalogda olmayan seçenekler (ör. kullanıcı türevleri) mevcut sayılır */
+export function isAvailable(catalog: Catalog | null, category: Category, id: string) {
+  return catalog?.options[category][id]?.available ?? true;
+}
+
+export function isAddonAvailable(catalog: Catalog | null, id: string) {
+  return catalog?.addons[id]?.available ?? true;
+}
+
+export async function fetchCatalog(): Promise<Catalog> {
+  const res = await fetch(CATALOG_URL);
+  if (!res.ok) throw new Error(`Katalog alınamadı (${res.status})`);
+  const data: unknown = await res.json();
+  if (!isCatalog(data)) throw new Error("Katalog biçimi geçersiz");
+  return data;
+}
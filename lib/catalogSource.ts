@@ -0,0 +1,32 @@
+/**
+ * Catalog Source (yalnızca sunucu)
+ * ─────────────────────────────────
+ * `data/catalog.json` her istekte okunur – fiyat / stok güncellemesi için
+ * yeniden build gerekmez. Dosya bozuksa `CatalogSourceError` fırlatılır.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { isCatalog, type Catalog } from "@/lib/catalog";
+
+const CATALOG_PATH = path.join(process.cwd(), "data", "catalog.json");
+
+export class CatalogSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogSourceError";
+  }
+}
+
+export async function readCatalog(): Promise<Catalog> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(CATALOG_PATH, "utf8"));
+  } catch (err) {
+    throw new CatalogSourceError(
+      `Katalog okunamadı: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+  if (!isCatalog(data)) throw new CatalogSourceError("Katalog biçimi geçersiz");
+  return data;
+}
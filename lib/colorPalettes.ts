@@ -0,0 +1,173 @@
+/**
+ * Manufacturable Palettes
+ * ────────────────────────
+ * Özel renk serbestçe seçilir ama üretim paletle sınırlı: gövde eloksal
+ * tonlarında, keycap ve legend'ler PBT boya tonlarında üretilir. İstenen renk
+ * algısal olarak en yakın palet rengine (CIELAB ΔE) oturtulur; yapılandırmaya
+ * palet renginin id'si yazılır ve "özel renk" ek ücreti uygulanır.
+ */
+
+import type { Category } from "@/store/useConfiguratorStore";
+
+export interface PaletteColor {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export type PaletteId = "anodization" | "pbtDye";
+
+// Beyaz eloksal yok – bkz. "aluminum-anodizing" kuralı
+const ANODIZATION: PaletteColor[] = [
+  { id: "ano-black", name: "Anodized Black", color: "#1c1c1f" },
+  { id: "ano-gunmetal", name: "Gunmetal", color: "#4a4d52" },
+  { id: "ano-natural", name: "Natural Silver", color: "#b8bbbf" },
+  { id: "ano-champagne", name: "Champagne", color: "#d8c7a5" },
+  { id: "ano-gold", name: "Anodized Gold", color: "#c9a23f" },
+  { id: "ano-copper", name: "Copper", color: "#b0653f" },
+  { id: "ano-orange", name: "Anodized Orange", color: "#d0642a" },
+  { id: "ano-red", name: "Anodized Red", color: "#9b1c2a" },
+  { id: "ano-wine", name: "Wine", color: "#5e1a24" },
+  { id: "ano-pink", name: "Anodized Pink", color: "#d07a98" },
+  { id: "ano-purple", name: "Anodized Purple", color: "#5b3f8c" },
+  { id: "ano-lavender", name: "Anodized Lavender", color: "#9d8fc4" },
+  { id: "ano-cobalt", name: "Cobalt Blue", color: "#2f5aa8" },
+  { id: "ano-navy", name: "Anodized Navy", color: "#1d2f55" },
+  { id: "ano-teal", name: "Anodized Teal", color: "#1f7a7a" },
+  { id: "ano-green", name: "Anodized Green", color: "#2f6b3f" },
+  { id: "ano-olive", name: "Anodized Olive", color: "#6b6b3a" },
+];
+
+const PBT_DYE: PaletteColor[] = [
+  { id: "pbt-white", name: "Dye White", color: "#f2f2ef" },
+  { id: "pbt-ivory", name: "Dye Ivory", color: "#ece4d0" },
+  { id: "pbt-beige", name: "Dye Beige", color: "#d9c8a9" },
+  { id: "pbt-light-gray", name: "Dye Light Gray", color: "#b9bbbd" },
+  { id: "pbt-gray", name: "Dye Gray", color: "#7d8085" },
+  { id: "pbt-dark-gray", name: "Dye Dark Gray", color: "#43464b" },
+  { id: "pbt-black", name: "Dye Black", color: "#1e1f22" },
+  { id: "pbt-red", name: "Dye Red", color: "#c4352e" },
+  { id: "pbt-maroon", name: "Dye Maroon", color: "#6d2027" },
+  { id: "pbt-orange", name: "Dye Orange", color: "#e37b2f" },
+  { id: "pbt-yellow", name: "Dye Yellow", color: "#e8c547" },
+  { id: "pbt-mustard", name: "Dye Mustard", color: "#c59a2e" },
+  { id: "pbt-olive", name: "Dye Olive", color: "#6f7a3a" },
+  { id: "pbt-green", name: "Dye Green", color: "#3d8b5a" },
+  { id: "pbt-mint", name: "Dye Mint", color: "#9fd8bf" },
+  { id: "pbt-teal", name: "Dye Teal", color: "#2a8a8f" },
+  { id: "pbt-cyan", name: "Dye Cyan", color: "#58b8d6" },
+  { id: "pbt-blue", name: "Dye Blue", color: "#2f5fb3" },
+  { id: "pbt-navy", name: "Dye Navy", color: "#1f2d52" },
+  { id: "pbt-purple", name: "Dye Purple", color: "#6a4c9c" },
+  { id: "pbt-lavender", name: "Dye Lavender", color: "#b7a6d9" },
+  { id: "pbt-pink", name: "Dye Pink", color: "#e89ab0" },
+  { id: "pbt-magenta", name: "Dye Magenta", color: "#b83c7e" },
+  { id: "pbt-brown", name: "Dye Brown", color: "#6e4b32" },
+];
+
+export const PALETTES: Record<PaletteId, PaletteColor[]> = {
+  anodization: ANODIZATION,
+  pbtDye: PBT_DYE,
+};
+
+/** Özel renk seçilebilen kategoriler ve üretildikleri palet */
+export const CUSTOM_COLOR_PALETTES: Partial<Record<Category, PaletteId>> = {
+  body: "anodization",
+  keycaps: "pbtDye",
+  legends: "pbtDye",
+};
+
+/** Kategorinin paletindeki renk; palet rengi değilse undefined */
+export function paletteColor(category: Category, id: string): PaletteColor | undefined {
+  const palette = CUSTOM_COLOR_PALETTES[category];
+  return palette && PALETTES[palette].find((c) => c.id === id);
+}
+
+/** Fiyatlandırma için – id herhangi bir palete ait mi */
+export const isPaletteColor = (id: string) =>
+  Object.values(PALETTES).some((palette) => palette.some((c) => c.id === id));
+
+/* ——————————————————————————————————————————————
+   Renk dönüşümleri
+   —————————————————————————————————————————————— */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/** h: 0–360, s / v: 0–1 */
+export interface Hsv {
+  h: number;
+  s: number;
+  v: number;
+}
+
+/** "#abc", "abc", "#aabbcc" → "#aabbcc"; geçersizse null */
+export function parseHex(input: string): string | null {
+  const hex = input.trim().replace(/^#/, "").toLowerCase();
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${[...hex].map((c) => c + c).join("")}`;
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`;
+  return null;
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const n = parseInt(hex.slice(1), 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+export const rgbToHex = ({ r, g, b }: Rgb) =>
+  `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")}`;
+
+export function rgbToHsv({ r, g, b }: Rgb): Hsv {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const d = max - Math.min(rn, gn, bn);
+  let h = 0;
+  if (d > 0) {
+    if (max === rn) h = ((gn - bn) / d) % 6;
+    else if (max === gn) h = (bn - rn) / d + 2;
+    else h = (rn - gn) / d + 4;
+  }
+  return { h: (h * 60 + 360) % 360, s: max === 0 ? 0 : d / max, v: max };
+}
+
+export function hsvToRgb({ h, s, v }: Hsv): Rgb {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return Math.round((v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255);
+  };
+  return { r: f(5), g: f(3), b: f(1) };
+}
+
+/** sRGB → CIELAB (D65) */
+function rgbToLab({ r, g, b }: Rgb) {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return { l: 116 * f(y) - 16, a: 500 * (f(x) - f(y)), b: 200 * (f(y) - f(z)) };
+}
+
+/** CIE76 renk farkı – ~2.3 altı ayırt edilemez kabul edilir */
+export function deltaE(a: string, b: string) {
+  const la = rgbToLab(hexToRgb(a));
+  const lb = rgbToLab(hexToRgb(b));
+  return Math.hypot(la.l - lb.l, la.a - lb.a, la.b - lb.b);
+}
+
+/** İstenen rengin paletteki en yakın karşılığı */
+export function nearestPaletteColor(palette: PaletteId, hex: string) {
+  let best = { match: PALETTES[palette][0], deltaE: Infinity };
+  for (const color of PALETTES[palette]) {
+    const d = deltaE(hex, color.color);
+    if (d < best.deltaE) best = { match: color, deltaE: d };
+  }
+  return best;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkOption,
+  repairSelection,
+  violations,
+  type Selection,
+} from "@/lib/compatibility";
+import type { Category } from "@/store/useConfiguratorStore";
+
+const selection = (overrides: Partial<Selection> = {}): Selection => ({
+  body: "navy",
+  material: "aluminum",
+  keycaps: "cream",
+  switches: "red",
+  layout: "tkl",
+  legends: "white",
+  profile: "cherry",
+  lighting: "white",
+  ...overrides,
+});
+
+const CANDIDATES: Partial<Record<Category, string[]>> = {
+  body: ["arctic", "navy", "smoke"],
+  material: ["aluminum", "plastic", "wood"],
+  layout: ["tkl", "full", "65"],
+  profile: ["cherry", "xda", "dsa"],
+};
+const candidates = (category: Category) => CANDIDATES[category] ?? [];
+
+describe("violations", () => {
+  it("is empty for a compatible selection", () => {
+    expect(violations(selection())).toEqual([]);
+  });
+
+  it("lists every broken rule", () => {
+    const broken = violations(selection({ material: "wood", layout: "full", profile: "xda" }));
+    expect(broken.map((r) => r.id)).toEqual(["full-size-flat-profiles", "wood-case-size"]);
+  });
+});
+
+describe("checkOption", () => {
+  it("accepts options that break no rule", () => {
+    expect(checkOption(selection(), "layout", "65", candidates)).toEqual({ status: "ok" });
+  });
+
+  it("changes the excluded side first and keeps the chosen option", () => {
+    const check = checkOption(selection({ profile: "xda" }), "layout", "full", candidates);
+    expect(check).toMatchObject({
+      status: "resolvable",
+      rules: ["full-size-flat-profiles"],
+      changes: [{ category: "profile", from: "xda", to: "cherry", rule: "full-size-flat-profiles" }],
+    });
+  });
+
+  it("falls back to the condition side when the excluded side is locked", () => {
+    const check = checkOption(selection({ layout: "full" }), "profile", "dsa", candidates);
+    expect(check).toMatchObject({
+      status: "resolvable",
+      changes: [{ category: "layout", from: "full", to: "tkl" }],
+    });
+  });
+
+  it("blocks options without a compatible alternative", () => {
+    const check = checkOption(selection(), "body", "arctic", () => []);
+    expect(check).toMatchObject({ status: "blocked", rules: ["aluminum-anodizing"] });
+  });
+});
+
+describe("repairSelection", () => {
+  it("leaves compatible selections unchanged", () => {
+    expect(repairSelection(selection(), candidates)).toEqual({
+      selection: selection(),
+      changes: [],
+    });
+  });
+
+  it("fixes rules in order, one category per change", () => {
+    const repaired = repairSelection(
+      selection({ material: "wood", layout: "full", profile: "xda" }),
+      candidates
+    );
+    expect(repaired?.selection).toMatchObject({
+      material: "wood",
+      layout: "tkl",
+      profile: "cherry",
+    });
+    expect(repaired && violations(repaired.selection)).toEqual([]);
+    expect(repaired?.changes.map((c) => c.category)).toEqual(["profile", "layout"]);
+  });
+
+  it("returns null when no candidate resolves a rule", () => {
+    expect(repairSelection(selection({ body: "arctic" }), () => [])).toBeNull();
+  });
+});
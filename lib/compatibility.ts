@@ -0,0 +1,159 @@
+/**
+ * Compatibility Rules
+ * ────────────────────
+ * Seçenekler arası kısıtlar bildirimsel kurallarla tanımlanır: `when`
+ * koşulunun tüm kategorileri eşleşiyorsa `excludes` içindeki seçenekler
+ * kullanılamaz. Store her `selectOption`'da kurallara danışır; bir seçim
+ * önceki bir seçimi geçersiz kılıyorsa uyumlu alternatif önerilir. Dışarıdan
+ * yüklenen yapılandırmalar `repairSelection` ile uyumlu hale getirilir.
+ */
+
+import type { Category } from "@/store/useConfiguratorStore";
+import { PALETTES } from "@/lib/colorPalettes";
+
+export type Selection = Record<Category, string>;
+
+type OptionSet = Partial<Record<Category, string[]>>;
+
+export interface CompatibilityRule {
+  id: string;
+  when: OptionSet;
+  excludes: OptionSet;
+  /** Kullanıcıya gösterilen gerekçe */
+  reason: string;
+}
+
+export const COMPATIBILITY_RULES: CompatibilityRule[] = [
+  {
+    id: "full-size-flat-profiles",
+    when: { layout: ["full"] },
+    excludes: { profile: ["xda", "dsa"] },
+    reason: "XDA / DSA setlerinde numpad kiti yok",
+  },
+  {
+    id: "wood-case-size",
+    when: { material: ["wood"] },
+    excludes: { layout: ["full", "custom"] },
+    reason: "Ahşap kasa yalnızca standart kompakt boyutlarda üretiliyor",
+  },
+  {
+    id: "aluminum-anodizing",
+    when: { material: ["aluminum"] },
+    excludes: { body: ["arctic"] },
+    reason: "Alüminyum kasada beyaz eloksal yapılamıyor",
+  },
+  {
+    id: "polycarbonate-tints",
+    when: { material: ["polycarbonate"] },
+    excludes: { body: ["navy", "burgundy", "forest", "rose"] },
+    reason: "Polikarbonat kasa yalnızca şeffaf / füme tonlarda",
+  },
+  {
+    id: "custom-anodizing",
+    when: { material: ["plastic", "polycarbonate", "wood"] },
+    excludes: { body: PALETTES.anodization.map((c) => c.id) },
+    reason: "Özel eloksal renkleri yalnızca alüminyum kasada uygulanabiliyor",
+  },
+];
+
+/* ——————————————————————————————————————————————
+   Değerlendirme
+   —————————————————————————————————————————————— */
+
+const matches = (set: OptionSet, selection: Selection) =>
+  Object.entries(set).every(([c, ids]) => ids.includes(selection[c as Category]));
+
+const touches = (set: OptionSet, selection: Selection) =>
+  Object.entries(set).some(([c, ids]) => ids.includes(selection[c as Category]));
+
+export const violates = (rule: CompatibilityRule, selection: Selection) =>
+  matches(rule.when, selection) && touches(rule.excludes, selection);
+
+/** Seçimin ihlal ettiği kurallar */
+export function violations(selection: Selection): CompatibilityRule[] {
+  return COMPATIBILITY_RULES.filter((r) => violates(r, selection));
+}
+
+/** Önce dışlanan taraf değiştirilir, sonra koşul tarafı */
+const ruleCategories = (rule: CompatibilityRule) =>
+  [...Object.keys(rule.excludes), ...Object.keys(rule.when)] as Category[];
+
+export interface ResolutionChange {
+  category: Category;
+  from: string;
+  to: string;
+  /** Kural id'si – arayüz gerekçeyi yerel dilde gösterir */
+  rule: string;
+  reason: string;
+}
+
+export type OptionCheck =
+  | { status: "ok" }
+  /** Seçilebilir ama başka seçimler `changes` ile değişmeli */
+  | { status: "resolvable"; rules: string[]; reasons: string[]; changes: ResolutionChange[] }
+  /** Uyumlu alternatif bulunamadı */
+  | { status: "blocked"; rules: string[]; reasons: string[] };
+
+/**
+ * İhlalleri gideren değişiklikler; `locked` kategorilere dokunulmaz.
+ * Uyumlu alternatif bulunamazsa null.
+ */
+function resolveViolations(
+  selection: Selection,
+  locked: Category[],
+  candidates: (category: Category) => string[]
+): { selection: Selection; changes: ResolutionChange[] } | null {
+  let next = selection;
+  const changes: ResolutionChange[] = [];
+  // Her tur ihlal sayısını azaltır; değiştirilen kategori tekrar değiştirilmez
+  for (let rule = violations(next)[0]; rule; rule = violations(next)[0]) {
+    const alternative = ruleCategories(rule)
+      .filter((c) => !locked.includes(c) && !changes.some((ch) => ch.category === c))
+      .map((c) => {
+        // Alternatif bu kuralı çözmeli ve yeni ihlal getirmemeli
+        const remaining = violations(next).length;
+        const to = candidates(c).find(
+          (id) =>
+            id !== next[c] && violations({ ...next, [c]: id }).length < remaining
+        );
+        return to && { category: c, from: next[c], to, rule: rule.id, reason: rule.reason };
+      })
+      .find((change) => change !== undefined);
+
+    if (!alternative) return null;
+    changes.push(alternative);
+    next = { ...next, [alternative.category]: alternative.to };
+  }
+  return { selection: next, changes };
+}
+
+/**
+ * `optionId`'nin seçilmesinin sonucu. `candidates`: kategorinin seçilebilir
+ * (stokta olan) option id'leri, tercih sırasıyla.
+ */
+export function checkOption(
+  selection: Selection,
+  category: Category,
+  optionId: string,
+  candidates: (category: Category) => string[]
+): OptionCheck {
+  const next: Selection = { ...selection, [category]: optionId };
+  const broken = violations(next);
+  if (broken.length === 0) return { status: "ok" };
+
+  const rules = broken.map((r) => r.id);
+  const reasons = broken.map((r) => r.reason);
+  const resolved = resolveViolations(next, [category], candidates);
+  return resolved
+    ? { status: "resolvable", rules, reasons, changes: resolved.changes }
+    : { status: "blocked", rules, reasons };
+}
+
+/**
+ * Dışarıdan gelen seçimi (URL, kayıtlı build, karşılaştırma) kurallara
+ * uydurur; uyumlu alternatif bulunamazsa null.
+ */
+export const repairSelection = (
+  selection: Selection,
+  candidates: (category: Category) => string[]
+) => resolveViolations(selection, [], candidates);
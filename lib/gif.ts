@@ -0,0 +1,273 @@
+/**
+ * GIF Encoder
+ * ────────────
+ * Turntable dışa aktarımı için küçük bir GIF89a kodlayıcı: örnek karelerden
+ * median-cut ile ortak palet, kare başına LZW sıkıştırma ve sonsuz döngü.
+ * Saydamlık 1 bit'tir – alfa < 128 olan pikseller saydam indekse düşer.
+ */
+
+export interface GifPalette {
+  /** RGB üçlüleri */
+  colors: Uint8Array;
+  /** Saydam indeksi; saydamlık yoksa -1 */
+  transparent: number;
+}
+
+const MAX_COLORS = 256;
+const ALPHA_CUTOFF = 128;
+
+/* ——————————————————————————————————————————————
+   Palet (15 bit histogram üzerinde median cut)
+   —————————————————————————————————————————————— */
+
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const channel = (bin: number, c: number) => (bin >> (10 - c * 5)) & 31;
+
+/** `samples`: RGBA piksel dizileri (birkaç örnek kare yeterli) */
+export function buildPalette(samples: Uint8ClampedArray[], transparent: boolean): GifPalette {
+  const histogram = new Uint32Array(1 << 15);
+  for (const pixels of samples) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (transparent && pixels[i + 3] < ALPHA_CUTOFF) continue;
+      histogram[binOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+    }
+  }
+
+  const bins: number[] = [];
+  histogram.forEach((count, bin) => count > 0 && bins.push(bin));
+  const maxColors = transparent ? MAX_COLORS - 1 : MAX_COLORS;
+
+  // En geniş kanal aralığına sahip kutu, ağırlıklı medyandan ikiye bölünür
+  const boxes = [bins];
+  while (boxes.length < maxColors) {
+    let widest = -1;
+    let widestRange = 0;
+    let widestChannel = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 31;
+        let max = 0;
+        for (const bin of box) {
+          const v = channel(bin, c);
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        if (max - min > widestRange) {
+          widestRange = max - min;
+          widest = i;
+          widestChannel = c;
+        }
+      }
+    });
+    if (widest < 0) break;
+
+    const box = boxes[widest].sort(
+      (a, b) => channel(a, widestChannel) - channel(b, widestChannel)
+    );
+    const total = box.reduce((sum, bin) => sum + histogram[bin], 0);
+    let acc = 0;
+    let split = 1;
+    for (; split < box.length - 1; split++) {
+      acc += histogram[box[split - 1]];
+      if (acc >= total / 2) break;
+    }
+    boxes.splice(widest, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const colors = new Uint8Array(MAX_COLORS * 3);
+  boxes.forEach((box, i) => {
+    let weight = 0;
+    const sum = [0, 0, 0];
+    for (const bin of box) {
+      const n = histogram[bin];
+      weight += n;
+      for (let c = 0; c < 3; c++) sum[c] += ((channel(bin, c) << 3) | 4) * n;
+    }
+    for (let c = 0; c < 3; c++) colors[i * 3 + c] = weight ? Math.round(sum[c] / weight) : 0;
+  });
+
+  // Saydam indeksi son gerçek rengin hemen ardından gelir
+  return { colors, transparent: transparent ? boxes.length : -1 };
+}
+
+/* ——————————————————————————————————————————————
+   Kodlayıcı
+   —————————————————————————————————————————————— */
+
+export class GifEncoder {
+  private chunks: Uint8Array[] = [];
+  /** 15 bit renk → palet indeksi (-1: hesaplanmadı) */
+  private lookup = new Int16Array(1 << 15).fill(-1);
+  private paletteSize: number;
+
+  constructor(
+    private width: number,
+    private height: number,
+    private palette: GifPalette
+  ) {
+    this.paletteSize = palette.transparent >= 0 ? palette.transparent : MAX_COLORS;
+
+    const header = new ByteWriter();
+    header.ascii("GIF89a");
+    header.u16(width);
+    header.u16(height);
+    header.byte(0xf7); // global renk tablosu, 256 renk
+    header.byte(0);
+    header.byte(0);
+    header.bytes(palette.colors);
+    // NETSCAPE2.0 – sonsuz döngü
+    header.bytes([0x21, 0xff, 0x0b]);
+    header.ascii("NETSCAPE2.0");
+    header.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+    this.chunks.push(header.result());
+  }
+
+  /** RGBA kare; `delay` milisaniye (GIF çözünürlüğü 10 ms) */
+  addFrame(pixels: Uint8ClampedArray, delay: number) {
+    const { transparent } = this.palette;
+    const indices = new Uint8Array(this.width * this.height);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      indices[p] =
+        transparent >= 0 && pixels[i + 3] < ALPHA_CUTOFF
+          ? transparent
+          : this.nearest(binOf(pixels[i], pixels[i + 1], pixels[i + 2]));
+    }
+
+    const out = new ByteWriter();
+    // Graphic Control Extension – saydamsa kare önceki karenin üstüne birikmez
+    out.bytes([0x21, 0xf9, 0x04, transparent >= 0 ? 0x09 : 0x04]);
+    out.u16(Math.round(delay / 10));
+    out.byte(Math.max(transparent, 0));
+    out.byte(0);
+    // Image Descriptor
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(this.width);
+    out.u16(this.height);
+    out.byte(0);
+    out.byte(8); // LZW minimum kod boyu
+    lzwEncode(indices, out);
+    out.byte(0);
+    this.chunks.push(out.result());
+  }
+
+  finish(): Blob {
+    return new Blob([...this.chunks, new Uint8Array([0x3b])] as BlobPart[], {
+      type: "image/gif",
+    });
+  }
+
+  private nearest(bin: number) {
+    const cached = this.lookup[bin];
+    if (cached >= 0) return cached;
+    const r = (channel(bin, 0) << 3) | 4;
+    const g = (channel(bin, 1) << 3) | 4;
+    const b = (channel(bin, 2) << 3) | 4;
+    const { colors } = this.palette;
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < this.paletteSize; i++) {
+      const dr = colors[i * 3] - r;
+      const dg = colors[i * 3 + 1] - g;
+      const db = colors[i * 3 + 2] - b;
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    this.lookup[bin] = best;
+    return best;
+  }
+}
+
+/* ——————————————————————————————————————————————
+   LZW (değişken kod boyu, 255 baytlık alt bloklar)
+   —————————————————————————————————————————————— */
+
+const MAX_CODE = 4095;
+
+function lzwEncode(indices: Uint8Array, out: ByteWriter) {
+  const clear = 256;
+  const end = 257;
+  let codeSize = 9;
+  let next = 258;
+  const dict = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next <= MAX_CODE) {
+      dict.set(key, next++);
+      // Yeni kod mevcut boya sığmıyorsa sonraki kodlar bir bit büyür
+      if (next > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clear);
+      dict.clear();
+      codeSize = 9;
+      next = 258;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(end);
+
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+}
+
+class ByteWriter {
+  private data: number[] = [];
+
+  byte(value: number) {
+    this.data.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.data.push(values[i]);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.data.push(text.charCodeAt(i));
+  }
+
+  result() {
+    return Uint8Array.from(this.data);
+  }
+}
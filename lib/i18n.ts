@@ -0,0 +1,72 @@
+/**
+ * Internationalization
+ * ─────────────────────
+ * Arayüz metinleri `lib/messages.ts`'teki sözlüklerden gelir; `OPTIONS` ve
+ * `CATEGORIES` içindeki adlar kaynak veridir ve sözlükte karşılığı olmayan
+ * seçenekler (özel switch, KLE layout) için olduğu gibi gösterilir.
+ * Sunucuda (metadata) ve istemcide aynı yardımcılar kullanılır.
+ */
+
+import { en, tr, type Messages } from "@/lib/messages";
+import type { Category, ConfigOption } from "@/store/useConfiguratorStore";
+import type { SwitchSpec } from "@/lib/switchSpecs";
+
+export type Locale = "tr" | "en";
+
+export interface LocaleInfo {
+  id: Locale;
+  name: string;
+  /** BCP 47 etiketi – sayı / tarih biçimlendirme */
+  tag: string;
+  /** Kullanıcı seçmediyse fiyatlar bu para biriminde gösterilir */
+  currency: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: "tr", name: "Türkçe", tag: "tr-TR", currency: "TRY" },
+  { id: "en", name: "English", tag: "en-US", currency: "USD" },
+];
+
+export const DEFAULT_LOCALE: Locale = "tr";
+
+export const MESSAGES: Record<Locale, Messages> = { tr, en };
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((l) => l.id === value);
+
+export const localeInfo = (locale: Locale) =>
+  LOCALES.find((l) => l.id === locale) ?? LOCALES[0];
+
+/** Tercih sırasındaki dil etiketlerinden ilk desteklenen ("en-GB" → en) */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.trim().toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** `Accept-Language` başlığı – q değerleri sıralı kabul edilir */
+export const parseAcceptLanguage = (header: string | null) =>
+  (header ?? "").split(",").map((part) => part.split(";")[0]);
+
+/** "Lineer · 45g · Sessiz" */
+export const switchSummary = (messages: Messages, spec: SwitchSpec) =>
+  [
+    messages.switchSpecs.types[spec.type],
+    `${spec.actuationForce}g`,
+    messages.switchSpecs.soundLevels[spec.soundLevel],
+  ].join(" · ");
+
+/**
+ * Seçeneğin yerel adı ve açıklaması; sözlükte yoksa kaynak metin.
+ * Açıklaması olmayan switch'ler teknik değerlerinden özetlenir.
+ */
+export function optionText(messages: Messages, category: Category, option: ConfigOption) {
+  const text = messages.options[category][option.id];
+  const description = text ? text.description : option.description;
+  return {
+    name: text?.name ?? option.name,
+    description: description ?? (option.spec && switchSummary(messages, option.spec)),
+  };
+}
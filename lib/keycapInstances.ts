@@ -0,0 +1,94 @@
+/**
+ * Instanced Keycaps
+ * ──────────────────
+ * Aynı geometriyi paylaşan tuşlar tek bir InstancedMesh'te toplanır: 104
+ * tuşluk bir klavye birkaç draw call'a iner. Tuş index'i ↔ (mesh, instance)
+ * eşlemesi hem animasyon hem de raycast ile seçim için tutulur.
+ */
+
+import * as THREE from "three";
+
+export interface InstanceSlot {
+  mesh: THREE.InstancedMesh;
+  index: number;
+}
+
+export interface InstanceGroup {
+  meshes: THREE.InstancedMesh[];
+  /** Tuş index'i → instance (geometrisi olmayan tuşlar için null) */
+  slots: (InstanceSlot | null)[];
+  /** Mesh → instance index'i → tuş index'i */
+  keys: Map<THREE.Object3D, number[]>;
+}
+
+/**
+ * Tuşları geometri kimliğine göre gruplar ve her grup için bir InstancedMesh
+ * üretir. `matrixAt` her tuşun başlangıç dönüşümünü yazar.
+ */
+export function createInstanceGroup(
+  geometries: (THREE.BufferGeometry | null)[],
+  material: THREE.Material,
+  matrixAt: (key: number, target: THREE.Matrix4) => THREE.Matrix4
+): InstanceGroup {
+  const buckets = new Map<THREE.BufferGeometry, number[]>();
+  geometries.forEach((geo, i) => {
+    if (!geo) return;
+    const bucket = buckets.get(geo);
+    if (bucket) bucket.push(i);
+    else buckets.set(geo, [i]);
+  });
+
+  const slots: (InstanceSlot | null)[] = geometries.map(() => null);
+  const keys = new Map<THREE.Object3D, number[]>();
+  const meshes: THREE.InstancedMesh[] = [];
+  const matrix = new THREE.Matrix4();
+
+  for (const [geo, indices] of buckets) {
+    const mesh = new THREE.InstancedMesh(geo, material, indices.length);
+    indices.forEach((key, index) => {
+      mesh.setMatrixAt(index, matrixAt(key, matrix));
+      slots[key] = { mesh, index };
+    });
+    mesh.computeBoundingSphere();
+    keys.set(mesh, indices);
+    meshes.push(mesh);
+  }
+
+  return { meshes, slots, keys };
+}
+
+/** Raycast sonucundaki (object, instanceId) → tuş index'i */
+export function instanceKey(
+  group: InstanceGroup,
+  object: THREE.Object3D,
+  instanceId: number | undefined
+): number | undefined {
+  if (instanceId === undefined) return undefined;
+  return group.keys.get(object)?.[instanceId];
+}
+
+/** Tuşun dönüşümünü yazar; değişen mesh `dirty` kümesine eklenir */
+export function setInstanceMatrix(
+  group: InstanceGroup,
+  key: number,
+  matrix: THREE.Matrix4,
+  dirty: Set<THREE.InstancedMesh>
+) {
+  const slot = group.slots[key];
+  if (!slot) return;
+  slot.mesh.setMatrixAt(slot.index, matrix);
+  dirty.add(slot.mesh);
+}
+
+export function setInstanceColor(
+  group: InstanceGroup,
+  key: number,
+  color: THREE.Color
+) {
+  const slot = group.slots[key];
+  if (slot) slot.mesh.setColorAt(slot.index, color);
+}
+
+export function disposeInstanceGroup(group: InstanceGroup) {
+  group.meshes.forEach((m) => m.dispose());
+}
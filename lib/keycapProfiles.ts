@@ -0,0 +1,179 @@
+/**
+ * Sculpted Keycap Profiles
+ * ─────────────────────────
+ * Cherry, OEM, SA, XDA ve DSA için satır bazlı keycap geometrisi: yükseklik,
+ * üst yüz eğimi, kenar daralması (taper) ve silindirik / küresel çanak (dish).
+ * Ölçüler mm cinsindendir; sahne birimine `MM` ile çevrilir (1u = 19.05 mm).
+ */
+
+import * as THREE from "three";
+
+/** 1 mm → sahne birimi (UNIT = 0.36 = 19.05 mm) */
+const MM = 0.36 / 19.05;
+
+export type DishShape = "cylindrical" | "spherical";
+
+export interface KeycapProfile {
+  id: string;
+  /** Satır başına yükseklik (mm) – index = profil satırı (0–4) */
+  heights: number[];
+  /** Satır başına üst yüz eğimi (derece, + = ön kenar aşağıda) */
+  tilts: number[];
+  dish: DishShape;
+  /** Çanak derinliği (mm) */
+  dishDepth: number;
+  /** Üst yüzün her kenardan içeri çekilmesi (mm) */
+  taper: number;
+}
+
+export const KEYCAP_PROFILES: Record<string, KeycapProfile> = {
+  cherry: {
+    id: "cherry",
+    heights: [9.4, 7.9, 7.4, 8.6, 8.6],
+    tilts: [9, 5, 0, -5, -5],
+    dish: "cylindrical",
+    dishDepth: 0.5,
+    taper: 2.6,
+  },
+  oem: {
+    id: "oem",
+    heights: [11.9, 9.5, 9.0, 9.3, 9.3],
+    tilts: [10, 6, 2, -4, -4],
+    dish: "cylindrical",
+    dishDepth: 0.6,
+    taper: 2.8,
+  },
+  sa: {
+    id: "sa",
+    heights: [14.9, 12.9, 12.9, 13.0, 13.0],
+    tilts: [13, 7, 0, -7, -7],
+    dish: "spherical",
+    dishDepth: 1.1,
+    taper: 3.2,
+  },
+  xda: {
+    id: "xda",
+    heights: [9.1, 9.1, 9.1, 9.1, 9.1],
+    tilts: [0, 0, 0, 0, 0],
+    dish: "spherical",
+    dishDepth: 0.7,
+    taper: 1.6,
+  },
+  dsa: {
+    id: "dsa",
+    heights: [7.6, 7.6, 7.6, 7.6, 7.6],
+    tilts: [0, 0, 0, 0, 0],
+    dish: "spherical",
+    dishDepth: 0.8,
+    taper: 2.8,
+  },
+};
+
+export const DEFAULT_PROFILE_ID = "cherry";
+
+export function getProfile(id: string): KeycapProfile {
+  return KEYCAP_PROFILES[id] ?? KEYCAP_PROFILES[DEFAULT_PROFILE_ID];
+}
+
+/* ——————————————————————————————————————————————
+   Üst yüzey
+   —————————————————————————————————————————————— */
+
+export interface KeycapShape {
+  /** Tuşun taban ölçüleri (sahne birimi) */
+  w: number;
+  d: number;
+  /** Merkezdeki yükseklik (çanak hariç) */
+  height: number;
+  /** Taper (sahne birimi) */
+  inset: number;
+  /** Üst yüz ölçüleri */
+  topW: number;
+  topD: number;
+  /** Üst yüzeyin (x, z) noktasındaki yüksekliği – x/z üst yüz koordinatları */
+  surfaceY: (x: number, z: number) => number;
+}
+
+export function keycapShape(
+  profile: KeycapProfile,
+  row: number,
+  w: number,
+  d: number
+): KeycapShape {
+  const r = Math.min(Math.max(row, 0), 4);
+  const height = profile.heights[r] * MM;
+  const slope = Math.tan((profile.tilts[r] * Math.PI) / 180);
+  const inset = Math.min(profile.taper * MM, w / 4, d / 4);
+  const topW = w - inset * 2;
+  const topD = d - inset * 2;
+  const depth = profile.dishDepth * MM;
+
+  const surfaceY = (x: number, z: number) => {
+    const nx = THREE.MathUtils.clamp((x / topW) * 2, -1, 1);
+    const nz = THREE.MathUtils.clamp((z / topD) * 2, -1, 1);
+    const dish =
+      profile.dish === "cylindrical"
+        ? 1 - nx * nx
+        : Math.max(0, 1 - nx * nx - nz * nz);
+    return height - z * slope - depth * dish;
+  };
+
+  return { w, d, height, inset, topW, topD, surfaceY };
+}
+
+/* ——————————————————————————————————————————————
+   Geometri
+   —————————————————————————————————————————————— */
+
+/**
+ * Taban y = 0'da olan heykelsi keycap. Bölünmüş bir kutunun üst köşeleri
+ * içeri çekilir, eğilir ve çanak fonksiyonuna göre çukurlaştırılır.
+ */
+export function createSculptedGeometry(shape: KeycapShape): THREE.BufferGeometry {
+  const { w, d, height, topW, topD, surfaceY } = shape;
+  const segX = Math.max(4, Math.round((w / d) * 6));
+  const geo = new THREE.BoxGeometry(w, height, d, segX, 1, 6);
+  geo.translate(0, height / 2, 0);
+
+  const pos = geo.attributes.position as THREE.BufferAttribute;
+  const sx = topW / w;
+  const sz = topD / d;
+  for (let i = 0; i < pos.count; i++) {
+    if (pos.getY(i) < height / 2) continue;
+    const x = pos.getX(i) * sx;
+    const z = pos.getZ(i) * sz;
+    pos.setXYZ(i, x, surfaceY(x, z), z);
+  }
+  pos.needsUpdate = true;
+  geo.computeVertexNormals();
+  return geo;
+}
+
+/** Bir düzlemi (XZ) keycap üst yüzeyine oturtur – legend'lar için */
+export function conformToSurface(
+  geo: THREE.BufferGeometry,
+  shape: KeycapShape,
+  lift = 0.0015
+): THREE.BufferGeometry {
+  const pos = geo.attributes.position as THREE.BufferAttribute;
+  for (let i = 0; i < pos.count; i++) {
+    pos.setY(i, shape.surfaceY(pos.getX(i), pos.getZ(i)) + lift);
+  }
+  pos.needsUpdate = true;
+  geo.computeVertexNormals();
+  return geo;
+}
+
+/** Ön yüzün ortası, eğimi ve ölçüleri – ön yüze basılan legend'lar için */
+export function frontFace(shape: KeycapShape) {
+  const topY = shape.surfaceY(0, shape.topD / 2);
+  const run = (shape.d - shape.topD) / 2;
+  return {
+    w: (shape.w + shape.topW) / 2,
+    length: Math.hypot(topY, run),
+    /** X ekseni etrafında geriye yatma açısı (rad) */
+    angle: Math.atan2(run, topY),
+    y: topY / 2,
+    z: (shape.d + shape.topD) / 4,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { KleParseError, parseKle } from "@/lib/kle";
+import { legendFor } from "@/lib/legends";
+
+describe("parseKle", () => {
+  it("reads rows after the metadata object", () => {
+    const layout = parseKle('[{"name":"test"},["Esc","1"],["Tab","Q"]]');
+    expect(layout.keys.map((k) => k.code)).toEqual(["Escape", "Digit1", "Tab", "KeyQ"]);
+    expect(layout.keys[2].y).toBe(1);
+  });
+
+  it("treats a single-row paste as one row, not metadata", () => {
+    const layout = parseKle('[{"w":1.5},"Esc","1"]');
+    expect(layout.keys.map((k) => k.code)).toEqual(["Escape", "Digit1"]);
+    expect(layout.keys[0].w).toBe(1.5);
+    expect(layout.keys[1].x).toBe(1.5);
+    expect(layout.depth).toBe(1);
+  });
+
+  it("accepts a single row of raw data without brackets", () => {
+    const layout = parseKle('{w:2},"Backspace","Del"');
+    expect(layout.keys.map((k) => k.code)).toEqual(["Backspace", "Delete"]);
+  });
+
+  it("reports the code, row, key and property of invalid properties", () => {
+    expect(() => parseKle('[["A",{"w":"wide"},"B"]]')).toThrow(KleParseError);
+    try {
+      parseKle('[["A"],[{"w":0},"B"]]');
+    } catch (err) {
+      expect(err).toMatchObject({ code: "notPositive", row: 2, key: 1, property: "w" });
+    }
+    expect.assertions(2);
+  });
+
+  it("reports empty input and layouts without keys by code", () => {
+    expect(() => parseKle("  ")).toThrow(expect.objectContaining({ code: "empty" }));
+    expect(() => parseKle("[[{}]]")).toThrow(expect.objectContaining({ code: "noKeys" }));
+  });
+});
+
+describe("legendFor", () => {
+  const key = (labels: string[]) => ({ code: "", x: 0, y: 0, w: 1, h: 1, row: 0, labels });
+
+  it("uses the first slot as primary for single labels", () => {
+    expect(legendFor(key(["Esc"]), false)).toEqual({ primary: "Esc", front: undefined });
+  });
+
+  it("reads shifted, primary and front from the raw KLE slots", () => {
+    expect(legendFor(key(["!", "1", "", "", "F1"]), false)).toEqual({
+      shifted: "!",
+      primary: "1",
+      front: "F1",
+    });
+  });
+
+  it("keeps slots aligned when earlier labels are empty", () => {
+    expect(legendFor(key(["", "1", "", "", "F1"]), false)).toEqual({
+      shifted: undefined,
+      primary: "1",
+      front: "F1",
+    });
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * keyboard-layout-editor.com (KLE) Importer
+ * ──────────────────────────────────────────
+ * KLE "Raw data" veya indirilen JSON'u `KeyboardLayout`'a çevirir.
+ * Desteklenenler: w/h, x/y kaydırma, x2/y2/w2/h2 (ISO Enter, stepped),
+ * r/rx/ry dönüşleri ve profil satırı ("p": "DCS R1").
+ * Hatalar kod ve satır / tuş konumuyla `KleParseError` olarak fırlatılır;
+ * metinleri `kleImport.errors` sözlüğünde.
+ */
+
+import { CUSTOM_LAYOUT_ID, type KeyboardLayout, type LayoutKey } from "@/lib/layouts";
+
+export type KleErrorCode =
+  | "empty"
+  | "invalidJson"
+  | "rootNotArray"
+  | "rowNotArray"
+  | "invalidItem"
+  | "notNumber"
+  | "notPositive"
+  | "noKeys";
+
+export class KleParseError extends Error {
+  constructor(
+    readonly code: KleErrorCode,
+    /** 1 tabanlı satır numarası (varsa) */
+    readonly row?: number,
+    /** 1 tabanlı tuş numarası (varsa) */
+    readonly key?: number,
+    /** Hatalı özellik adı (notNumber / notPositive) */
+    readonly property?: string
+  ) {
+    const where =
+      row === undefined ? "" : key === undefined ? ` (row ${row})` : ` (row ${row}, key ${key})`;
+    super(`KLE ${code}${property ? ` "${property}"` : ""}${where}`);
+    this.name = "KleParseError";
+  }
+}
+
+/* ——————————————————————————————————————————————
+   Relaxed JSON (KLE "Raw data" tırnaksız anahtar kullanır)
+   —————————————————————————————————————————————— */
+
+/** String literal'lere dokunmadan tırnaksız nesne anahtarlarını tırnaklar */
+function quoteBareKeys(src: string): string {
+  const bareKey = /[A-Za-z_]\w*(?=\s*:)/y;
+  let out = "";
+  let lastSignificant = "";
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '"') {
+      const start = i++;
+      while (i < src.length && src[i] !== '"') i += src[i] === "\\" ? 2 : 1;
+      out += src.slice(start, ++i);
+      lastSignificant = '"';
+      continue;
+    }
+    bareKey.lastIndex = i;
+    const bare = bareKey.exec(src);
+    if (bare && (lastSignificant === "{" || lastSignificant === ",")) {
+      out += `"${bare[0]}"`;
+      i += bare[0].length;
+      lastSignificant = '"';
+      continue;
+    }
+    out += ch;
+    if (!/\s/.test(ch)) lastSignificant = ch;
+    i++;
+  }
+  return out;
+}
+
+function parseRelaxedJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed) throw new KleParseError("empty");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Raw data: dış köşeli parantez yok, anahtarlar tırnaksız
+    const wrapped = trimmed.startsWith("[[") ? trimmed : `[${trimmed}]`;
+    try {
+      return JSON.parse(quoteBareKeys(wrapped));
+    } catch {
+      throw new KleParseError("invalidJson");
+    }
+  }
+}
+
+/* ——————————————————————————————————————————————
+   Legend → KeyboardEvent.code
+   —————————————————————————————————————————————— */
+
+const LABEL_CODES: Record<string, string> = {
+  esc: "Escape", escape: "Escape", "`": "Backquote", "~": "Backquote",
+  "-": "Minus", _: "Minus", "=": "Equal", "+": "Equal",
+  backspace: "Backspace", bksp: "Backspace", "←bksp": "Backspace", "⌫": "Backspace",
+  tab: "Tab", "⇥": "Tab", "[": "BracketLeft", "{": "BracketLeft",
+  "]": "BracketRight", "}": "BracketRight", "\\": "Backslash", "|": "Backslash",
+  caps: "CapsLock", "caps lock": "CapsLock", capslock: "CapsLock", "⇪": "CapsLock",
+  ";": "Semicolon", ":": "Semicolon", "'": "Quote", '"': "Quote",
+  enter: "Enter", return: "Enter", "↵": "Enter", "⏎": "Enter",
+  shift: "ShiftLeft", "⇧": "ShiftLeft",
+  ",": "Comma", "<": "Comma", ".": "Period", ">": "Period",
+  "/": "Slash", "?": "Slash",
+  ctrl: "ControlLeft", control: "ControlLeft", "⌃": "ControlLeft",
+  win: "MetaLeft", super: "MetaLeft", cmd: "MetaLeft", "⌘": "MetaLeft", gui: "MetaLeft",
+  alt: "AltLeft", option: "AltLeft", "⌥": "AltLeft", altgr: "AltRight",
+  menu: "ContextMenu", fn: "ContextMenu",
+  space: "Space", spacebar: "Space",
+  "↑": "ArrowUp", "↓": "ArrowDown", "←": "ArrowLeft", "→": "ArrowRight",
+  up: "ArrowUp", down: "ArrowDown", left: "ArrowLeft", right: "ArrowRight",
+  ins: "Insert", insert: "Insert", del: "Delete", delete: "Delete",
+  home: "Home", end: "End", pgup: "PageUp", "page up": "PageUp",
+  pgdn: "PageDown", "page down": "PageDown",
+  prtsc: "PrintScreen", "print screen": "PrintScreen", "scroll lock": "ScrollLock",
+  pause: "Pause", "num lock": "NumLock", num: "NumLock", numlock: "NumLock",
+  "*": "NumpadMultiply",
+};
+
+/** Aynı kod ikinci kez görüldüğünde kullanılacak karşılık (sağ Shift, numpad…) */
+const SECOND_CODES: Record<string, string> = {
+  ShiftLeft: "ShiftRight", ControlLeft: "ControlRight", AltLeft: "AltRight",
+  MetaLeft: "MetaRight", Enter: "NumpadEnter", Slash: "NumpadDivide",
+  Minus: "NumpadSubtract", Equal: "NumpadAdd", Period: "NumpadDecimal",
+  Delete: "NumpadDecimal", Insert: "Numpad0", End: "Numpad1",
+  ArrowDown: "Numpad2", PageDown: "Numpad3", ArrowLeft: "Numpad4",
+  ArrowRight: "Numpad6", Home: "Numpad7", ArrowUp: "Numpad8", PageUp: "Numpad9",
+  ...Object.fromEntries(
+    Array.from({ length: 10 }, (_, d) => [`Digit${d}`, `Numpad${d}`])
+  ),
+};
+
+function labelToCode(label: string): string | undefined {
+  const l = label.trim().toLowerCase();
+  if (l in LABEL_CODES) return LABEL_CODES[l];
+  if (/^[a-z]$/.test(l)) return `Key${l.toUpperCase()}`;
+  if (/^[0-9]$/.test(l)) return `Digit${l}`;
+  if (/^f([1-9]|1[0-9]|2[0-4])$/.test(l)) return l.toUpperCase();
+  return undefined;
+}
+
+/** Legend satırları arasından eşleşen ilk kodu bulur (alt satır önceliklidir) */
+function guessCode(labels: string[], w: number): string | undefined {
+  const lines = labels.filter((l) => l.trim() !== "");
+  if (lines.length === 0) return w >= 4 ? "Space" : undefined;
+  for (const line of [...lines].reverse()) {
+    const code = labelToCode(line);
+    if (code) return code;
+  }
+  return undefined;
+}
+
+/* ——————————————————————————————————————————————
+   Parser
+   —————————————————————————————————————————————— */
+
+const NUMERIC_PROPS = ["x", "y", "w", "h", "x2", "y2", "w2", "h2", "r", "rx", "ry"] as const;
+type NumericProp = (typeof NUMERIC_PROPS)[number];
+
+/** Raw veya JSON KLE verisini ayrıştırır */
+export function parseKle(input: string | unknown): KeyboardLayout {
+  const data = typeof input === "string" ? parseRelaxedJson(input) : input;
+  if (!Array.isArray(data)) {
+    throw new KleParseError("rootNotArray");
+  }
+
+  // Hiç dizi yoksa tek satırlık yapıştırmadır (`[{...}, "Esc", "1"]`);
+  // aksi halde ilk öğe nesne ise klavye metadata'sıdır
+  const rows = !data.some(Array.isArray)
+    ? [data]
+    : data.length > 0 && !Array.isArray(data[0])
+      ? data.slice(1)
+      : data;
+
+  const keys: LayoutKey[] = [];
+  const profileRows: (number | undefined)[] = [];
+  const rowOfKey: number[] = [];
+
+  let rotation = { angle: 0, x: 0, y: 0 };
+  let cursor = { x: 0, y: 0 };
+  let next = { w: 1, h: 1, x2: 0, y2: 0, w2: 0, h2: 0 };
+  let profile: number | undefined;
+
+  rows.forEach((row, ri) => {
+    const rowNo = ri + 1;
+    if (!Array.isArray(row)) {
+      throw new KleParseError("rowNotArray", rowNo);
+    }
+
+    let keyNo = 0;
+    row.forEach((item: unknown) => {
+      if (typeof item === "string") {
+        keyNo++;
+        const labels = item.split("\n");
+        const key: LayoutKey = {
+          code: "",
+          x: cursor.x,
+          y: cursor.y,
+          w: next.w,
+          h: next.h,
+          row: profile ?? -1,
+          labels,
+        };
+        if (next.w2 || next.h2 || next.x2 || next.y2) {
+          key.secondary = {
+            x: next.x2,
+            y: next.y2,
+            w: next.w2 || next.w,
+            h: next.h2 || next.h,
+          };
+        }
+        if (rotation.angle) key.rotation = { ...rotation };
+
+        keys.push(key);
+        profileRows.push(profile);
+        rowOfKey.push(ri);
+
+        cursor.x += next.w;
+        next = { w: 1, h: 1, x2: 0, y2: 0, w2: 0, h2: 0 };
+        return;
+      }
+
+      if (item === null || typeof item !== "object" || Array.isArray(item)) {
+        throw new KleParseError("invalidItem", rowNo, keyNo + 1);
+      }
+
+      const props = item as Record<string, unknown>;
+      const num: Partial<Record<NumericProp, number>> = {};
+      for (const p of NUMERIC_PROPS) {
+        if (props[p] === undefined) continue;
+        const v = props[p];
+        if (typeof v !== "number" || !Number.isFinite(v)) {
+          throw new KleParseError("notNumber", rowNo, keyNo + 1, p);
+        }
+        num[p] = v;
+      }
+      for (const p of ["w", "h"] as const) {
+        if (num[p] !== undefined && num[p] <= 0) {
+          throw new KleParseError("notPositive", rowNo, keyNo + 1, p);
+        }
+      }
+
+      // Dönüş kümesi – rx/ry değişince imleç pivot noktasına döner
+      if (num.r !== undefined) rotation = { ...rotation, angle: num.r };
+      if (num.rx !== undefined || num.ry !== undefined) {
+        rotation = {
+          ...rotation,
+          x: num.rx ?? rotation.x,
+          y: num.ry ?? rotation.y,
+        };
+        cursor = { x: rotation.x, y: rotation.y };
+      }
+      cursor.x += num.x ?? 0;
+      cursor.y += num.y ?? 0;
+      if (num.w !== undefined) next.w = num.w;
+      if (num.h !== undefined) next.h = num.h;
+      if (num.x2 !== undefined) next.x2 = num.x2;
+      if (num.y2 !== undefined) next.y2 = num.y2;
+      if (num.w2 !== undefined) next.w2 = num.w2;
+      if (num.h2 !== undefined) next.h2 = num.h2;
+
+      if (typeof props.p === "string") {
+        const m = /R(\d)/i.exec(props.p);
+        profile = m ? Math.min(Math.max(Number(m[1]) - 1, 0), 4) : undefined;
+      }
+    });
+
+    cursor.y += 1;
+    cursor.x = rotation.x;
+  });
+
+  if (keys.length === 0) {
+    throw new KleParseError("noKeys");
+  }
+
+  // Profil satırı verilmemişse alt 5 satıra R1–R5 dağıt
+  const rowCount = rows.length;
+  keys.forEach((k, i) => {
+    if (profileRows[i] === undefined) {
+      k.row = Math.min(Math.max(rowOfKey[i] - (rowCount - 5), 0), 4);
+    }
+  });
+
+  assignCodes(keys);
+  return normalize(keys);
+}
+
+function assignCodes(keys: LayoutKey[]) {
+  const used = new Set<string>();
+  keys.forEach((k, i) => {
+    let code = guessCode(k.labels ?? [], k.w);
+    if (code && used.has(code)) code = SECOND_CODES[code];
+    if (!code || used.has(code)) code = `kle-${i}`;
+    used.add(code);
+    k.code = code;
+  });
+}
+
+/** Dönmüş köşeler dahil sınır kutusunu (0,0)'a taşır ve keyMap üretir */
+function normalize(keys: LayoutKey[]): KeyboardLayout {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+  for (const k of keys) {
+    const rects = [{ x: k.x, y: k.y, w: k.w, h: k.h }];
+    if (k.secondary) {
+      rects.push({
+        x: k.x + k.secondary.x,
+        y: k.y + k.secondary.y,
+        w: k.secondary.w,
+        h: k.secondary.h,
+      });
+    }
+    const rad = ((k.rotation?.angle ?? 0) * Math.PI) / 180;
+    const px = k.rotation?.x ?? 0;
+    const py = k.rotation?.y ?? 0;
+    for (const r of rects) {
+      for (const [cx, cy] of [
+        [r.x, r.y], [r.x + r.w, r.y], [r.x, r.y + r.h], [r.x + r.w, r.y + r.h],
+      ]) {
+        const dx = cx - px;
+        const dy = cy - py;
+        const x = px + dx * Math.cos(rad) - dy * Math.sin(rad);
+        const y = py + dx * Math.sin(rad) + dy * Math.cos(rad);
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  const keyMap: Record<string, number> = {};
+  keys.forEach((k, i) => {
+    k.x -= minX;
+    k.y -= minY;
+    if (k.rotation) {
+      k.rotation = { ...k.rotation, x: k.rotation.x - minX, y: k.rotation.y - minY };
+    }
+    if (!k.code.startsWith("kle-")) keyMap[k.code] = i;
+  });
+
+  return {
+    id: CUSTOM_LAYOUT_ID,
+    keys,
+    width: maxX - minX,
+    depth: maxY - minY,
+    keyMap,
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * Keyboard Layout Engine
+ * ───────────────────────
+ * Form faktörleri veri olarak tanımlanır: her satır, genişliği "unit" (1u = bir
+ * alfa tuşu) cinsinden verilen tuşlardan oluşur. Kasa ölçüleri, tuş konumları ve
+ * fiziksel klavye eşlemesi (KeyboardEvent.code → index) buradan türetilir.
+ */
+
+/* ——— Tanım formatı ——— */
+
+export interface LayoutKeyDef {
+  /** KeyboardEvent.code (ör. "KeyA", "ShiftLeft") */
+  code: string;
+  /** Genişlik (u) – varsayılan 1 */
+  w?: number;
+  /** Yükseklik (u) – numpad "+" / Enter gibi dikey tuşlar için */
+  h?: number;
+  /** Satıra göre dikey kaydırma (u) */
+  y?: number;
+}
+
+/** Sayı = tuştan önce bırakılacak yatay boşluk (u) */
+export type LayoutRowItem = string | number | LayoutKeyDef;
+
+export interface LayoutRowDef {
+  keys: LayoutRowItem[];
+  /** Satırdan önceki dikey boşluk (u) – F-sırası ayrımı gibi */
+  gapBefore?: number;
+  /** Satırın yatay kaydırması (u) */
+  stagger?: number;
+  /** Keycap profil satırı (0 = en üst sıra, 4 = boşluk sırası) */
+  profileRow?: number;
+}
+
+export interface LayoutDefinition {
+  id: string;
+  name: string;
+  rows: LayoutRowDef[];
+}
+
+/* ——— Çözümlenmiş layout ——— */
+
+export interface LayoutKey {
+  code: string;
+  /** Sol-üst köşe (u) */
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Keycap profil satırı */
+  row: number;
+  /** İkincil dikdörtgen (ISO Enter, stepped tuşlar) – x/y birincile göre */
+  secondary?: { x: number; y: number; w: number; h: number };
+  /** Saat yönünde dönüş (derece) ve pivot noktası (u) */
+  rotation?: { angle: number; x: number; y: number };
+  /** İçe aktarılan layout'lardaki ham legend satırları */
+  labels?: string[];
+}
+
+export interface KeyboardLayout {
+  id: string;
+  keys: LayoutKey[];
+  /** Toplam genişlik / derinlik (u) */
+  width: number;
+  depth: number;
+  /** KeyboardEvent.code → keys index */
+  keyMap: Record<string, number>;
+}
+
+export function buildLayout(def: LayoutDefinition): KeyboardLayout {
+  const keys: LayoutKey[] = [];
+  const keyMap: Record<string, number> = {};
+  let width = 0;
+  let depth = 0;
+  let cursorY = 0;
+
+  def.rows.forEach((row, ri) => {
+    cursorY += row.gapBefore ?? 0;
+    let cursorX = row.stagger ?? 0;
+    const profileRow = row.profileRow ?? Math.min(ri, 4);
+
+    for (const item of row.keys) {
+      if (typeof item === "number") {
+        cursorX += item;
+        continue;
+      }
+      const k = typeof item === "string" ? { code: item } : item;
+      const w = k.w ?? 1;
+      const h = k.h ?? 1;
+      const y = cursorY + (k.y ?? 0);
+
+      if (keyMap[k.code] === undefined) keyMap[k.code] = keys.length;
+      keys.push({ code: k.code, x: cursorX, y, w, h, row: profileRow });
+
+      cursorX += w;
+      width = Math.max(width, cursorX);
+      depth = Math.max(depth, y + h);
+    }
+    cursorY += 1;
+  });
+
+  return { id: def.id, keys, width, depth, keyMap };
+}
+
+/* ——————————————————————————————————————————————
+   Ortak satır parçaları (ANSI)
+   —————————————————————————————————————————————— */
+
+const NUMBER_ROW = [
+  "Backquote", "Digit1", "Digit2", "Digit3", "Digit4", "Digit5", "Digit6",
+  "Digit7", "Digit8", "Digit9", "Digit0", "Minus", "Equal",
+  { code: "Backspace", w: 2 },
+];
+const TOP_ROW = [
+  { code: "Tab", w: 1.5 }, "KeyQ", "KeyW", "KeyE", "KeyR", "KeyT", "KeyY",
+  "KeyU", "KeyI", "KeyO", "KeyP", "BracketLeft", "BracketRight",
+  { code: "Backslash", w: 1.5 },
+];
+const HOME_ROW = [
+  { code: "CapsLock", w: 1.75 }, "KeyA", "KeyS", "KeyD", "KeyF", "KeyG",
+  "KeyH", "KeyJ", "KeyK", "KeyL", "Semicolon", "Quote",
+  { code: "Enter", w: 2.25 },
+];
+const SHIFT_ROW_ALPHAS = [
+  { code: "ShiftLeft", w: 2.25 }, "KeyZ", "KeyX", "KeyC", "KeyV", "KeyB",
+  "KeyN", "KeyM", "Comma", "Period", "Slash",
+];
+const BOTTOM_ROW = [
+  { code: "ControlLeft", w: 1.25 }, { code: "MetaLeft", w: 1.25 },
+  { code: "AltLeft", w: 1.25 }, { code: "Space", w: 6.25 },
+];
+const BOTTOM_ROW_FULL = [
+  ...BOTTOM_ROW,
+  { code: "AltRight", w: 1.25 }, { code: "MetaRight", w: 1.25 },
+  { code: "ContextMenu", w: 1.25 }, { code: "ControlRight", w: 1.25 },
+];
+const F_KEYS = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `F${from + i}`);
+const ARROWS = ["ArrowLeft", "ArrowDown", "ArrowRight"];
+
+/* ——————————————————————————————————————————————
+   Form faktörleri
+   —————————————————————————————————————————————— */
+
+export const LAYOUTS: Record<string, LayoutDefinition> = {
+  "60": {
+    id: "60",
+    name: "60%",
+    rows: [
+      { keys: NUMBER_ROW },
+      { keys: TOP_ROW },
+      { keys: HOME_ROW },
+      { keys: [...SHIFT_ROW_ALPHAS, { code: "ShiftRight", w: 2.75 }] },
+      { keys: BOTTOM_ROW_FULL },
+    ],
+  },
+
+  "65": {
+    id: "65",
+    name: "65%",
+    rows: [
+      { keys: [...NUMBER_ROW, "Delete"] },
+      { keys: [...TOP_ROW, "PageUp"] },
+      { keys: [...HOME_ROW, "PageDown"] },
+      {
+        keys: [
+          ...SHIFT_ROW_ALPHAS,
+          { code: "ShiftRight", w: 1.75 },
+          "ArrowUp",
+          "End",
+        ],
+      },
+      {
+        keys: [
+          ...BOTTOM_ROW,
+          "AltRight", "ContextMenu", "ControlRight",
+          ...ARROWS,
+        ],
+      },
+    ],
+  },
+
+  "75": {
+    id: "75",
+    name: "75%",
+    rows: [
+      {
+        keys: ["Escape", ...F_KEYS(1, 12), "PrintScreen", "Insert", "Delete"],
+        profileRow: 0,
+      },
+      { keys: [...NUMBER_ROW, "Home"], gapBefore: 0.25, profileRow: 0 },
+      { keys: [...TOP_ROW, "PageUp"], profileRow: 1 },
+      { keys: [...HOME_ROW, "PageDown"], profileRow: 2 },
+      {
+        keys: [
+          ...SHIFT_ROW_ALPHAS,
+          { code: "ShiftRight", w: 1.75 },
+          "ArrowUp",
+          "End",
+        ],
+        profileRow: 3,
+      },
+      {
+        keys: [
+          ...BOTTOM_ROW,
+          "AltRight", "ContextMenu", "ControlRight",
+          ...ARROWS,
+        ],
+        profileRow: 4,
+      },
+    ],
+  },
+
+  tkl: {
+    id: "tkl",
+    name: "TKL",
+    rows: [
+      {
+        keys: [
+          "Escape", 1, ...F_KEYS(1, 4), 0.5, ...F_KEYS(5, 8), 0.5,
+          ...F_KEYS(9, 12), 0.25, "PrintScreen", "ScrollLock", "Pause",
+        ],
+        profileRow: 0,
+      },
+      {
+        keys: [...NUMBER_ROW, 0.25, "Insert", "Home", "PageUp"],
+        gapBefore: 0.25,
+        profileRow: 0,
+      },
+      {
+        keys: [...TOP_ROW, 0.25, "Delete", "End", "PageDown"],
+        profileRow: 1,
+      },
+      { keys: HOME_ROW, profileRow: 2 },
+      {
+        keys: [...SHIFT_ROW_ALPHAS, { code: "ShiftRight", w: 2.75 }, 1.25, "ArrowUp"],
+        profileRow: 3,
+      },
+      { keys: [...BOTTOM_ROW_FULL, 0.25, ...ARROWS], profileRow: 4 },
+    ],
+  },
+
+  full: {
+    id: "full",
+    name: "Full-size",
+    rows: [
+      {
+        keys: [
+          "Escape", 1, ...F_KEYS(1, 4), 0.5, ...F_KEYS(5, 8), 0.5,
+          ...F_KEYS(9, 12), 0.25, "PrintScreen", "ScrollLock", "Pause",
+        ],
+        profileRow: 0,
+      },
+      {
+        keys: [
+          ...NUMBER_ROW, 0.25, "Insert", "Home", "PageUp", 0.25,
+          "NumLock", "NumpadDivide", "NumpadMultiply", "NumpadSubtract",
+        ],
+        gapBefore: 0.25,
+        profileRow: 0,
+      },
+      {
+        keys: [
+          ...TOP_ROW, 0.25, "Delete", "End", "PageDown", 0.25,
+          "Numpad7", "Numpad8", "Numpad9", { code: "NumpadAdd", h: 2 },
+        ],
+        profileRow: 1,
+      },
+      {
+        keys: [...HOME_ROW, 3.5, "Numpad4", "Numpad5", "Numpad6"],
+        profileRow: 2,
+      },
+      {
+        keys: [
+          ...SHIFT_ROW_ALPHAS, { code: "ShiftRight", w: 2.75 }, 1.25,
+          "ArrowUp", 1.25, "Numpad1", "Numpad2", "Numpad3",
+          { code: "NumpadEnter", h: 2 },
+        ],
+        profileRow: 3,
+      },
+      {
+        keys: [
+          ...BOTTOM_ROW_FULL, 0.25, ...ARROWS, 0.25,
+          { code: "Numpad0", w: 2 }, "NumpadDecimal",
+        ],
+        profileRow: 4,
+      },
+    ],
+  },
+};
+
+export const DEFAULT_LAYOUT_ID = "65";
+/** İçe aktarılan (KLE) layout için ayrılmış seçenek id'si */
+export const CUSTOM_LAYOUT_ID = "custom";
+
+const cache = new Map<string, KeyboardLayout>();
+
+/** Id'ye göre çözümlenmiş layout (bilinmeyen id → varsayılan) */
+export function getLayout(id: string): KeyboardLayout {
+  const def = LAYOUTS[id] ?? LAYOUTS[DEFAULT_LAYOUT_ID];
+  let layout = cache.get(def.id);
+  if (!layout) {
+    layout = buildLayout(def);
+    cache.set(def.id, layout);
+  }
+  return layout;
+}
+
+/** Seçili layout id'sini, varsa içe aktarılmış layout'u da gözeterek çözer */
+export function resolveLayout(
+  id: string,
+  custom: KeyboardLayout | null
+): KeyboardLayout {
+  if (id === CUSTOM_LAYOUT_ID && custom) return custom;
+  return getLayout(id);
+}
+
+/* ——————————————————————————————————————————————
+   Keycap bölgeleri (colorway)
+   —————————————————————————————————————————————— */
+
+export type KeyZone = "alphas" | "modifiers" | "accents";
+
+const ACCENT_CODES = new Set(["Escape", "Enter", "NumpadEnter"]);
+const ALPHA_CODES = new Set([
+  "Backquote", "Minus", "Equal", "BracketLeft", "BracketRight", "Backslash",
+  "Semicolon", "Quote", "Comma", "Period", "Slash", "Space",
+]);
+
+/** Tuşun colorway bölgesi – alfa, modifier veya aksan */
+export function keyZone(code: string): KeyZone {
+  if (ACCENT_CODES.has(code)) return "accents";
+  if (
+    ALPHA_CODES.has(code) ||
+    /^(Key[A-Z]|Digit\d|Numpad\d)$/.test(code)
+  ) {
+    return "alphas";
+  }
+  return "modifiers";
+}
@@ -0,0 +1,225 @@
+/**
+ * Legend Texture Atlas
+ * ─────────────────────
+ * Tüm tuşların legend'larını tek bir canvas'a (shelf packing) çizer; her tuş
+ * atlas içindeki UV dikdörtgenini kullanır. Tek texture → tek upload, tek
+ * material. Legend'lar beyaz çizilir; renk material tarafından verilir.
+ * Instanced çizimde UV dikdörtgeni instance attribute'u olarak verilir.
+ */
+
+import * as THREE from "three";
+import type { KeyLegend, LegendFont, LegendPosition } from "@/lib/legends";
+import type { InstanceGroup } from "@/lib/keycapInstances";
+
+/** Atlas çözünürlüğü – 1u başına piksel */
+const PX_PER_UNIT = 96;
+const ATLAS_W = 2048;
+const PAD = 2;
+
+export interface UvRect {
+  u: number;
+  v: number;
+  w: number;
+  h: number;
+}
+
+export interface AtlasKey {
+  legend: KeyLegend;
+  /** Üst yüz ölçüleri (u) */
+  w: number;
+  h: number;
+  /** Ön yüz yüksekliği (u) */
+  frontH: number;
+}
+
+export interface LegendAtlas {
+  texture: THREE.CanvasTexture;
+  /** Tuş index'ine göre üst / ön yüz UV'leri (legend yoksa null) */
+  top: (UvRect | null)[];
+  front: (UvRect | null)[];
+}
+
+/** `var(--font-x)` referanslarını gerçek font ailesi adlarına çevirir */
+function resolveStack(stack: string): string {
+  const style = getComputedStyle(document.body);
+  return stack.replace(/var\((--[\w-]+)\)/g, (_, name: string) =>
+    style.getPropertyValue(name).trim() || "sans-serif"
+  );
+}
+
+type Cell = { x: number; y: number; w: number; h: number };
+
+export function buildLegendAtlas(
+  keys: AtlasKey[],
+  font: LegendFont,
+  position: LegendPosition
+): LegendAtlas {
+  const family = resolveStack(font.stack);
+
+  // 1 ─ Hücre ölçüleri ve shelf yerleşimi
+  const requests: { key: number; face: "top" | "front"; w: number; h: number }[] = [];
+  keys.forEach((k, i) => {
+    if (position === "blank") return;
+    const hasTop = position === "top" && (k.legend.primary || k.legend.shifted);
+    const hasFront =
+      k.legend.front || (position === "front" && (k.legend.primary || k.legend.shifted));
+    if (hasTop) {
+      requests.push({ key: i, face: "top", w: k.w * PX_PER_UNIT, h: k.h * PX_PER_UNIT });
+    }
+    if (hasFront) {
+      requests.push({ key: i, face: "front", w: k.w * PX_PER_UNIT, h: k.frontH * PX_PER_UNIT });
+    }
+  });
+
+  const cells = new Map<string, Cell>();
+  let x = 0;
+  let y = 0;
+  let shelfH = 0;
+  for (const r of requests) {
+    const w = Math.ceil(r.w) + PAD * 2;
+    const h = Math.ceil(r.h) + PAD * 2;
+    if (x + w > ATLAS_W) {
+      x = 0;
+      y += shelfH;
+      shelfH = 0;
+    }
+    cells.set(`${r.key}:${r.face}`, { x: x + PAD, y: y + PAD, w: w - PAD * 2, h: h - PAD * 2 });
+    x += w;
+    shelfH = Math.max(shelfH, h);
+  }
+  const atlasH = THREE.MathUtils.ceilPowerOfTwo(Math.max(y + shelfH, 1));
+
+  // 2 ─ Çizim
+  const canvas = document.createElement("canvas");
+  canvas.width = ATLAS_W;
+  canvas.height = atlasH;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#fff";
+  ctx.textBaseline = "middle";
+
+  const setFont = (px: number) => {
+    ctx.font = `${font.weight} ${Math.round(px)}px ${family}`;
+  };
+
+  /** Metni hücre genişliğine sığdırarak çizer */
+  const fitText = (text: string, px: number, maxW: number, tx: number, ty: number) => {
+    setFont(px);
+    const measured = ctx.measureText(text).width;
+    if (measured > maxW) setFont((px * maxW) / measured);
+    ctx.fillText(text, tx, ty);
+  };
+
+  const drawTop = (legend: KeyLegend, c: Cell) => {
+    const pad = PX_PER_UNIT * 0.2;
+    const maxW = c.w - pad * 2;
+    ctx.textAlign = "left";
+    if (legend.shifted) {
+      fitText(legend.shifted, PX_PER_UNIT * 0.24, maxW, c.x + pad, c.y + pad + 10);
+      fitText(legend.primary, PX_PER_UNIT * 0.24, maxW, c.x + pad, c.y + c.h - pad - 10);
+    } else if ([...legend.primary].length <= 2) {
+      fitText(legend.primary, PX_PER_UNIT * 0.3, maxW, c.x + pad, c.y + pad + 12);
+    } else {
+      fitText(legend.primary, PX_PER_UNIT * 0.17, maxW, c.x + pad, c.y + pad + 8);
+    }
+  };
+
+  const drawFront = (text: string, c: Cell) => {
+    ctx.textAlign = "center";
+    fitText(text, c.h * 0.6, c.w - 8, c.x + c.w / 2, c.y + c.h / 2);
+  };
+
+  const toUv = (c: Cell): UvRect => ({
+    u: c.x / ATLAS_W,
+    v: 1 - (c.y + c.h) / atlasH,
+    w: c.w / ATLAS_W,
+    h: c.h / atlasH,
+  });
+
+  const top: (UvRect | null)[] = keys.map(() => null);
+  const front: (UvRect | null)[] = keys.map(() => null);
+
+  keys.forEach((k, i) => {
+    const topCell = cells.get(`${i}:top`);
+    if (topCell) {
+      drawTop(k.legend, topCell);
+      top[i] = toUv(topCell);
+    }
+    const frontCell = cells.get(`${i}:front`);
+    if (frontCell) {
+      const text =
+        position === "front"
+          ? [k.legend.primary, k.legend.front].filter(Boolean).join("  ")
+          : k.legend.front!;
+      drawFront(text, frontCell);
+      front[i] = toUv(frontCell);
+    }
+  });
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 4;
+  return { texture, top, front };
+}
+
+const FULL_RECT: UvRect = { u: 0, v: 0, w: 1, h: 1 };
+
+/** UV dikdörtgenine eşlenmiş düzlem (XY, merkez orijinde) */
+export function createLegendPlane(
+  w: number,
+  h: number,
+  uv: UvRect = FULL_RECT,
+  segments = 1
+): THREE.PlaneGeometry {
+  const geo = new THREE.PlaneGeometry(w, h, segments, segments);
+  const attr = geo.attributes.uv as THREE.BufferAttribute;
+  for (let i = 0; i < attr.count; i++) {
+    attr.setXY(i, uv.u + attr.getX(i) * uv.w, uv.v + attr.getY(i) * uv.h);
+  }
+  return geo;
+}
+
+/* ——————————————————————————————————————————————
+   Instanced legend'lar
+   —————————————————————————————————————————————— */
+
+/**
+ * Atlas material'i – düzlemin 0..1 UV'leri instance başına `legendUv`
+ * (u, v, w, h) dikdörtgenine ölçeklenir.
+ */
+export function createInstancedLegendMaterial(
+  texture: THREE.Texture,
+  color: THREE.ColorRepresentation
+): THREE.MeshStandardMaterial {
+  const mat = new THREE.MeshStandardMaterial({
+    map: texture,
+    color,
+    transparent: true,
+    depthWrite: false,
+    roughness: 0.5,
+    polygonOffset: true,
+    polygonOffsetFactor: -1,
+  });
+  mat.onBeforeCompile = (shader) => {
+    shader.vertexShader =
+      "attribute vec4 legendUv;\n" +
+      shader.vertexShader.replace(
+        "#include <uv_vertex>",
+        "#include <uv_vertex>\n#ifdef USE_MAP\n\tvMapUv = vMapUv * legendUv.zw + legendUv.xy;\n#endif"
+      );
+  };
+  mat.customProgramCacheKey = () => "instanced-legend";
+  return mat;
+}
+
+/** Her mesh'in geometrisine instance başına UV dikdörtgenini ekler */
+export function attachLegendUvs(group: InstanceGroup, uvs: (UvRect | null)[]) {
+  for (const mesh of group.meshes) {
+    const keys = group.keys.get(mesh)!;
+    const data = new Float32Array(keys.length * 4);
+    keys.forEach((key, j) => {
+      const uv = uvs[key];
+      if (uv) data.set([uv.u, uv.v, uv.w, uv.h], j * 4);
+    });
+    mesh.geometry.setAttribute("legendUv", new THREE.InstancedBufferAttribute(data, 4));
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Keycap Legends
+ * ───────────────
+ * KeyboardEvent.code → keycap üzerindeki yazılar. Birincil legend, Shift
+ * katmanı ve ön yüze basılan alt legend (Fn katmanı) ayrı tutulur.
+ */
+
+import type { LayoutKey } from "@/lib/layouts";
+
+export interface KeyLegend {
+  primary: string;
+  shifted?: string;
+  /** Ön yüze basılan alt legend */
+  front?: string;
+}
+
+export type LegendPosition = "top" | "front" | "blank";
+
+export interface LegendFont {
+  id: string;
+  name: string;
+  /** CSS font stack – `var(--x)` değerleri çalışma anında çözülür */
+  stack: string;
+  weight: number;
+}
+
+export const LEGEND_FONTS: LegendFont[] = [
+  { id: "sans", name: "Inter", stack: "var(--font-inter), system-ui, sans-serif", weight: 500 },
+  { id: "grotesk", name: "Grotesk", stack: "var(--font-space-grotesk), sans-serif", weight: 600 },
+  { id: "mono", name: "Mono", stack: "ui-monospace, Menlo, Consolas, monospace", weight: 500 },
+  { id: "serif", name: "Serif", stack: "Georgia, 'Times New Roman', serif", weight: 400 },
+];
+
+export const LEGEND_POSITIONS: { id: LegendPosition; name: string }[] = [
+  { id: "top", name: "Üst" },
+  { id: "front", name: "Ön Yüz" },
+  { id: "blank", name: "Boş" },
+];
+
+/* ——————————————————————————————————————————————
+   ANSI legend tablosu
+   —————————————————————————————————————————————— */
+
+const SHIFTED_PAIRS: [string, string, string][] = [
+  ["Backquote", "`", "~"], ["Digit1", "1", "!"], ["Digit2", "2", "@"],
+  ["Digit3", "3", "#"], ["Digit4", "4", "$"], ["Digit5", "5", "%"],
+  ["Digit6", "6", "^"], ["Digit7", "7", "&"], ["Digit8", "8", "*"],
+  ["Digit9", "9", "("], ["Digit0", "0", ")"], ["Minus", "-", "_"],
+  ["Equal", "=", "+"], ["BracketLeft", "[", "{"], ["BracketRight", "]", "}"],
+  ["Backslash", "\\", "|"], ["Semicolon", ";", ":"], ["Quote", "'", '"'],
+  ["Comma", ",", "<"], ["Period", ".", ">"], ["Slash", "/", "?"],
+];
+
+const NAMED: Record<string, string> = {
+  Escape: "Esc", Backspace: "Backspace", Tab: "Tab", CapsLock: "Caps Lock",
+  Enter: "Enter", ShiftLeft: "Shift", ShiftRight: "Shift",
+  ControlLeft: "Ctrl", ControlRight: "Ctrl", MetaLeft: "Win", MetaRight: "Win",
+  AltLeft: "Alt", AltRight: "Alt", ContextMenu: "Fn", Space: "",
+  Insert: "Ins", Delete: "Del", Home: "Home", End: "End",
+  PageUp: "PgUp", PageDown: "PgDn", PrintScreen: "PrtSc",
+  ScrollLock: "ScrLk", Pause: "Pause", NumLock: "Num",
+  ArrowUp: "↑", ArrowDown: "↓", ArrowLeft: "←", ArrowRight: "→",
+  NumpadDivide: "/", NumpadMultiply: "*", NumpadSubtract: "-",
+  NumpadAdd: "+", NumpadEnter: "Enter", NumpadDecimal: ".",
+};
+
+/** Kompakt layout'larda Fn katmanı: sayı sırası → F tuşları */
+const FRONT: Record<string, string> = {
+  Backquote: "Esc", Minus: "F11", Equal: "F12", Backspace: "Del",
+  ArrowUp: "PgUp", ArrowDown: "PgDn", ArrowLeft: "Home", ArrowRight: "End",
+  ...Object.fromEntries(
+    Array.from({ length: 10 }, (_, i) => [`Digit${(i + 1) % 10}`, `F${i + 1}`])
+  ),
+};
+
+const LEGENDS: Record<string, KeyLegend> = {
+  ...Object.fromEntries(
+    SHIFTED_PAIRS.map(([code, primary, shifted]) => [code, { primary, shifted }])
+  ),
+  ...Object.fromEntries(
+    Object.entries(NAMED).map(([code, primary]) => [code, { primary }])
+  ),
+};
+
+/**
+ * Layout tuşunun legend'ı – KLE etiketleri tablodaki değerlerden önceliklidir.
+ * `fnLayer`: F-sırası olmayan kompakt layout'larda Fn katmanını ön yüze basar.
+ */
+export function legendFor(key: LayoutKey, fnLayer: boolean): KeyLegend {
+  // Üç legend da KLE'nin 12 konumlu ham dizisinden okunur: 0 üst, 1 alt, 4 ön
+  const labels = key.labels ?? [];
+  const slot = (i: number) => (labels[i]?.trim() ? labels[i] : undefined);
+  const filled = labels.find((l) => l.trim() !== "");
+  if (filled !== undefined) {
+    const front = slot(4);
+    const primary = slot(1);
+    // Tek satırlık etiket ("Esc") ilk konumdadır – ana legend odur
+    if (primary === undefined) return { primary: slot(0) ?? filled, front };
+    return { shifted: slot(0), primary, front };
+  }
+
+  const { code } = key;
+  const base =
+    LEGENDS[code] ??
+    (code.startsWith("Key") ? { primary: code.slice(3) } : undefined) ??
+    (/^F\d+$/.test(code) ? { primary: code } : undefined) ??
+    (code.startsWith("Numpad") ? { primary: code.slice(6) } : { primary: "" });
+
+  return fnLayer && FRONT[code] ? { ...base, front: FRONT[code] } : base;
+}
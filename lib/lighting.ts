@@ -0,0 +1,124 @@
+/**
+ * RGB Backlighting
+ * ─────────────────
+ * Tuş başına arka ışık efektleri. Her efekt, tuşun klavye üzerindeki
+ * normalize konumu ve efekt zamanından bir renk üretir; parlaklık sahnede
+ * uygulanır. Efekt zamanı hız ile ölçeklenmiş birikimli bir fazdır – hız
+ * değişince animasyon sıçramaz.
+ */
+
+import * as THREE from "three";
+
+export type LightingEffect =
+  | "off"
+  | "static"
+  | "breathing"
+  | "wave"
+  | "reactive"
+  | "spectrum";
+
+export const LIGHTING_EFFECTS: { id: LightingEffect; name: string }[] = [
+  { id: "off", name: "Kapalı" },
+  { id: "static", name: "Sabit" },
+  { id: "breathing", name: "Nefes" },
+  { id: "wave", name: "Dalga" },
+  { id: "reactive", name: "Tepkisel" },
+  { id: "spectrum", name: "Spektrum" },
+];
+
+export const LIGHTING_SPEED = { min: 0.25, max: 3, default: 1 };
+export const LIGHTING_BRIGHTNESS = { min: 0, max: 1, default: 0.8 };
+
+export const isLightingEffect = (value: string): value is LightingEffect =>
+  LIGHTING_EFFECTS.some((e) => e.id === value);
+
+/* ——————————————————————————————————————————————
+   Reactive ripple
+   —————————————————————————————————————————————— */
+
+/** Basılan tuştan yayılan halka – konum sahne biriminde, `start` efekt fazı */
+export interface Ripple {
+  x: number;
+  z: number;
+  start: number;
+}
+
+/** Halkanın faz başına yayılma mesafesi (sahne birimi) */
+const RIPPLE_SPEED = 2.4;
+const RIPPLE_WIDTH = 0.22;
+/** Halkanın söndüğü faz süresi */
+export const RIPPLE_LIFETIME = 1.4;
+/** Tepkisel modda dokunulmamış tuşların parlaklığı */
+const REACTIVE_IDLE = 0.08;
+
+function rippleIntensity(ripples: Ripple[], x: number, z: number, phase: number) {
+  let intensity = 0;
+  for (const r of ripples) {
+    const age = phase - r.start;
+    if (age < 0 || age > RIPPLE_LIFETIME) continue;
+    const ring = (Math.hypot(x - r.x, z - r.z) - age * RIPPLE_SPEED) / RIPPLE_WIDTH;
+    intensity += Math.exp(-ring * ring) * (1 - age / RIPPLE_LIFETIME);
+  }
+  return Math.min(intensity, 1);
+}
+
+/** Ömrünü doldurmuş halkaları yerinde temizler */
+export function pruneRipples(ripples: Ripple[], phase: number) {
+  let n = 0;
+  for (const r of ripples) {
+    if (phase - r.start <= RIPPLE_LIFETIME) ripples[n++] = r;
+  }
+  ripples.length = n;
+}
+
+/* ——————————————————————————————————————————————
+   Efekt rengi
+   —————————————————————————————————————————————— */
+
+export interface LitKey {
+  /** Sahne konumu (ripple mesafesi için) */
+  x: number;
+  z: number;
+  /** Klavye genişliği / derinliği boyunca 0–1 */
+  u: number;
+  v: number;
+}
+
+/**
+ * Tuşun o anki arka ışık rengini `target`'a yazar (parlaklık hariç).
+ * `pressed`: tuş şu an basılı mı – tepkisel modda tam parlar.
+ */
+export function effectColor(
+  effect: LightingEffect,
+  key: LitKey,
+  phase: number,
+  base: THREE.Color,
+  ripples: Ripple[],
+  pressed: boolean,
+  target: THREE.Color
+): THREE.Color {
+  switch (effect) {
+    case "off":
+      return target.setRGB(0, 0, 0);
+    case "static":
+      return target.copy(base);
+    case "breathing": {
+      const b = 0.5 - 0.5 * Math.cos(phase * Math.PI);
+      return target.copy(base).multiplyScalar(0.1 + 0.9 * b * b);
+    }
+    case "wave":
+      return target.setHSL(
+        THREE.MathUtils.euclideanModulo(key.u - phase * 0.25, 1),
+        1,
+        0.5
+      );
+    case "spectrum":
+      return target.setHSL((phase * 0.1) % 1, 1, 0.5);
+    case "reactive": {
+      const glow = pressed ? 1 : rippleIntensity(ripples, key.x, key.z, phase);
+      return target
+        .copy(base)
+        .multiplyScalar(REACTIVE_IDLE + (1 - REACTIVE_IDLE) * glow);
+    }
+  }
+}
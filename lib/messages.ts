@@ -0,0 +1,1092 @@
+/**
+ * UI Messages
+ * ────────────
+ * Dil başına arayüz sözlükleri. Seçenek ve kategori metinleri id ile
+ * eşlenir; sayı içeren metinler fonksiyondur. Yeni bir dil eklemek için
+ * `Messages`'ı eksiksiz karşılayan bir sözlük yeterli (bkz. `lib/i18n.ts`).
+ */
+
+import type { Category } from "@/store/useConfiguratorStore";
+import type { KeyZone } from "@/lib/layouts";
+import type { LegendPosition } from "@/lib/legends";
+import type { LightingEffect } from "@/lib/lighting";
+import type { SynthParam } from "@/lib/soundEngine";
+import type { CustomerDetails, OrderErrorId, OrderIssueId } from "@/lib/orders";
+import type { PriceLineId } from "@/lib/pricing";
+import type { SoundLevel, SwitchType } from "@/lib/switchSpecs";
+import type { CameraViewId } from "@/lib/cameraViews";
+import type { PaletteId } from "@/lib/colorPalettes";
+import type { CameraPreset } from "@/lib/sceneCapture";
+import type { ExportBackground, SceneExportErrorCode } from "@/lib/sceneExport";
+import type { KleErrorCode } from "@/lib/kle";
+import type { RecordingErrorCode } from "@/lib/recording";
+import type { ShareSettingParam } from "@/lib/shareUrl";
+
+interface OptionText {
+  name: string;
+  description?: string;
+}
+
+export interface Messages {
+  meta: { title: string; description: string };
+  page: {
+    loading: string;
+    tagline: string;
+    live: string;
+    hint: string;
+    share: string;
+    linkCopied: string;
+    copyPrompt: string;
+    mute: string;
+    unmute: string;
+    volume: string;
+    undo: string;
+    redo: string;
+    shareIssueTitle: string;
+    shareIssueBody: string;
+    shareParams: Record<ShareSettingParam, string>;
+    close: string;
+    explodedView: string;
+    separateLayers: string;
+    inspect: string;
+    cameraViews: Record<CameraViewId, string>;
+    localeTitle: string;
+    language: string;
+    currency: string;
+    catalogUnavailable: string;
+  };
+  categories: Record<Category, { label: string; subtitle: string }>;
+  options: Record<Category, Record<string, OptionText>>;
+  keyZones: Record<KeyZone, string>;
+  keycapTargets: { all: string; paint: string };
+  legendPositions: Record<LegendPosition, string>;
+  lightingEffects: Record<LightingEffect, string>;
+  soundParams: Record<SynthParam, string>;
+  switchSpecs: {
+    open: string;
+    title: string;
+    subtitle: string;
+    types: Record<SwitchType, string>;
+    soundLevels: Record<SoundLevel, string>;
+    columns: {
+      name: string;
+      type: string;
+      actuation: string;
+      bottomOut: string;
+      preTravel: string;
+      totalTravel: string;
+      sound: string;
+    };
+    travel: string;
+    force: string;
+    actuationPoint: string;
+  };
+  customColor: {
+    open: string;
+    palettes: Record<PaletteId, string>;
+    requested: string;
+    produced: string;
+    exact: string;
+    deltaE: (value: string) => string;
+    recent: string;
+    surcharge: (price: string) => string;
+    apply: string;
+  };
+  caseMods: Record<string, { name: string; description: string }>;
+  /** Uyumluluk kuralı id'si → gerekçe */
+  compatibility: Record<string, string>;
+  configurator: {
+    outOfStock: string;
+    soldOut: string;
+    incompatible: string;
+    changesNeeded: (option: string) => string;
+    cancel: string;
+    apply: string;
+    brightness: string;
+    speed: string;
+    soundTuning: string;
+    listen: string;
+    remove: string;
+    customSwitchName: string;
+    customSwitch: { name: (base: string) => string; description: (base: string) => string };
+    saveAsSwitch: string;
+    reset: string;
+    paintHint: string;
+    clearPainted: (count: number) => string;
+    customKeys: (count: number) => string;
+  };
+  priceLines: Record<PriceLineId, string>;
+  checkout: {
+    cta: string;
+    titles: { review: string; details: string; done: string; lookup: string };
+    total: string;
+    previewAlt: string;
+    lookupPrevious: string;
+    next: string;
+    back: string;
+    submitting: string;
+    confirm: string;
+    trackHint: string;
+    copy: string;
+    orderNumber: string;
+    search: string;
+    notFound: string;
+    lookupFailed: string;
+    received: string;
+    fields: Record<keyof CustomerDetails, string>;
+    fieldErrors: Partial<Record<keyof CustomerDetails, string>>;
+    errors: Record<OrderErrorId, string>;
+    issues: Record<OrderIssueId, string>;
+    unknownOption: (category: string, option: string) => string;
+    optionUnavailable: (category: string, option: string) => string;
+  };
+  builds: {
+    open: string;
+    title: string;
+    newName: string;
+    save: string;
+    saveCurrent: string;
+    full: string;
+    storageError: string;
+    empty: string;
+    load: string;
+    name: string;
+    rename: string;
+    duplicate: string;
+    pinAs: (slot: string) => string;
+    remove: string;
+    cancel: string;
+    defaultName: (n: number) => string;
+    copyName: (name: string) => string;
+  };
+  compare: {
+    open: string;
+    emptySlot: string;
+    pinCurrent: string;
+    load: string;
+    clear: string;
+    pinTwoFirst: string;
+    backToEditor: string;
+    sideBySide: string;
+    title: string;
+    identical: string;
+    total: string;
+    showAll: string;
+    showDiff: string;
+    close: string;
+    rows: { keycapZones: string; painted: string; lighting: string; caseMods: string };
+  };
+  exportPanel: {
+    open: string;
+    title: string;
+    resolution: string;
+    sizes: { fhd: string; uhd: string; square: string };
+    width: string;
+    height: string;
+    camera: string;
+    cameraPresets: Record<CameraPreset, string>;
+    background: string;
+    backgrounds: Record<ExportBackground, string>;
+    png: string;
+    turntable: string;
+    turntableInfo: (fps: number) => string;
+    opaqueVideo: string;
+    format: string;
+    duration: string;
+    seconds: (n: number) => string;
+    cancel: string;
+    create: (format: string) => string;
+    failed: string;
+    errors: Record<SceneExportErrorCode, string>;
+  };
+  recorder: {
+    record: string;
+    finish: string;
+    stop: string;
+    play: (name: string) => string;
+    noRecording: string;
+    loop: string;
+    download: string;
+    import: string;
+    demo: string;
+    readFailed: string;
+    demoFailed: string;
+    defaultName: (time: string) => string;
+    errors: Record<Exclude<RecordingErrorCode, "unsupportedVersion" | "invalidEvent">, string> & {
+      unsupportedVersion: (version: string) => string;
+      invalidEvent: (index: string) => string;
+    };
+  };
+  typingTest: {
+    open: string;
+    close: string;
+    title: string;
+    result: string;
+    newPassage: string;
+    startHint: string;
+    accuracy: string;
+    time: string;
+    best: string;
+    previous: string;
+    accuracyOf: (percent: string) => string;
+    heatmap: string;
+    correct: string;
+    wrong: string;
+    brightness: string;
+  };
+  kleImport: {
+    open: string;
+    subtitle: string;
+    upload: string;
+    submit: string;
+    failed: string;
+    /** Hata konumu – "Satır 2, tuş 1: " */
+    at: (row: number, key?: number) => string;
+    errors: Record<Exclude<KleErrorCode, "notNumber" | "notPositive">, string> & {
+      notNumber: (property: string) => string;
+      notPositive: (property: string) => string;
+    };
+  };
+}
+
+/* ——————————————————————————————————————————————
+   Türkçe
+   —————————————————————————————————————————————— */
+
+export const tr: Messages = {
+  meta: {
+    title: "MECHCONFIG — Premium Klavye Konfigüratörü",
+    description:
+      "Next.js, React Three Fiber ve Framer Motion ile geliştirilmiş etkileşimli 3D mekanik klavye konfigüratörü.",
+  },
+  page: {
+    loading: "3D sahne yükleniyor…",
+    tagline: "Premium Klavye Konfigüratörü",
+    live: "İnteraktif",
+    hint: "Klavyeni kullanarak tuşlara bas ⌨",
+    share: "Yapılandırmayı paylaş",
+    linkCopied: "Bağlantı kopyalandı",
+    copyPrompt: "Bağlantıyı kopyala:",
+    mute: "Sesi kapat",
+    unmute: "Sesi aç",
+    volume: "Ses seviyesi",
+    undo: "Geri al (Ctrl+Z)",
+    redo: "Yinele (Ctrl+Shift+Z)",
+    shareIssueTitle: "Paylaşılan yapılandırma tam yüklenemedi",
+    shareIssueBody: "Tanınmayan veya uyumsuz seçenekler değiştirildi:",
+    shareParams: {
+      tab: "Sekme",
+      sound: "Ses seviyesi",
+      lfont: "Legend fontu",
+      lpos: "Legend konumu",
+      mods: "Modifier rengi",
+      accents: "Aksan rengi",
+      paint: "Boyalı tuş",
+      fx: "Işık efekti",
+      fxspeed: "Efekt hızı",
+      fxbright: "Işık parlaklığı",
+      addons: "Sönümleme modu",
+    },
+    close: "Kapat",
+    explodedView: "Patlatılmış görünüm – switch'leri göster",
+    separateLayers: "Kasa, köpük, PCB ve plate katmanlarını ayır",
+    inspect: "Serbest inceleme – yakınlaştır / kaydır, çift tıklayıp odaklan",
+    cameraViews: { home: "Varsayılan", isometric: "İzometrik", front: "Ön", top: "Üst", side: "Yan" },
+    localeTitle: "Dil ve para birimi",
+    language: "Dil",
+    currency: "Para birimi",
+    catalogUnavailable: "Fiyatlar şu anda alınamıyor",
+  },
+  categories: {
+    body: { label: "Gövde", subtitle: "Kasa Rengi" },
+    material: { label: "Malzeme", subtitle: "Kasa & Akustik" },
+    keycaps: { label: "Tuşlar", subtitle: "Keycap Seti" },
+    switches: { label: "Switch", subtitle: "Anahtar Türü" },
+    layout: { label: "Layout", subtitle: "Form Faktörü" },
+    legends: { label: "Legend", subtitle: "Tuş Yazıları" },
+    profile: { label: "Profil", subtitle: "Keycap Formu" },
+    lighting: { label: "Işık", subtitle: "RGB Aydınlatma" },
+  },
+  options: {
+    body: {
+      midnight: { name: "Gece Siyahı" },
+      silver: { name: "Uzay Gümüşü" },
+      arctic: { name: "Kutup Beyazı" },
+      navy: { name: "Lacivert" },
+      burgundy: { name: "Bordo" },
+      forest: { name: "Orman Yeşili" },
+      rose: { name: "Roz Altın" },
+    },
+    material: {
+      plastic: { name: "ABS Plastik", description: "Hafif · Boğuk rezonans" },
+      aluminum: { name: "CNC Alüminyum", description: "Ağır · Parlak, çınlayan ses" },
+      polycarbonate: { name: "Polikarbonat", description: "Yarı saydam · Yumuşak, dolgun ses" },
+      wood: { name: "Ceviz Ahşap", description: "Doğal doku · Derin, sıcak ses" },
+    },
+    keycaps: {
+      charcoal: { name: "Kömür" },
+      cream: { name: "Krem Beyaz" },
+      matcha: { name: "Retro Matcha" },
+      lavender: { name: "Lavanta" },
+      coral: { name: "Mercan Pembe" },
+      sky: { name: "Gök Mavisi" },
+      sunset: { name: "Gün Batımı" },
+    },
+    switches: {
+      red: { name: "Cherry MX Red" },
+      blue: { name: "Cherry MX Blue" },
+      brown: { name: "Cherry MX Brown" },
+      speed: { name: "Speed Silver" },
+      black: { name: "Cherry MX Black" },
+    },
+    layout: {
+      "60": { name: "Kompakt %60", description: "61 tuş · Ok tuşu yok" },
+      "65": { name: "Kompakt %65", description: "68 tuş · Ok tuşları" },
+      "75": { name: "Exploded %75", description: "84 tuş · F-sırası" },
+      tkl: { name: "Tenkeyless", description: "87 tuş · Numpad yok" },
+      full: { name: "Tam Boy", description: "104 tuş · Numpad" },
+      custom: { name: "Özel (KLE)", description: "İçe aktarılan layout" },
+    },
+    legends: {
+      white: { name: "Kar Beyazı" },
+      black: { name: "Mürekkep Siyahı" },
+      gold: { name: "Altın Varak" },
+      violet: { name: "Menekşe" },
+      mint: { name: "Nane" },
+      red: { name: "Sinyal Kırmızısı" },
+    },
+    profile: {
+      cherry: { name: "Cherry", description: "Alçak · Silindirik çanak · Heykelsi" },
+      oem: { name: "OEM", description: "Orta yükseklik · Silindirik çanak" },
+      sa: { name: "SA", description: "Yüksek · Küresel çanak · Retro" },
+      xda: { name: "XDA", description: "Tek tip · Geniş üst yüz" },
+      dsa: { name: "DSA", description: "Tek tip · Alçak · Küresel çanak" },
+    },
+    lighting: {
+      white: { name: "Soğuk Beyaz" },
+      violet: { name: "Ultra Mor" },
+      cyan: { name: "Buz Mavisi" },
+      magenta: { name: "Macenta" },
+      red: { name: "Lazer Kırmızı" },
+      green: { name: "Neon Yeşil" },
+      amber: { name: "Kehribar" },
+    },
+  },
+  keyZones: { alphas: "Alfa", modifiers: "Modifier", accents: "Aksan" },
+  keycapTargets: { all: "Tümü", paint: "Boya" },
+  legendPositions: { top: "Üst", front: "Ön Yüz", blank: "Boş" },
+  lightingEffects: {
+    off: "Kapalı",
+    static: "Sabit",
+    breathing: "Nefes",
+    wave: "Dalga",
+    reactive: "Tepkisel",
+    spectrum: "Spektrum",
+  },
+  soundParams: {
+    baseFreq: "Gövde",
+    clickFreq: "Click",
+    filterFreq: "Filtre",
+    filterQ: "Rezonans",
+    thockDecay: "Thock",
+    clickDecay: "Click Süresi",
+    volume: "Seviye",
+  },
+  switchSpecs: {
+    open: "Teknik Değerler",
+    title: "Switch Karşılaştırma",
+    subtitle: "Basış sırasında kuvvet – yol eğrisi",
+    types: { linear: "Lineer", tactile: "Dokunsal", clicky: "Tıklamalı" },
+    soundLevels: { 1: "Çok sessiz", 2: "Sessiz", 3: "Orta", 4: "Yüksek", 5: "Tıkırtılı" },
+    columns: {
+      name: "Switch",
+      type: "Tür",
+      actuation: "Aktivasyon",
+      bottomOut: "Dip kuvveti",
+      preTravel: "Ön yol",
+      totalTravel: "Toplam yol",
+      sound: "Ses",
+    },
+    travel: "Yol (mm)",
+    force: "Kuvvet (gf)",
+    actuationPoint: "Aktivasyon noktası",
+  },
+  customColor: {
+    open: "Özel Renk",
+    palettes: { anodization: "Eloksal paleti", pbtDye: "PBT boya paleti" },
+    requested: "İstenen",
+    produced: "Üretilecek ton",
+    exact: "Birebir karşılık",
+    deltaE: (value) => `Fark ΔE ${value}`,
+    recent: "Son kullanılanlar",
+    surcharge: (price) => `Özel renk ek ücreti ${price}`,
+    apply: "Uygula",
+  },
+  caseMods: {
+    "case-foam": { name: "Kasa Köpüğü", description: "Boşluk yankısını keser" },
+    "plate-foam": { name: "Plate Köpüğü", description: "Tiz çınlamayı yumuşatır" },
+    tape: { name: "Tape Mod", description: "Daha derin, tok ses" },
+  },
+  compatibility: {
+    "full-size-flat-profiles": "XDA / DSA setlerinde numpad kiti yok",
+    "wood-case-size": "Ahşap kasa yalnızca standart kompakt boyutlarda üretiliyor",
+    "aluminum-anodizing": "Alüminyum kasada beyaz eloksal yapılamıyor",
+    "polycarbonate-tints": "Polikarbonat kasa yalnızca şeffaf / füme tonlarda",
+    "custom-anodizing": "Özel eloksal renkleri yalnızca alüminyum kasada uygulanabiliyor",
+  },
+  configurator: {
+    outOfStock: "Stokta yok",
+    soldOut: "Tükendi",
+    incompatible: "Uyumsuz",
+    changesNeeded: (option) => `${option} için değişiklik gerekiyor`,
+    cancel: "Vazgeç",
+    apply: "Uygula",
+    brightness: "Parlaklık",
+    speed: "Hız",
+    soundTuning: "Ses Ayarı",
+    listen: "Dinle",
+    remove: "Sil",
+    customSwitchName: "Özel switch adı",
+    customSwitch: {
+      name: (base) => `${base} (Özel)`,
+      description: (base) => `Özel ses · ${base}`,
+    },
+    saveAsSwitch: "Switch olarak kaydet",
+    reset: "Sıfırla",
+    paintHint: "Renk seç, sahnede tuşa tıkla",
+    clearPainted: (count) => `${count} boyalı tuşu temizle`,
+    customKeys: (count) => `${count} özel tuş`,
+  },
+  priceLines: {
+    base: "Temel fiyat",
+    body: "Gövde",
+    material: "Kasa malzemesi",
+    keycaps: "Keycap seti",
+    multiZone: "Çok bölgeli renk",
+    paintedKeys: "Boyalı tuş",
+    switches: "Switch",
+    layout: "Layout",
+    profile: "Keycap profili",
+    legends: "Legend",
+    customColor: "Özel renk",
+    rgb: "RGB aydınlatma",
+    caseMods: "Sönümleme modları",
+  },
+  checkout: {
+    cta: "Sipariş Ver",
+    titles: {
+      review: "Sipariş Özeti",
+      details: "Teslimat Bilgileri",
+      done: "Sipariş Alındı",
+      lookup: "Sipariş Sorgula",
+    },
+    total: "Toplam",
+    previewAlt: "Yapılandırılan klavye",
+    lookupPrevious: "Önceki siparişi sorgula",
+    next: "Devam",
+    back: "Özet",
+    submitting: "Gönderiliyor…",
+    confirm: "Siparişi Onayla",
+    trackHint: "Siparişini bu numarayla sorgulayabilirsin:",
+    copy: "Kopyala",
+    orderNumber: "Sipariş numarası:",
+    search: "Sorgula",
+    notFound: "Bu numarayla bir sipariş bulunamadı",
+    lookupFailed: "Sipariş sorgulanamadı",
+    received: "Sipariş alındı",
+    fields: {
+      name: "Ad Soyad",
+      email: "E-posta",
+      phone: "Telefon",
+      address: "Adres",
+      city: "Şehir",
+      postalCode: "Posta Kodu",
+      country: "Ülke",
+      notes: "Not (isteğe bağlı)",
+    },
+    fieldErrors: {
+      name: "Ad soyad en az 3 karakter olmalı",
+      email: "Geçerli bir e-posta adresi gir",
+      phone: "Telefon 10–15 haneli olmalı",
+      address: "Adres çok kısa",
+      city: "Şehir gerekli",
+      postalCode: "Geçersiz posta kodu",
+      country: "Ülke gerekli",
+    },
+    errors: {
+      tooLarge: "İstek çok büyük",
+      invalidJson: "İstek gövdesi JSON değil",
+      catalogUnavailable: "Katalog şu anda kullanılamıyor",
+      invalidOrder: "Sipariş bilgileri geçersiz",
+      priceChanged: "Fiyat güncellendi, lütfen yeni tutarı onayla",
+      saveFailed: "Sipariş kaydedilemedi",
+      notFound: "Sipariş bulunamadı",
+      rejected: "Sipariş alınamadı",
+      unreachable: "Sunucuya ulaşılamadı",
+    },
+    issues: {
+      requestInvalid: "İstek gövdesi geçersiz",
+      configMissing: "Yapılandırma eksik",
+      optionsMissing: "Seçenekler eksik",
+      customLayoutInvalid: "Özel layout verisi eksik veya geçersiz",
+      keycapColorsInvalid: "Keycap renkleri geçersiz",
+      keycapMismatch: "Keycap seçimi tutarsız",
+      paintedKeysInvalid: "Boyalı tuşlar geçersiz",
+      legendFontInvalid: "Legend fontu geçersiz",
+      legendPositionInvalid: "Legend konumu geçersiz",
+      lightingInvalid: "Aydınlatma ayarları geçersiz",
+      caseModsInvalid: "Sönümleme modları geçersiz",
+      quoteMissing: "Fiyat bilgisi eksik",
+      previewInvalid: "Önizleme görseli geçersiz",
+      customerMissing: "Müşteri bilgileri eksik",
+    },
+    unknownOption: (category, option) => `${category}: bilinmeyen seçenek "${option}"`,
+    optionUnavailable: (category, option) => `${category}: "${option}" stokta yok`,
+  },
+  builds: {
+    open: "Kayıtlı yapılandırmalar",
+    title: "Kayıtlı Yapılandırmalar",
+    newName: "Yeni kayıt adı",
+    save: "Kaydet",
+    saveCurrent: "Mevcut yapılandırmayı kaydet",
+    full: "Kütüphane dolu – önce bir kaydı sil",
+    storageError: "Kaydedilemedi – tarayıcı depolaması dolu veya kapalı",
+    empty: "Henüz kayıt yok – mevcut yapılandırmayı bir adla kaydet.",
+    load: "Editöre yükle",
+    name: "Kayıt adı",
+    rename: "Yeniden adlandır",
+    duplicate: "Çoğalt",
+    pinAs: (slot) => `Karşılaştırma ${slot} olarak sabitle`,
+    remove: "Sil",
+    cancel: "Vazgeç",
+    defaultName: (n) => `Yapılandırma ${n}`,
+    copyName: (name) => `${name} (kopya)`,
+  },
+  compare: {
+    open: "Karşılaştır",
+    emptySlot: "Boş",
+    pinCurrent: "Mevcut yapılandırmayı sabitle",
+    load: "Editöre yükle",
+    clear: "Temizle",
+    pinTwoFirst: "Önce iki yapılandırma sabitle",
+    backToEditor: "Editöre dön",
+    sideBySide: "Yan yana göster",
+    title: "Karşılaştırma",
+    identical: "Yapılandırmalar aynı",
+    total: "Toplam",
+    showAll: "Tüm alanları göster",
+    showDiff: "Yalnızca farkları göster",
+    close: "Karşılaştırmayı kapat",
+    rows: {
+      keycapZones: "Keycap bölgeleri",
+      painted: "Boyalı tuş",
+      lighting: "Işık efekti",
+      caseMods: "Sönümleme",
+    },
+  },
+  exportPanel: {
+    open: "Görsel / video dışa aktar",
+    title: "Dışa Aktar",
+    resolution: "Çözünürlük",
+    sizes: { fhd: "Full HD", uhd: "4K", square: "Kare" },
+    width: "Genişlik",
+    height: "Yükseklik",
+    camera: "Kamera",
+    cameraPresets: { current: "Mevcut", isometric: "İzometrik", top: "Üst", side: "Yan" },
+    background: "Arka plan",
+    backgrounds: { transparent: "Saydam", brand: "Marka", scene: "Sahne" },
+    png: "PNG indir",
+    turntable: "Turntable",
+    turntableInfo: (fps) => `Kareler ekran dışında sabit adımlarla çizilir · ${fps} fps`,
+    opaqueVideo: "video saydam olamaz, sahne rengi kullanılır",
+    format: "Format",
+    duration: "Tur süresi",
+    seconds: (n) => `${n} sn`,
+    cancel: "İptal",
+    create: (format) => `${format} oluştur`,
+    failed: "Dışa aktarma başarısız",
+    errors: {
+      notReady: "3D sahne hazır değil",
+      pngFailed: "PNG oluşturulamadı",
+      webmUnsupported: "Bu tarayıcı WebM kodlamayı desteklemiyor – GIF dene",
+      noEncoder: "VP8 / VP9 kodlayıcı bulunamadı",
+    },
+  },
+  recorder: {
+    record: "Tuş kaydı başlat",
+    finish: "Kaydı bitir",
+    stop: "Durdur",
+    play: (name) => `Oynat: ${name}`,
+    noRecording: "Kayıt yok",
+    loop: "Döngü",
+    download: "Kaydı JSON olarak indir",
+    import: "Kayıt içe aktar",
+    demo: "Demo kaydını oynat",
+    readFailed: "Kayıt okunamadı",
+    demoFailed: "Demo kaydı yüklenemedi",
+    defaultName: (time) => `Kayıt ${time}`,
+    errors: {
+      invalidJson: "Dosya geçerli bir JSON değil",
+      notObject: "Kayıt nesnesi bekleniyordu",
+      unsupportedVersion: (version) => `Desteklenmeyen kayıt sürümü: ${version}`,
+      noEvents: "Kayıtta tuş olayı yok",
+      invalidEvent: (index) => `${index}. olay geçersiz`,
+    },
+  },
+  typingTest: {
+    open: "Yazma testi",
+    close: "Yazma testini kapat",
+    title: "Yazma Testi",
+    result: "Sonuç",
+    newPassage: "Yeni metin",
+    startHint: "Yazmaya başladığında süre işlemeye başlar",
+    accuracy: "Doğruluk",
+    time: "Süre",
+    best: "En İyi",
+    previous: "Önceki:",
+    accuracyOf: (percent) => `${percent} doğruluk`,
+    heatmap: "Isı haritası",
+    correct: "doğru",
+    wrong: "hatalı",
+    brightness: "parlaklık = sıklık",
+  },
+  kleImport: {
+    open: "KLE Layout İçe Aktar",
+    subtitle: 'keyboard-layout-editor.com "Raw data" veya JSON',
+    upload: "Dosya yükle",
+    submit: "İçe Aktar",
+    failed: "Layout okunamadı – beklenmeyen hata",
+    at: (row, key) => (key === undefined ? `Satır ${row}: ` : `Satır ${row}, tuş ${key}: `),
+    errors: {
+      empty: "Boş girdi",
+      invalidJson: "Geçersiz JSON",
+      rootNotArray: "Kök öğe satır dizisi olmalı",
+      rowNotArray: "Satır bir dizi olmalı",
+      invalidItem: "Tuş öğesi metin veya özellik nesnesi olmalı",
+      notNumber: (property) => `"${property}" sayı olmalı`,
+      notPositive: (property) => `"${property}" sıfırdan büyük olmalı`,
+      noKeys: "Layout hiç tuş içermiyor",
+    },
+  },
+};
+
+/* ——————————————————————————————————————————————
+   English
+   —————————————————————————————————————————————— */
+
+export const en: Messages = {
+  meta: {
+    title: "MECHCONFIG — Premium Keyboard Configurator",
+    description:
+      "Interactive 3D mechanical keyboard configurator built with Next.js, React Three Fiber, and Framer Motion.",
+  },
+  page: {
+    loading: "Loading 3D Experience…",
+    tagline: "Premium Keyboard Configurator",
+    live: "Interactive",
+    hint: "Press keys on your keyboard ⌨",
+    share: "Share configuration",
+    linkCopied: "Link copied",
+    copyPrompt: "Copy the link:",
+    mute: "Mute",
+    unmute: "Unmute",
+    volume: "Volume",
+    undo: "Undo (Ctrl+Z)",
+    redo: "Redo (Ctrl+Shift+Z)",
+    shareIssueTitle: "The shared configuration couldn't be fully loaded",
+    shareIssueBody: "Unrecognized or incompatible options were changed:",
+    shareParams: {
+      tab: "Tab",
+      sound: "Volume",
+      lfont: "Legend font",
+      lpos: "Legend position",
+      mods: "Modifier color",
+      accents: "Accent color",
+      paint: "Painted key",
+      fx: "Lighting effect",
+      fxspeed: "Effect speed",
+      fxbright: "Lighting brightness",
+      addons: "Dampening mod",
+    },
+    close: "Close",
+    explodedView: "Exploded view – show switches",
+    separateLayers: "Separate case, foam, PCB and plate layers",
+    inspect: "Free inspect – zoom / pan, double-click to focus",
+    cameraViews: { home: "Default", isometric: "Isometric", front: "Front", top: "Top", side: "Side" },
+    localeTitle: "Language & currency",
+    language: "Language",
+    currency: "Currency",
+    catalogUnavailable: "Prices are currently unavailable",
+  },
+  categories: {
+    body: { label: "Body", subtitle: "Case Color" },
+    material: { label: "Material", subtitle: "Case & Acoustics" },
+    keycaps: { label: "Keycaps", subtitle: "Keycap Set" },
+    switches: { label: "Switch", subtitle: "Switch Type" },
+    layout: { label: "Layout", subtitle: "Form Factor" },
+    legends: { label: "Legends", subtitle: "Key Labels" },
+    profile: { label: "Profile", subtitle: "Keycap Shape" },
+    lighting: { label: "Lighting", subtitle: "RGB Backlight" },
+  },
+  options: {
+    body: {
+      midnight: { name: "Midnight Black" },
+      silver: { name: "Space Silver" },
+      arctic: { name: "Arctic White" },
+      navy: { name: "Navy Blue" },
+      burgundy: { name: "Burgundy Red" },
+      forest: { name: "Forest Green" },
+      rose: { name: "Rose Gold" },
+    },
+    material: {
+      plastic: { name: "ABS Plastic", description: "Lightweight · Muted resonance" },
+      aluminum: { name: "CNC Aluminum", description: "Heavy · Bright, ringing sound" },
+      polycarbonate: { name: "Polycarbonate", description: "Translucent · Soft, full sound" },
+      wood: { name: "Walnut Wood", description: "Natural grain · Deep, warm sound" },
+    },
+    keycaps: {
+      charcoal: { name: "Charcoal" },
+      cream: { name: "Cream White" },
+      matcha: { name: "Retro Matcha" },
+      lavender: { name: "Lavender Haze" },
+      coral: { name: "Coral Pink" },
+      sky: { name: "Sky Blue" },
+      sunset: { name: "Sunset Orange" },
+    },
+    switches: {
+      red: { name: "Cherry MX Red" },
+      blue: { name: "Cherry MX Blue" },
+      brown: { name: "Cherry MX Brown" },
+      speed: { name: "Speed Silver" },
+      black: { name: "Cherry MX Black" },
+    },
+    layout: {
+      "60": { name: "Compact 60%", description: "61 keys · No arrows" },
+      "65": { name: "Compact 65%", description: "68 keys · Arrow keys" },
+      "75": { name: "Exploded 75%", description: "84 keys · F-row" },
+      tkl: { name: "Tenkeyless", description: "87 keys · No numpad" },
+      full: { name: "Full-size", description: "104 keys · Numpad" },
+      custom: { name: "Custom (KLE)", description: "Imported layout" },
+    },
+    legends: {
+      white: { name: "Snow White" },
+      black: { name: "Ink Black" },
+      gold: { name: "Gold Foil" },
+      violet: { name: "Violet" },
+      mint: { name: "Mint" },
+      red: { name: "Signal Red" },
+    },
+    profile: {
+      cherry: { name: "Cherry", description: "Low · Cylindrical dish · Sculpted" },
+      oem: { name: "OEM", description: "Medium height · Cylindrical dish" },
+      sa: { name: "SA", description: "Tall · Spherical dish · Retro" },
+      xda: { name: "XDA", description: "Uniform · Wide top surface" },
+      dsa: { name: "DSA", description: "Uniform · Low · Spherical dish" },
+    },
+    lighting: {
+      white: { name: "Cool White" },
+      violet: { name: "Ultra Violet" },
+      cyan: { name: "Ice Cyan" },
+      magenta: { name: "Magenta" },
+      red: { name: "Laser Red" },
+      green: { name: "Neon Green" },
+      amber: { name: "Amber" },
+    },
+  },
+  keyZones: { alphas: "Alphas", modifiers: "Modifiers", accents: "Accents" },
+  keycapTargets: { all: "All", paint: "Paint" },
+  legendPositions: { top: "Top", front: "Front", blank: "Blank" },
+  lightingEffects: {
+    off: "Off",
+    static: "Static",
+    breathing: "Breathing",
+    wave: "Wave",
+    reactive: "Reactive",
+    spectrum: "Spectrum",
+  },
+  soundParams: {
+    baseFreq: "Body",
+    clickFreq: "Click",
+    filterFreq: "Filter",
+    filterQ: "Resonance",
+    thockDecay: "Thock",
+    clickDecay: "Click Decay",
+    volume: "Level",
+  },
+  switchSpecs: {
+    open: "Specs",
+    title: "Switch Comparison",
+    subtitle: "Force vs. travel while pressing",
+    types: { linear: "Linear", tactile: "Tactile", clicky: "Clicky" },
+    soundLevels: { 1: "Very quiet", 2: "Quiet", 3: "Moderate", 4: "Loud", 5: "Very loud" },
+    columns: {
+      name: "Switch",
+      type: "Type",
+      actuation: "Actuation",
+      bottomOut: "Bottom-out",
+      preTravel: "Pre-travel",
+      totalTravel: "Total travel",
+      sound: "Sound",
+    },
+    travel: "Travel (mm)",
+    force: "Force (gf)",
+    actuationPoint: "Actuation point",
+  },
+  customColor: {
+    open: "Custom Color",
+    palettes: { anodization: "Anodization palette", pbtDye: "PBT dye palette" },
+    requested: "Requested",
+    produced: "Produced as",
+    exact: "Exact match",
+    deltaE: (value) => `Difference ΔE ${value}`,
+    recent: "Recent",
+    surcharge: (price) => `Custom color surcharge ${price}`,
+    apply: "Apply",
+  },
+  caseMods: {
+    "case-foam": { name: "Case Foam", description: "Cuts hollow cavity echo" },
+    "plate-foam": { name: "Plate Foam", description: "Softens high-pitched ping" },
+    tape: { name: "Tape Mod", description: "Deeper, thockier sound" },
+  },
+  compatibility: {
+    "full-size-flat-profiles": "XDA / DSA sets don't include a numpad kit",
+    "wood-case-size": "Wooden cases only come in standard compact sizes",
+    "aluminum-anodizing": "White anodizing isn't available on aluminum cases",
+    "polycarbonate-tints": "Polycarbonate cases only come in clear / smoked tints",
+    "custom-anodizing": "Custom anodized colors are only available on aluminum cases",
+  },
+  configurator: {
+    outOfStock: "Out of stock",
+    soldOut: "Sold out",
+    incompatible: "Incompatible",
+    changesNeeded: (option) => `${option} requires other changes`,
+    cancel: "Cancel",
+    apply: "Apply",
+    brightness: "Brightness",
+    speed: "Speed",
+    soundTuning: "Sound Tuning",
+    listen: "Listen",
+    remove: "Delete",
+    customSwitchName: "Custom switch name",
+    customSwitch: {
+      name: (base) => `${base} (Custom)`,
+      description: (base) => `Custom sound · ${base}`,
+    },
+    saveAsSwitch: "Save as switch",
+    reset: "Reset",
+    paintHint: "Pick a color, then click a key in the scene",
+    clearPainted: (count) => `Clear ${count} painted ${count === 1 ? "key" : "keys"}`,
+    customKeys: (count) => `${count} custom ${count === 1 ? "key" : "keys"}`,
+  },
+  priceLines: {
+    base: "Base price",
+    body: "Body",
+    material: "Case material",
+    keycaps: "Keycap set",
+    multiZone: "Multi-zone colorway",
+    paintedKeys: "Painted keys",
+    switches: "Switches",
+    layout: "Layout",
+    profile: "Keycap profile",
+    legends: "Legends",
+    customColor: "Custom color",
+    rgb: "RGB lighting",
+    caseMods: "Dampening mods",
+  },
+  checkout: {
+    cta: "Place Order",
+    titles: {
+      review: "Order Summary",
+      details: "Shipping Details",
+      done: "Order Received",
+      lookup: "Find an Order",
+    },
+    total: "Total",
+    previewAlt: "Configured keyboard",
+    lookupPrevious: "Look up a previous order",
+    next: "Continue",
+    back: "Summary",
+    submitting: "Sending…",
+    confirm: "Confirm Order",
+    trackHint: "You can look up your order with this number:",
+    copy: "Copy",
+    orderNumber: "Order number:",
+    search: "Search",
+    notFound: "No order found with this number",
+    lookupFailed: "Couldn't look up the order",
+    received: "Order received",
+    fields: {
+      name: "Full name",
+      email: "Email",
+      phone: "Phone",
+      address: "Address",
+      city: "City",
+      postalCode: "Postal code",
+      country: "Country",
+      notes: "Notes (optional)",
+    },
+    fieldErrors: {
+      name: "Name must be at least 3 characters",
+      email: "Enter a valid email address",
+      phone: "Phone must be 10–15 digits",
+      address: "Address is too short",
+      city: "City is required",
+      postalCode: "Invalid postal code",
+      country: "Country is required",
+    },
+    errors: {
+      tooLarge: "Request is too large",
+      invalidJson: "Request body is not JSON",
+      catalogUnavailable: "The catalog is currently unavailable",
+      invalidOrder: "Order details are invalid",
+      priceChanged: "The price was updated, please confirm the new total",
+      saveFailed: "The order couldn't be saved",
+      notFound: "Order not found",
+      rejected: "The order couldn't be placed",
+      unreachable: "Couldn't reach the server",
+    },
+    issues: {
+      requestInvalid: "Request body is invalid",
+      configMissing: "Configuration is missing",
+      optionsMissing: "Options are missing",
+      customLayoutInvalid: "Custom layout data is missing or invalid",
+      keycapColorsInvalid: "Keycap colors are invalid",
+      keycapMismatch: "Keycap selection is inconsistent",
+      paintedKeysInvalid: "Painted keys are invalid",
+      legendFontInvalid: "Legend font is invalid",
+      legendPositionInvalid: "Legend position is invalid",
+      lightingInvalid: "Lighting settings are invalid",
+      caseModsInvalid: "Dampening mods are invalid",
+      quoteMissing: "Quoted price is missing",
+      previewInvalid: "Preview image is invalid",
+      customerMissing: "Customer details are missing",
+    },
+    unknownOption: (category, option) => `${category}: unknown option "${option}"`,
+    optionUnavailable: (category, option) => `${category}: "${option}" is out of stock`,
+  },
+  builds: {
+    open: "Saved builds",
+    title: "Saved Builds",
+    newName: "New build name",
+    save: "Save",
+    saveCurrent: "Save the current build",
+    full: "Library is full – delete a build first",
+    storageError: "Couldn't save – browser storage is full or disabled",
+    empty: "No builds yet – save the current build under a name.",
+    load: "Load into editor",
+    name: "Build name",
+    rename: "Rename",
+    duplicate: "Duplicate",
+    pinAs: (slot) => `Pin as comparison ${slot}`,
+    remove: "Delete",
+    cancel: "Cancel",
+    defaultName: (n) => `Build ${n}`,
+    copyName: (name) => `${name} (copy)`,
+  },
+  compare: {
+    open: "Compare",
+    emptySlot: "Empty",
+    pinCurrent: "Pin the current build",
+    load: "Load into editor",
+    clear: "Clear",
+    pinTwoFirst: "Pin two builds first",
+    backToEditor: "Back to editor",
+    sideBySide: "Show side by side",
+    title: "Comparison",
+    identical: "The builds are identical",
+    total: "Total",
+    showAll: "Show all fields",
+    showDiff: "Show differences only",
+    close: "Close comparison",
+    rows: {
+      keycapZones: "Keycap zones",
+      painted: "Painted keys",
+      lighting: "Lighting effect",
+      caseMods: "Dampening",
+    },
+  },
+  exportPanel: {
+    open: "Export image / video",
+    title: "Export",
+    resolution: "Resolution",
+    sizes: { fhd: "Full HD", uhd: "4K", square: "Square" },
+    width: "Width",
+    height: "Height",
+    camera: "Camera",
+    cameraPresets: { current: "Current", isometric: "Isometric", top: "Top", side: "Side" },
+    background: "Background",
+    backgrounds: { transparent: "Transparent", brand: "Brand", scene: "Scene" },
+    png: "Download PNG",
+    turntable: "Turntable",
+    turntableInfo: (fps) => `Frames are rendered off-screen in fixed steps · ${fps} fps`,
+    opaqueVideo: "video can't be transparent, the scene color is used",
+    format: "Format",
+    duration: "Spin duration",
+    seconds: (n) => `${n} s`,
+    cancel: "Cancel",
+    create: (format) => `Create ${format}`,
+    failed: "Export failed",
+    errors: {
+      notReady: "The 3D scene isn't ready",
+      pngFailed: "Couldn't create the PNG",
+      webmUnsupported: "This browser can't encode WebM – try GIF",
+      noEncoder: "No VP8 / VP9 encoder found",
+    },
+  },
+  recorder: {
+    record: "Start key recording",
+    finish: "Stop recording",
+    stop: "Stop",
+    play: (name) => `Play: ${name}`,
+    noRecording: "No recording",
+    loop: "Loop",
+    download: "Download recording as JSON",
+    import: "Import recording",
+    demo: "Play demo recording",
+    readFailed: "Couldn't read the recording",
+    demoFailed: "Couldn't load the demo recording",
+    defaultName: (time) => `Recording ${time}`,
+    errors: {
+      invalidJson: "The file isn't valid JSON",
+      notObject: "Expected a recording object",
+      unsupportedVersion: (version) => `Unsupported recording version: ${version}`,
+      noEvents: "The recording has no key events",
+      invalidEvent: (index) => `Event ${index} is invalid`,
+    },
+  },
+  typingTest: {
+    open: "Typing test",
+    close: "Close typing test",
+    title: "Typing Test",
+    result: "Result",
+    newPassage: "New passage",
+    startHint: "The timer starts when you start typing",
+    accuracy: "Accuracy",
+    time: "Time",
+    best: "Best",
+    previous: "Previous:",
+    accuracyOf: (percent) => `${percent} accuracy`,
+    heatmap: "Heatmap",
+    correct: "correct",
+    wrong: "wrong",
+    brightness: "brightness = frequency",
+  },
+  kleImport: {
+    open: "Import KLE Layout",
+    subtitle: 'keyboard-layout-editor.com "Raw data" or JSON',
+    upload: "Upload file",
+    submit: "Import",
+    failed: "Couldn't read the layout – unexpected error",
+    at: (row, key) => (key === undefined ? `Row ${row}: ` : `Row ${row}, key ${key}: `),
+    errors: {
+      empty: "Empty input",
+      invalidJson: "Invalid JSON",
+      rootNotArray: "The root must be an array of rows",
+      rowNotArray: "A row must be an array",
+      invalidItem: "A key item must be a label or a property object",
+      notNumber: (property) => `"${property}" must be a number`,
+      notPositive: (property) => `"${property}" must be greater than zero`,
+      noKeys: "The layout has no keys",
+    },
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * Offscreen Render
+ * ─────────────────
+ * Dışa aktarma için sahneyi render target'lara çizer: ekrandaki canvas ve
+ * kamera değişmez, animasyon ilerlemez – aynı girdi aynı kareyi üretir.
+ * Büyük çözünürlükler `setViewOffset` ile parçalara bölünür; her parça HDR
+ * hedefe çizilip `OutputPass` ile ton eşleme + sRGB uygulanır (render
+ * target'a çizerken renderer bunları kendisi yapmaz).
+ */
+
+import * as THREE from "three";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import type { RenderOptions } from "@/lib/sceneCapture";
+import { CAMERA_VIEWS, boundingSphere, framePosition } from "@/lib/cameraViews";
+
+/** Kadrajlanan nesnenin adı – Scene modeli bu isimli grubun içine koyar */
+export const EXPORT_SUBJECT = "export-subject";
+
+const TILE_SIZE = 2048;
+const MSAA_SAMPLES = 4;
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+function exportCamera(
+  camera: THREE.PerspectiveCamera,
+  scene: THREE.Scene,
+  orbitTarget: THREE.Vector3,
+  { width, height, preset, turn = 0 }: RenderOptions
+) {
+  const view = camera.clone();
+  view.aspect = width / height;
+
+  // Mevcut görünüm: OrbitControls hedefi etrafında döndürülür
+  if (preset === "current") {
+    view.position.sub(orbitTarget).applyAxisAngle(UP, turn).add(orbitTarget);
+    view.lookAt(orbitTarget);
+    return view;
+  }
+
+  const sphere = boundingSphere(scene.getObjectByName(EXPORT_SUBJECT));
+  framePosition(sphere, view, CAMERA_VIEWS[preset], view.position, turn);
+  view.lookAt(sphere.center);
+  return view;
+}
+
+/** Render target'tan okunan satırlar alttan üste ve alfa ile çarpılmış */
+function copyTile(source: Uint8Array, target: ImageData) {
+  const { width: w, height: h, data } = target;
+  for (let row = 0; row < h; row++) {
+    const from = (h - 1 - row) * w * 4;
+    const to = row * w * 4;
+    for (let i = 0; i < w * 4; i += 4) {
+      const a = source[from + i + 3];
+      const k = a > 0 && a < 255 ? 255 / a : 1;
+      data[to + i] = source[from + i] * k;
+      data[to + i + 1] = source[from + i + 1] * k;
+      data[to + i + 2] = source[from + i + 2] * k;
+      data[to + i + 3] = a;
+    }
+  }
+}
+
+/** `orbitTarget`: kameranın etrafında döndüğü nokta (odaklanınca orijin değil) */
+export function createOffscreenRenderer(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  orbitTarget: () => THREE.Vector3
+) {
+  return (options: RenderOptions): HTMLCanvasElement => {
+    const { width, height } = options;
+    const view = exportCamera(camera, scene, orbitTarget(), options);
+    const tile = Math.min(TILE_SIZE, gl.capabilities.maxTextureSize);
+
+    const hdr = new THREE.WebGLRenderTarget(tile, tile, {
+      type: THREE.HalfFloatType,
+      samples: MSAA_SAMPLES,
+    });
+    const ldr = new THREE.WebGLRenderTarget(tile, tile);
+    const output = new OutputPass();
+    const pixels = new Uint8Array(tile * tile * 4);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+
+    // Arka plan ve temizleme rengi saydam; sonra geri yüklenir
+    const background = scene.background;
+    const clearColor = gl.getClearColor(new THREE.Color());
+    const clearAlpha = gl.getClearAlpha();
+    const target = gl.getRenderTarget();
+    scene.background = null;
+    gl.setClearColor(0x000000, 0);
+
+    try {
+      for (let y = 0; y < height; y += tile) {
+        for (let x = 0; x < width; x += tile) {
+          const w = Math.min(tile, width - x);
+          const h = Math.min(tile, height - y);
+          view.setViewOffset(width, height, x, y, w, h);
+          hdr.setSize(w, h);
+          ldr.setSize(w, h);
+
+          gl.setRenderTarget(hdr);
+          gl.render(scene, view);
+          output.render(gl, ldr, hdr, 0, false);
+          gl.readRenderTargetPixels(ldr, 0, 0, w, h, pixels);
+
+          const image = ctx.createImageData(w, h);
+          copyTile(pixels, image);
+          ctx.putImageData(image, x, y);
+        }
+      }
+    } finally {
+      scene.background = background;
+      gl.setClearColor(clearColor, clearAlpha);
+      gl.setRenderTarget(target);
+      hdr.dispose();
+      ldr.dispose();
+      output.dispose();
+    }
+    return canvas;
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Order Store (yalnızca sunucu)
+ * ──────────────────────────────
+ * Siparişler `data/orders/<id>.json` olarak saklanır. Sipariş numarası
+ * desene uymuyorsa dosya sistemine hiç dokunulmaz.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ORDER_ID_PATTERN, type Order } from "@/lib/orders";
+
+const ORDERS_DIR = path.join(process.cwd(), "data", "orders");
+
+const orderPath = (id: string) => path.join(ORDERS_DIR, `${id}.json`);
+
+export async function saveOrder(order: Order) {
+  await mkdir(ORDERS_DIR, { recursive: true });
+  // "wx": aynı numara ikinci kez yazılamaz
+  await writeFile(orderPath(order.id), JSON.stringify(order, null, 2), { flag: "wx" });
+}
+
+export async function readOrder(id: string): Promise<Order | null> {
+  if (!ORDER_ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(orderPath(id), "utf8")) as Order;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
@@ -0,0 +1,153 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Catalog } from "@/lib/catalog";
+import { readCatalog } from "@/lib/catalogSource";
+import { parseKle } from "@/lib/kle";
+import { CUSTOM_LAYOUT_ID } from "@/lib/layouts";
+import {
+  configIssues,
+  EMPTY_CUSTOMER,
+  parseOrderRequest,
+  validateCustomer,
+  type CustomerDetails,
+  type OrderConfig,
+} from "@/lib/orders";
+import { pricedConfig, useConfiguratorStore } from "@/store/useConfiguratorStore";
+
+let catalog: Catalog;
+beforeAll(async () => {
+  catalog = await readCatalog();
+});
+
+/** Varsayılan yapılandırma – Checkout'un gönderdiği biçimde */
+const baseConfig = (): OrderConfig => {
+  const state = useConfiguratorStore.getState();
+  return {
+    ...pricedConfig(state),
+    legendFont: state.legendFont,
+    legendPosition: state.legendPosition,
+    lightingSpeed: state.lightingSpeed,
+    lightingBrightness: state.lightingBrightness,
+  };
+};
+
+const customer: CustomerDetails = {
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  phone: "+44 20 7946 0958",
+  address: "12 St James's Square",
+  city: "London",
+  postalCode: "SW1Y 4JH",
+  country: "United Kingdom",
+  notes: "",
+};
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  config: baseConfig(),
+  customer,
+  quotedTotal: 129,
+  ...overrides,
+});
+
+describe("configIssues", () => {
+  it("accepts the default configuration", () => {
+    expect(configIssues(catalog, baseConfig(), null)).toEqual([]);
+  });
+
+  it("reports unknown option ids with their category", () => {
+    const config = baseConfig();
+    config.selectedOptions = { ...config.selectedOptions, body: "plaid" };
+    expect(configIssues(catalog, config, null)).toContainEqual({
+      id: "unknownOption",
+      category: "body",
+      option: "plaid",
+    });
+  });
+
+  it("rejects painted keys that are not on the selected layout", () => {
+    const config = baseConfig();
+    config.keyOverrides = { NotAKey: config.colorway.alphas };
+    expect(configIssues(catalog, config, null)).toEqual([{ id: "paintedKeysInvalid" }]);
+  });
+
+  it("requires the imported layout when the custom layout is selected", () => {
+    const config = baseConfig();
+    config.selectedOptions = { ...config.selectedOptions, layout: CUSTOM_LAYOUT_ID };
+    expect(configIssues(catalog, config, null)).toContainEqual({ id: "customLayoutInvalid" });
+  });
+
+  it("needs a config object", () => {
+    expect(configIssues(catalog, "nope", null)).toEqual([{ id: "configMissing" }]);
+  });
+});
+
+describe("parseOrderRequest", () => {
+  it("drops fields the client is not allowed to set", () => {
+    const config = { ...baseConfig(), activeCategory: "body", price: 1 };
+    const parsed = parseOrderRequest(
+      catalog,
+      request({ config, customer: { ...customer, admin: true }, status: "shipped" })
+    );
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.request.config).toEqual(baseConfig());
+    expect(parsed.request.customer).toEqual(customer);
+    expect(parsed.request).not.toHaveProperty("status");
+  });
+
+  it("only keeps the layout when the custom layout is selected", () => {
+    const layout = parseKle('[["Esc","1"],["Tab","Q"]]');
+    const stock = parseOrderRequest(catalog, request({ layout }));
+    expect(stock).toMatchObject({ ok: true });
+    expect(stock.ok && stock.request.layout).toBeUndefined();
+
+    const config = baseConfig();
+    config.selectedOptions = { ...config.selectedOptions, layout: CUSTOM_LAYOUT_ID };
+    const custom = parseOrderRequest(catalog, request({ config, layout }));
+    expect(custom.ok && custom.request.layout?.keys).toHaveLength(4);
+  });
+
+  it("collects request issues and customer field errors together", () => {
+    const parsed = parseOrderRequest(
+      catalog,
+      request({ quotedTotal: "129", preview: "data:image/png;base64,", customer: EMPTY_CUSTOMER })
+    );
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues).toEqual([{ id: "quoteMissing" }, { id: "previewInvalid" }]);
+    expect(Object.keys(parsed.fields ?? {})).toContain("email");
+  });
+
+  it("rejects a missing customer and non-object bodies", () => {
+    expect(parseOrderRequest(catalog, request({ customer: undefined }))).toEqual({
+      ok: false,
+      issues: [{ id: "customerMissing" }],
+    });
+    expect(parseOrderRequest(catalog, null)).toEqual({
+      ok: false,
+      issues: [{ id: "requestInvalid" }],
+    });
+  });
+});
+
+describe("validateCustomer", () => {
+  it("accepts complete details", () => {
+    expect(validateCustomer(customer)).toEqual({});
+  });
+
+  it("flags every required field of an empty form", () => {
+    expect(Object.keys(validateCustomer(EMPTY_CUSTOMER)).sort()).toEqual([
+      "address",
+      "city",
+      "country",
+      "email",
+      "name",
+      "phone",
+      "postalCode",
+    ]);
+  });
+
+  it("limits field lengths", () => {
+    const errors = validateCustomer({ ...customer, notes: "x".repeat(501) });
+    expect(Object.keys(errors)).toEqual(["notes"]);
+  });
+});
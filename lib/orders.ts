@@ -0,0 +1,505 @@
+/**
+ * Orders
+ * ───────
+ * Sipariş isteği / kaydı tipleri, müşteri formu doğrulaması ve yapılandırmanın
+ * katalog karşısında doğrulanması. Doğrulama hem formda (anında geri bildirim)
+ * hem de `POST /api/orders`'ta (yetkili kontrol) aynı fonksiyonlarla yapılır.
+ */
+
+import {
+  CATEGORIES,
+  KEY_ZONES,
+  type Category,
+  type ConfigSnapshot,
+} from "@/store/useConfiguratorStore";
+import {
+  CUSTOM_LAYOUT_ID,
+  getLayout,
+  type KeyboardLayout,
+  type LayoutKey,
+} from "@/lib/layouts";
+import { LEGEND_FONTS, LEGEND_POSITIONS } from "@/lib/legends";
+import {
+  isLightingEffect,
+  LIGHTING_BRIGHTNESS,
+  LIGHTING_SPEED,
+} from "@/lib/lighting";
+import type { Catalog } from "@/lib/catalog";
+import { paletteColor } from "@/lib/colorPalettes";
+import { violations, type Selection } from "@/lib/compatibility";
+import type { PriceLine } from "@/lib/pricing";
+
+/* ——————————————————————————————————————————————
+   Tipler
+   —————————————————————————————————————————————— */
+
+export interface CustomerDetails {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  country: string;
+  notes: string;
+}
+
+export type CustomerErrors = Partial<Record<keyof CustomerDetails, string>>;
+
+/** API hata kimliği – metni istemcide `checkout.errors` sözlüğünden */
+export type OrderErrorId =
+  | "tooLarge"
+  | "invalidJson"
+  | "catalogUnavailable"
+  | "invalidOrder"
+  | "priceChanged"
+  | "saveFailed"
+  | "notFound"
+  | "rejected"
+  | "unreachable";
+
+/** Parametresiz doğrulama sorunları (`checkout.issues`) */
+export type OrderIssueId =
+  | "requestInvalid"
+  | "configMissing"
+  | "optionsMissing"
+  | "customLayoutInvalid"
+  | "keycapColorsInvalid"
+  | "keycapMismatch"
+  | "paintedKeysInvalid"
+  | "legendFontInvalid"
+  | "legendPositionInvalid"
+  | "lightingInvalid"
+  | "caseModsInvalid"
+  | "quoteMissing"
+  | "previewInvalid"
+  | "customerMissing";
+
+export type OrderIssue =
+  | { id: OrderIssueId }
+  | { id: "unknownOption" | "optionUnavailable"; category: Category; option: string }
+  /** Uyumluluk kuralı ihlali – `rule`: kural id'si */
+  | { id: "incompatible"; rule: string };
+
+/** Üretime giden yapılandırma – yalnızca arayüz durumu (sekme, ses) çıkarılır */
+export type OrderConfig = Omit<ConfigSnapshot, "activeCategory" | "volume">;
+
+export interface OrderRequest {
+  /** Özel switch'ler kaynak switch id'sine çevrilmiş olarak gönderilir */
+  config: OrderConfig;
+  /** Layout "custom" ise içe aktarılan KLE layout'u */
+  layout?: KeyboardLayout;
+  customer: CustomerDetails;
+  /** Kullanıcıya gösterilen toplam – sunucu fiyatıyla eşleşmeli */
+  quotedTotal: number;
+  /** Küçük JPEG önizleme (data URL) */
+  preview?: string;
+}
+
+export interface Order extends Omit<OrderRequest, "quotedTotal"> {
+  id: string;
+  /** ISO tarih */
+  createdAt: string;
+  status: "received";
+  lines: PriceLine[];
+  total: number;
+  currency: string;
+}
+
+/** Sipariş sorgusunda dönen, kişisel veri içermeyen görünüm */
+export type OrderReceipt = Pick<
+  Order,
+  "id" | "createdAt" | "status" | "lines" | "total" | "currency" | "preview"
+>;
+
+/* ——————————————————————————————————————————————
+   Sipariş numarası
+   —————————————————————————————————————————————— */
+
+export const ORDER_ID_PATTERN = /^MK-[0-9A-Z]{6,12}-[0-9A-Z]{4}$/;
+
+export function createOrderId(): string {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = Math.floor(Math.random() * 36 ** 4)
+    .toString(36)
+    .toUpperCase()
+    .padStart(4, "0");
+  return `MK-${time}-${random}`;
+}
+
+/* ——————————————————————————————————————————————
+   Müşteri formu
+   —————————————————————————————————————————————— */
+
+export const CUSTOMER_FIELDS: {
+  id: keyof CustomerDetails;
+  type: "text" | "email" | "tel" | "textarea";
+  autoComplete: string;
+}[] = [
+  { id: "name", type: "text", autoComplete: "name" },
+  { id: "email", type: "email", autoComplete: "email" },
+  { id: "phone", type: "tel", autoComplete: "tel" },
+  { id: "address", type: "textarea", autoComplete: "street-address" },
+  { id: "city", type: "text", autoComplete: "address-level2" },
+  { id: "postalCode", type: "text", autoComplete: "postal-code" },
+  { id: "country", type: "text", autoComplete: "country-name" },
+  { id: "notes", type: "textarea", autoComplete: "off" },
+];
+
+export const EMPTY_CUSTOMER: CustomerDetails = {
+  name: "",
+  email: "",
+  phone: "",
+  address: "",
+  city: "",
+  postalCode: "",
+  country: "",
+  notes: "",
+};
+
+const MAX_FIELD_LENGTH = 200;
+const MAX_NOTES_LENGTH = 500;
+
+/** Alan adı → hata mesajı; boş nesne = geçerli */
+export function validateCustomer(customer: CustomerDetails): CustomerErrors {
+  const errors: CustomerErrors = {};
+  const value = (id: keyof CustomerDetails) => customer[id].trim();
+
+  if (value("name").length < 3) errors.name = "Ad soyad en az 3 karakter olmalı";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value("email"))) {
+    errors.email = "Geçerli bir e-posta adresi gir";
+  }
+  const digits = value("phone").replace(/[\s()+-]/g, "");
+  if (!/^\d{10,15}$/.test(digits)) errors.phone = "Telefon 10–15 haneli olmalı";
+  if (value("address").length < 10) errors.address = "Adres çok kısa";
+  if (value("city").length < 2) errors.city = "Şehir gerekli";
+  if (!/^[0-9A-Za-z -]{3,10}$/.test(value("postalCode"))) {
+    errors.postalCode = "Geçersiz posta kodu";
+  }
+  if (value("country").length < 2) errors.country = "Ülke gerekli";
+
+  for (const field of CUSTOMER_FIELDS) {
+    const max = field.id === "notes" ? MAX_NOTES_LENGTH : MAX_FIELD_LENGTH;
+    if (customer[field.id].length > max) errors[field.id] = `En fazla ${max} karakter`;
+  }
+  return errors;
+}
+
+/* ——————————————————————————————————————————————
+   Sunucu tarafı istek doğrulama
+   —————————————————————————————————————————————— */
+
+const MAX_PAINTED_KEYS = 200;
+const MAX_PREVIEW_LENGTH = 400_000;
+const MAX_LAYOUT_KEYS = 300;
+/** Tuş konumları / boyutları bu aralıkta olmalı (u) */
+const MAX_LAYOUT_EXTENT = 100;
+/** KLE etiket dizisi 12 konumludur */
+const MAX_KEY_LABELS = 12;
+const MAX_LABEL_LENGTH = 64;
+/** KeyboardEvent.code veya içe aktarmada atanan "kle-<n>" */
+const KEY_CODE_PATTERN = /^[A-Za-z][A-Za-z0-9-]{0,31}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const inRange = (value: unknown, range: { min: number; max: number }) =>
+  typeof value === "number" && value >= range.min && value <= range.max;
+
+const inExtent = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  Math.abs(value) <= MAX_LAYOUT_EXTENT;
+
+const isSize = (value: unknown): value is number => inExtent(value) && value > 0;
+
+const isKeyCode = (value: unknown): value is string =>
+  typeof value === "string" && KEY_CODE_PATTERN.test(value);
+
+/** Doğrulanmış tuşun yalnızca bilinen alanlarla yeni kopyası; geçersizse null */
+function parseLayoutKey(value: unknown): LayoutKey | null {
+  if (
+    !isRecord(value) ||
+    !isKeyCode(value.code) ||
+    !inExtent(value.x) ||
+    !inExtent(value.y) ||
+    !isSize(value.w) ||
+    !isSize(value.h) ||
+    !Number.isInteger(value.row) ||
+    !inRange(value.row, { min: 0, max: 4 })
+  ) {
+    return null;
+  }
+  const key: LayoutKey = {
+    code: value.code,
+    x: value.x,
+    y: value.y,
+    w: value.w,
+    h: value.h,
+    row: value.row as number,
+  };
+
+  const { secondary, rotation, labels } = value;
+  if (secondary !== undefined) {
+    if (
+      !isRecord(secondary) ||
+      !inExtent(secondary.x) ||
+      !inExtent(secondary.y) ||
+      !isSize(secondary.w) ||
+      !isSize(secondary.h)
+    ) {
+      return null;
+    }
+    key.secondary = { x: secondary.x, y: secondary.y, w: secondary.w, h: secondary.h };
+  }
+  if (rotation !== undefined) {
+    if (
+      !isRecord(rotation) ||
+      !inRange(rotation.angle, { min: -360, max: 360 }) ||
+      !inExtent(rotation.x) ||
+      !inExtent(rotation.y)
+    ) {
+      return null;
+    }
+    key.rotation = { angle: rotation.angle as number, x: rotation.x, y: rotation.y };
+  }
+  if (labels !== undefined) {
+    if (
+      !Array.isArray(labels) ||
+      labels.length > MAX_KEY_LABELS ||
+      !labels.every((l) => typeof l === "string" && l.length <= MAX_LABEL_LENGTH)
+    ) {
+      return null;
+    }
+    key.labels = [...labels];
+  }
+  return key;
+}
+
+/**
+ * İçe aktarılmış layout'un doğrulanmış kopyası; geçersizse null.
+ * keyMap istemciden alınmaz, tuş kodlarından yeniden kurulur.
+ */
+function parseLayout(value: unknown): KeyboardLayout | null {
+  if (
+    !isRecord(value) ||
+    !Array.isArray(value.keys) ||
+    value.keys.length === 0 ||
+    value.keys.length > MAX_LAYOUT_KEYS ||
+    !isSize(value.width) ||
+    !isSize(value.depth)
+  ) {
+    return null;
+  }
+  const keys: LayoutKey[] = [];
+  const keyMap: Record<string, number> = {};
+  for (const raw of value.keys) {
+    const key = parseLayoutKey(raw);
+    if (!key || keys.some((k) => k.code === key.code)) return null;
+    if (!key.code.startsWith("kle-")) keyMap[key.code] = keys.length;
+    keys.push(key);
+  }
+  return { id: CUSTOM_LAYOUT_ID, keys, width: value.width, depth: value.depth, keyMap };
+}
+
+/** Yapılandırmadaki sorunlar – boş dizi = katalogla uyumlu */
+export function configIssues(
+  catalog: Catalog,
+  config: unknown,
+  /** `parseLayout` ile doğrulanmış özel layout */
+  layout: KeyboardLayout | null
+): OrderIssue[] {
+  if (!isRecord(config)) return [{ id: "configMissing" }];
+  const issues: OrderIssue[] = [];
+
+  // Palet renkleri katalogda listelenmez – özel renk ek ücretiyle her zaman üretilebilir
+  const entryOf = (category: Category, id: string) =>
+    catalog.options[category][id] ??
+    (paletteColor(category, id) ? { price: 0, available: true } : undefined);
+  const keycapOk = (id: unknown) =>
+    typeof id === "string" && entryOf("keycaps", id)?.available === true;
+
+  const selected = config.selectedOptions;
+  if (!isRecord(selected)) {
+    issues.push({ id: "optionsMissing" });
+  } else {
+    for (const cat of CATEGORIES) {
+      const id = selected[cat.id];
+      const entry = typeof id === "string" ? entryOf(cat.id, id) : undefined;
+      const option = String(id);
+      if (!entry) issues.push({ id: "unknownOption", category: cat.id, option });
+      else if (!entry.available) issues.push({ id: "optionUnavailable", category: cat.id, option });
+    }
+    // Uyumluluk kuralları yalnızca tüm id'ler geçerliyse değerlendirilir
+    if (issues.length === 0) {
+      for (const rule of violations(selected as Selection)) {
+        issues.push({ id: "incompatible", rule: rule.id });
+      }
+    }
+    if (selected.layout === CUSTOM_LAYOUT_ID && !layout) {
+      issues.push({ id: "customLayoutInvalid" });
+    }
+  }
+
+  const colorway = config.colorway;
+  if (!isRecord(colorway) || !KEY_ZONES.every((z) => keycapOk(colorway[z.id]))) {
+    issues.push({ id: "keycapColorsInvalid" });
+  } else if (isRecord(selected) && colorway.alphas !== selected.keycaps) {
+    issues.push({ id: "keycapMismatch" });
+  }
+
+  // Boyalı tuşlar seçili layout'ta bulunan tuşlar olmalı
+  const overrides = config.keyOverrides;
+  const layoutId = isRecord(selected) ? selected.layout : undefined;
+  const layoutKeys =
+    layoutId === CUSTOM_LAYOUT_ID
+      ? layout?.keys
+      : typeof layoutId === "string"
+        ? getLayout(layoutId).keys
+        : undefined;
+  if (
+    !isRecord(overrides) ||
+    Object.keys(overrides).length > MAX_PAINTED_KEYS ||
+    !Object.values(overrides).every(keycapOk) ||
+    !Object.keys(overrides).every((code) => layoutKeys?.some((k) => k.code === code))
+  ) {
+    issues.push({ id: "paintedKeysInvalid" });
+  }
+
+  if (!LEGEND_FONTS.some((f) => f.id === config.legendFont)) {
+    issues.push({ id: "legendFontInvalid" });
+  }
+  if (!LEGEND_POSITIONS.some((p) => p.id === config.legendPosition)) {
+    issues.push({ id: "legendPositionInvalid" });
+  }
+
+  if (
+    typeof config.lightingEffect !== "string" ||
+    !isLightingEffect(config.lightingEffect) ||
+    !inRange(config.lightingSpeed, LIGHTING_SPEED) ||
+    !inRange(config.lightingBrightness, LIGHTING_BRIGHTNESS)
+  ) {
+    issues.push({ id: "lightingInvalid" });
+  }
+
+  const mods = config.caseMods;
+  if (
+    !Array.isArray(mods) ||
+    new Set(mods).size !== mods.length ||
+    !mods.every((id) => typeof id === "string" && catalog.addons[id]?.available === true)
+  ) {
+    issues.push({ id: "caseModsInvalid" });
+  }
+
+  return issues;
+}
+
+const isCustomer = (value: unknown): value is CustomerDetails =>
+  isRecord(value) &&
+  CUSTOMER_FIELDS.every((f) => typeof value[f.id] === "string");
+
+export type ParsedOrderRequest =
+  | { ok: true; request: OrderRequest }
+  | { ok: false; issues: OrderIssue[]; fields?: CustomerErrors };
+
+/**
+ * Doğrulanmış alanlardan yeni bir `OrderConfig` kurar – istemcinin eklediği
+ * bilinmeyen alanlar siparişe yazılmaz. Yalnızca `configIssues` boşken çağrılır.
+ */
+function pickConfig(config: Record<string, unknown>): OrderConfig {
+  const selected = config.selectedOptions as Record<Category, string>;
+  const colorway = config.colorway as OrderConfig["colorway"];
+  return {
+    selectedOptions: Object.fromEntries(
+      CATEGORIES.map((cat) => [cat.id, selected[cat.id]])
+    ) as Record<Category, string>,
+    colorway: Object.fromEntries(
+      KEY_ZONES.map((z) => [z.id, colorway[z.id]])
+    ) as OrderConfig["colorway"],
+    keyOverrides: { ...(config.keyOverrides as Record<string, string>) },
+    legendFont: config.legendFont as string,
+    legendPosition: config.legendPosition as OrderConfig["legendPosition"],
+    lightingEffect: config.lightingEffect as OrderConfig["lightingEffect"],
+    lightingSpeed: config.lightingSpeed as number,
+    lightingBrightness: config.lightingBrightness as number,
+    caseMods: [...(config.caseMods as string[])],
+  };
+}
+
+export function parseOrderRequest(catalog: Catalog, body: unknown): ParsedOrderRequest {
+  if (!isRecord(body)) return { ok: false, issues: [{ id: "requestInvalid" }] };
+
+  const layout = body.layout === undefined ? null : parseLayout(body.layout);
+  const issues = configIssues(catalog, body.config, layout);
+  if (typeof body.quotedTotal !== "number") issues.push({ id: "quoteMissing" });
+  if (
+    body.preview !== undefined &&
+    (typeof body.preview !== "string" ||
+      !body.preview.startsWith("data:image/jpeg;base64,") ||
+      body.preview.length > MAX_PREVIEW_LENGTH)
+  ) {
+    issues.push({ id: "previewInvalid" });
+  }
+  if (!isCustomer(body.customer)) {
+    return { ok: false, issues: [...issues, { id: "customerMissing" }] };
+  }
+
+  const fields = validateCustomer(body.customer);
+  if (issues.length > 0 || Object.keys(fields).length > 0) {
+    return { ok: false, issues, fields };
+  }
+
+  const customer = { ...EMPTY_CUSTOMER };
+  for (const field of CUSTOMER_FIELDS) customer[field.id] = body.customer[field.id];
+  const request: OrderRequest = {
+    config: pickConfig(body.config as Record<string, unknown>),
+    customer,
+    quotedTotal: body.quotedTotal as number,
+  };
+  // Layout yalnızca özel layout seçiliyse saklanır
+  if (layout && request.config.selectedOptions.layout === CUSTOM_LAYOUT_ID) {
+    request.layout = layout;
+  }
+  if (typeof body.preview === "string") request.preview = body.preview;
+  return { ok: true, request };
+}
+
+/* ——————————————————————————————————————————————
+   İstemci
+   —————————————————————————————————————————————— */
+
+export const ORDERS_URL = "/api/orders";
+
+export type SubmitResult =
+  | { ok: true; receipt: OrderReceipt }
+  | {
+      ok: false;
+      error: OrderErrorId;
+      issues?: OrderIssue[];
+      fields?: CustomerErrors;
+      /** 409: fiyat değişti – sunucunun hesapladığı toplam */
+      total?: number;
+    };
+
+export async function submitOrder(request: OrderRequest): Promise<SubmitResult> {
+  try {
+    const res = await fetch(ORDERS_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const data = await res.json();
+    if (res.ok) return { ok: true, receipt: data as OrderReceipt };
+    return { ok: false, ...data, error: data.error ?? "rejected" };
+  } catch {
+    return { ok: false, error: "unreachable" };
+  }
+}
+
+/** Sipariş bulunamazsa null */
+export async function fetchOrder(id: string): Promise<OrderReceipt | null> {
+  const res = await fetch(`${ORDERS_URL}/${encodeURIComponent(id)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Sipariş sorgulanamadı (${res.status})`);
+  return (await res.json()) as OrderReceipt;
+}
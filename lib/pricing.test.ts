@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { Catalog, Currency } from "@/lib/catalog";
+import {
+  formatDelta,
+  formatPrice,
+  priceBreakdown,
+  totalPrice,
+  type PricedConfig,
+} from "@/lib/pricing";
+
+const entry = (price: number) => ({ price, available: true });
+
+const catalog: Catalog = {
+  version: 1,
+  base: 100,
+  currencies: [{ code: "USD", symbol: "$", rate: 1 }],
+  surcharges: { multiZone: 15, paintedKey: 2, rgb: 20, customColor: 10 },
+  options: {
+    body: { white: entry(0), navy: entry(10) },
+    material: { aluminum: entry(0), brass: entry(60) },
+    keycaps: { cream: entry(0), coral: entry(5), sky: entry(8) },
+    switches: { red: entry(0), silent: entry(12) },
+    layout: { tkl: entry(0), full: entry(-20) },
+    legends: { white: entry(0) },
+    profile: { cherry: entry(0) },
+    lighting: { white: entry(0), rainbow: entry(5) },
+  },
+  addons: { tape: entry(4), "case-foam": entry(6) },
+};
+
+const config = (overrides: Partial<PricedConfig> = {}): PricedConfig => ({
+  selectedOptions: {
+    body: "white",
+    material: "aluminum",
+    keycaps: "cream",
+    switches: "red",
+    layout: "tkl",
+    legends: "white",
+    profile: "cherry",
+    lighting: "white",
+  },
+  colorway: { alphas: "cream", modifiers: "cream", accents: "cream" },
+  keyOverrides: {},
+  lightingEffect: "off",
+  caseMods: [],
+  ...overrides,
+});
+
+const lineIds = (c: PricedConfig) => priceBreakdown(catalog, c).map((l) => l.id);
+
+describe("priceBreakdown", () => {
+  it("only lists the base price for the default configuration", () => {
+    expect(priceBreakdown(catalog, config())).toEqual([
+      { id: "base", label: "Temel fiyat", amount: 100 },
+    ]);
+  });
+
+  it("adds option prices, including negative ones", () => {
+    const c = config({
+      selectedOptions: { ...config().selectedOptions, body: "navy", layout: "full" },
+    });
+    expect(lineIds(c)).toEqual(["base", "body", "layout"]);
+    expect(totalPrice(catalog, c)).toBe(90);
+  });
+
+  it("charges the keycap set once at its most expensive color", () => {
+    const c = config({
+      colorway: { alphas: "cream", modifiers: "coral", accents: "cream" },
+      keyOverrides: { KeyA: "sky", KeyB: "sky" },
+    });
+    const lines = priceBreakdown(catalog, c);
+    expect(lines.find((l) => l.id === "keycaps")?.amount).toBe(8);
+    expect(lines.find((l) => l.id === "multiZone")?.amount).toBe(15);
+    expect(lines.find((l) => l.id === "paintedKeys")).toMatchObject({ amount: 4, quantity: 2 });
+  });
+
+  it("charges custom colors once per part", () => {
+    const c = config({
+      selectedOptions: { ...config().selectedOptions, body: "ano-black" },
+      colorway: { alphas: "pbt-navy", modifiers: "pbt-pink", accents: "pbt-navy" },
+    });
+    expect(priceBreakdown(catalog, c).find((l) => l.id === "customColor")).toMatchObject({
+      amount: 20,
+      quantity: 2,
+    });
+  });
+
+  it("only charges RGB when a lighting effect is on", () => {
+    const rgb = config({
+      selectedOptions: { ...config().selectedOptions, lighting: "rainbow" },
+    });
+    expect(lineIds(rgb)).not.toContain("rgb");
+    expect(totalPrice(catalog, { ...rgb, lightingEffect: "wave" })).toBe(125);
+  });
+
+  it("sums case mods and ignores unknown ones", () => {
+    const c = config({ caseMods: ["tape", "case-foam", "glue"] });
+    expect(priceBreakdown(catalog, c).find((l) => l.id === "caseMods")?.amount).toBe(10);
+  });
+});
+
+describe("formatPrice / formatDelta", () => {
+  const eur: Currency = { code: "EUR", symbol: "€", rate: 0.9 };
+
+  it("converts to the currency and rounds to whole units", () => {
+    expect(formatPrice(129, catalog.currencies[0], "en-US")).toBe("$129");
+    expect(formatPrice(100, eur, "en-US")).toBe("€90");
+  });
+
+  it("signs deltas and leaves zero unsigned", () => {
+    const usd = catalog.currencies[0];
+    expect(formatDelta(25, usd, "en-US")).toBe("+$25");
+    expect(formatDelta(-20, usd, "en-US")).toBe("-$20");
+    expect(formatDelta(0, usd, "en-US")).toBe("$0");
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Pricing
+ * ────────
+ * Yapılandırma fiyatı katalogdan hesaplanır; aynı fonksiyonlar istemcide
+ * (özet, swatch farkları) ve sunucuda (sipariş doğrulama) kullanılır.
+ * Tutarlar temel para birimindedir; gösterim `formatPrice` ile seçili para
+ * birimine çevrilip dile göre biçimlenir.
+ */
+
+import type { Catalog, Currency } from "@/lib/catalog";
+import { isPaletteColor } from "@/lib/colorPalettes";
+import type { LightingEffect } from "@/lib/lighting";
+import type { Category, Colorway } from "@/store/useConfiguratorStore";
+
+/** Fiyatı belirleyen yapılandırma alanları (ConfigSnapshot'ın alt kümesi) */
+export interface PricedConfig {
+  /** Kullanıcı türevi seçenekler kaynak option id'sine çevrilmiş olmalı */
+  selectedOptions: Record<Category, string>;
+  colorway: Colorway;
+  keyOverrides: Record<string, string>;
+  lightingEffect: LightingEffect;
+  caseMods: string[];
+}
+
+export type PriceLineId =
+  | "base"
+  | "body"
+  | "material"
+  | "keycaps"
+  | "multiZone"
+  | "paintedKeys"
+  | "switches"
+  | "layout"
+  | "profile"
+  | "legends"
+  | "customColor"
+  | "rgb"
+  | "caseMods";
+
+export interface PriceLine {
+  /** Arayüz etiketi bu id ile çevrilir; `label` sunucu / kayıt için Türkçe */
+  id: PriceLineId;
+  label: string;
+  amount: number;
+  /** Adet bazlı kalemler (boyalı tuş, özel renk) */
+  quantity?: number;
+}
+
+const optionPrice = (catalog: Catalog, category: Category, id: string) =>
+  catalog.options[category][id]?.price ?? 0;
+
+/** Temel fiyat + sıfır olmayan kalemler */
+export function priceBreakdown(catalog: Catalog, config: PricedConfig): PriceLine[] {
+  const { selectedOptions: s, colorway, keyOverrides } = config;
+  const painted = Object.keys(keyOverrides).length;
+  // Keycap seti bir kez ücretlendirilir – kullanılan en pahalı renk
+  const keycapIds = [...Object.values(colorway), ...Object.values(keyOverrides)];
+  const keycaps = Math.max(0, ...keycapIds.map((id) => optionPrice(catalog, "keycaps", id)));
+  const multiZone =
+    colorway.modifiers !== colorway.alphas || colorway.accents !== colorway.alphas;
+  // Özel renk parça başına bir kez – keycap seti tek parça sayılır
+  const customColors = [
+    isPaletteColor(s.body),
+    keycapIds.some(isPaletteColor),
+    isPaletteColor(s.legends),
+  ].filter(Boolean).length;
+  const addons = config.caseMods.reduce(
+    (sum, id) => sum + (catalog.addons[id]?.price ?? 0),
+    0
+  );
+
+  const lines: PriceLine[] = [
+    { id: "body", label: "Gövde", amount: optionPrice(catalog, "body", s.body) },
+    {
+      id: "material",
+      label: "Kasa malzemesi",
+      amount: optionPrice(catalog, "material", s.material),
+    },
+    { id: "keycaps", label: "Keycap seti", amount: keycaps },
+    {
+      id: "multiZone",
+      label: "Çok bölgeli renk",
+      amount: multiZone ? catalog.surcharges.multiZone : 0,
+    },
+    {
+      id: "paintedKeys",
+      label: `Boyalı tuş ×${painted}`,
+      amount: painted * catalog.surcharges.paintedKey,
+      quantity: painted,
+    },
+    { id: "switches", label: "Switch", amount: optionPrice(catalog, "switches", s.switches) },
+    { id: "layout", label: "Layout", amount: optionPrice(catalog, "layout", s.layout) },
+    {
+      id: "profile",
+      label: "Keycap profili",
+      amount: optionPrice(catalog, "profile", s.profile),
+    },
+    { id: "legends", label: "Legend", amount: optionPrice(catalog, "legends", s.legends) },
+    {
+      id: "customColor",
+      label: `Özel renk ×${customColors}`,
+      amount: customColors * catalog.surcharges.customColor,
+      quantity: customColors,
+    },
+    {
+      id: "rgb",
+      label: "RGB aydınlatma",
+      amount:
+        config.lightingEffect === "off"
+          ? 0
+          : catalog.surcharges.rgb + optionPrice(catalog, "lighting", s.lighting),
+    },
+    { id: "caseMods", label: "Sönümleme modları", amount: addons },
+  ];
+  return [
+    { id: "base", label: "Temel fiyat", amount: catalog.base },
+    ...lines.filter((l) => l.amount !== 0),
+  ];
+}
+
+export function totalPrice(catalog: Catalog, config: PricedConfig): number {
+  return priceBreakdown(catalog, config).reduce((sum, l) => sum + l.amount, 0);
+}
+
+/* ——————————————————————————————————————————————
+   Gösterim
+   —————————————————————————————————————————————— */
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/** `locale`: BCP 47 etiketi – ayırıcılar ve sembol konumu dile göre */
+function formatter(currency: Currency, locale: string, signed: boolean) {
+  const key = `${locale}:${currency.code}:${signed}`;
+  let format = formatters.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currency.code,
+      currencyDisplay: "narrowSymbol",
+      maximumFractionDigits: 0,
+      signDisplay: signed ? "exceptZero" : "auto",
+    });
+    formatters.set(key, format);
+  }
+  return format;
+}
+
+export function formatPrice(amount: number, currency: Currency, locale: string): string {
+  return formatter(currency, locale, false).format(Math.round(amount * currency.rate));
+}
+
+/** Swatch farkları: "+$25", "−$20" */
+export function formatDelta(amount: number, currency: Currency, locale: string): string {
+  return formatter(currency, locale, true).format(Math.round(amount * currency.rate));
+}
@@ -0,0 +1,115 @@
+/**
+ * Keypress Recordings
+ * ────────────────────
+ * Tuş basış zaman çizelgesi: fiziksel tuş kodu (KeyboardEvent.code), basma /
+ * bırakma ve kayıt başından itibaren geçen süre. Kayıtlar JSON olarak dışa /
+ * içe aktarılır; hazır demolar `public/demos/` altında durur.
+ * Geçersiz dosyalar `RecordingParseError` fırlatır.
+ */
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordedEvent {
+  /** Kayıt başından itibaren ms */
+  t: number;
+  code: string;
+  type: "down" | "up";
+}
+
+export interface Recording {
+  version: typeof RECORDING_VERSION;
+  name: string;
+  /** Kayıt sırasında seçili switch option id'si (ses için) */
+  switchId: string;
+  /** Döngüde bir sonraki tura geçmeden önceki toplam süre (ms) */
+  duration: number;
+  events: RecordedEvent[];
+}
+
+export type RecordingErrorCode =
+  | "invalidJson"
+  | "notObject"
+  | "unsupportedVersion"
+  | "noEvents"
+  | "invalidEvent";
+
+/** Metinleri `recorder.errors` sözlüğünde */
+export class RecordingParseError extends Error {
+  constructor(
+    readonly code: RecordingErrorCode,
+    /** unsupportedVersion: dosyadaki sürüm · invalidEvent: 1 tabanlı olay sırası */
+    readonly detail?: string
+  ) {
+    super(detail === undefined ? `Recording ${code}` : `Recording ${code}: ${detail}`);
+    this.name = "RecordingParseError";
+  }
+}
+
+/** Son bırakmadan sonra döngü başa dönmeden önceki sessizlik */
+const TAIL_MS = 800;
+
+/** Ham olayları ilk basıştan başlayacak şekilde kaydırır */
+export function createRecording(
+  name: string,
+  switchId: string,
+  events: RecordedEvent[]
+): Recording {
+  const offset = events[0]?.t ?? 0;
+  const shifted = events.map((e) => ({ ...e, t: Math.round(e.t - offset) }));
+  return {
+    version: RECORDING_VERSION,
+    name,
+    switchId,
+    duration: (shifted[shifted.length - 1]?.t ?? 0) + TAIL_MS,
+    events: shifted,
+  };
+}
+
+function isEvent(value: unknown): value is RecordedEvent {
+  if (typeof value !== "object" || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return (
+    typeof e.t === "number" &&
+    e.t >= 0 &&
+    typeof e.code === "string" &&
+    (e.type === "down" || e.type === "up")
+  );
+}
+
+export function parseRecording(source: string): Recording {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw new RecordingParseError("invalidJson");
+  }
+  if (typeof data !== "object" || data === null) {
+    throw new RecordingParseError("notObject");
+  }
+  const r = data as Record<string, unknown>;
+  if (r.version !== RECORDING_VERSION) {
+    throw new RecordingParseError("unsupportedVersion", String(r.version));
+  }
+  if (!Array.isArray(r.events) || r.events.length === 0) {
+    throw new RecordingParseError("noEvents");
+  }
+  const bad = r.events.findIndex((e) => !isEvent(e));
+  if (bad !== -1) {
+    throw new RecordingParseError("invalidEvent", String(bad + 1));
+  }
+
+  const events = [...(r.events as RecordedEvent[])].sort((a, b) => a.t - b.t);
+  const last = events[events.length - 1].t;
+  return {
+    version: RECORDING_VERSION,
+    name: typeof r.name === "string" ? r.name : "Kayıt",
+    switchId: typeof r.switchId === "string" ? r.switchId : "",
+    duration:
+      typeof r.duration === "number" && r.duration >= last ? r.duration : last + TAIL_MS,
+    events,
+  };
+}
+
+export function serializeRecording(recording: Recording): string {
+  return JSON.stringify(recording, null, 2);
+}
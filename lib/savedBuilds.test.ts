@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILD_FORMAT_VERSION,
+  migrateBuild,
+  toBuildConfig,
+  type BuildConfig,
+} from "@/lib/savedBuilds";
+import {
+  DEFAULT_SELECTION,
+  getSnapshot,
+  NO_USER_OPTIONS,
+  OPTIONS,
+  useConfiguratorStore,
+  type ConfigOption,
+} from "@/store/useConfiguratorStore";
+import { LIGHTING_SPEED } from "@/lib/lighting";
+
+const config = (): BuildConfig => toBuildConfig(getSnapshot(useConfiguratorStore.getState()));
+
+const stored = (overrides: Record<string, unknown> = {}) => ({
+  version: BUILD_FORMAT_VERSION,
+  id: "build-1",
+  name: "Desk",
+  createdAt: "2026-01-02T10:00:00.000Z",
+  updatedAt: "2026-01-03T10:00:00.000Z",
+  config: config(),
+  customLayout: null,
+  customSwitch: null,
+  thumbnail: null,
+  ...overrides,
+});
+
+const red = OPTIONS.switches.find((o) => o.id === "red")!;
+const customSwitch: ConfigOption = { ...red, id: "custom-abc", name: "Soft Red", basedOn: "red" };
+
+describe("toBuildConfig", () => {
+  it("drops UI state from the snapshot", () => {
+    const built = config();
+    expect(built).not.toHaveProperty("activeCategory");
+    expect(built).not.toHaveProperty("volume");
+  });
+});
+
+describe("migrateBuild", () => {
+  it("reads a current build as is", () => {
+    expect(migrateBuild(stored(), NO_USER_OPTIONS)).toEqual(stored());
+  });
+
+  it("rejects unreadable builds and builds from a newer format", () => {
+    expect(migrateBuild(null, NO_USER_OPTIONS)).toBeNull();
+    expect(migrateBuild(stored({ version: 0 }), NO_USER_OPTIONS)).toBeNull();
+    expect(migrateBuild(stored({ version: BUILD_FORMAT_VERSION + 1 }), NO_USER_OPTIONS)).toBeNull();
+    expect(migrateBuild(stored({ name: 3 }), NO_USER_OPTIONS)).toBeNull();
+  });
+
+  it("falls back to defaults for options that no longer exist", () => {
+    const base = config();
+    const build = migrateBuild(
+      stored({
+        config: {
+          ...base,
+          selectedOptions: { ...base.selectedOptions, body: "plaid", keycaps: "coral" },
+          colorway: { alphas: "cream", modifiers: "retired", accents: "sky" },
+          keyOverrides: { KeyA: "sky", KeyB: "retired" },
+          legendFont: "comic",
+          lightingEffect: "strobe",
+          lightingSpeed: 99,
+          caseMods: ["tape", "tape", "glue"],
+        },
+      }),
+      NO_USER_OPTIONS
+    );
+    expect(build?.config).toMatchObject({
+      selectedOptions: { body: DEFAULT_SELECTION.body, keycaps: "coral" },
+      // Alfa bölgesi seçili keycap'i izler
+      colorway: { alphas: "coral", modifiers: "coral", accents: "sky" },
+      keyOverrides: { KeyA: "sky" },
+      legendFont: base.legendFont,
+      lightingEffect: "off",
+      lightingSpeed: LIGHTING_SPEED.default,
+      caseMods: ["tape"],
+    });
+  });
+
+  it("falls back to the source switch when the custom switch is gone", () => {
+    const base = config();
+    const selectedOptions = { ...base.selectedOptions, switches: customSwitch.id };
+    const build = migrateBuild(
+      stored({ config: { ...base, selectedOptions }, customSwitch }),
+      NO_USER_OPTIONS
+    );
+    expect(build?.customSwitch).toEqual(customSwitch);
+    expect(build?.config.selectedOptions.switches).toBe("red");
+
+    const kept = migrateBuild(stored({ config: { ...base, selectedOptions }, customSwitch }), {
+      ...NO_USER_OPTIONS,
+      customSwitches: [customSwitch],
+    });
+    expect(kept?.config.selectedOptions.switches).toBe(customSwitch.id);
+  });
+
+  it("drops the custom layout selection without layout data", () => {
+    const base = config();
+    const build = migrateBuild(
+      stored({ config: { ...base, selectedOptions: { ...base.selectedOptions, layout: "custom" } } }),
+      NO_USER_OPTIONS
+    );
+    expect(build?.config.selectedOptions.layout).toBe(DEFAULT_SELECTION.layout);
+  });
+
+  it("defaults updatedAt and drops non-image thumbnails", () => {
+    const build = migrateBuild(
+      stored({ updatedAt: undefined, thumbnail: "javascript:alert(1)" }),
+      NO_USER_OPTIONS
+    );
+    expect(build?.updatedAt).toBe("2026-01-02T10:00:00.000Z");
+    expect(build?.thumbnail).toBeNull();
+  });
+});
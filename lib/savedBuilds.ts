@@ -0,0 +1,206 @@
+/**
+ * Saved Builds
+ * ─────────────
+ * Kullanıcının isimlendirip sakladığı yapılandırmalar (localStorage). Her
+ * kayıt format sürümünü taşır; okunurken önce `MIGRATIONS` ile güncel
+ * formata yükseltilir, ardından `OPTIONS`'ta artık bulunmayan id'ler
+ * varsayılana düşürülür – katalog değişse de eski kayıtlar açılır.
+ */
+
+import {
+  CATEGORIES,
+  DEFAULT_SELECTION,
+  KEY_ZONES,
+  resolveOption,
+  findOption,
+  type Category,
+  type ConfigOption,
+  type ConfigSnapshot,
+  type UserOptions,
+} from "@/store/useConfiguratorStore";
+import type { KeyboardLayout } from "@/lib/layouts";
+import { LEGEND_FONTS, LEGEND_POSITIONS } from "@/lib/legends";
+import {
+  isLightingEffect,
+  LIGHTING_BRIGHTNESS,
+  LIGHTING_SPEED,
+} from "@/lib/lighting";
+import { isCaseMod } from "@/lib/caseMaterials";
+import { isSwitchProfile } from "@/lib/soundEngine";
+import { isSwitchSpec } from "@/lib/switchSpecs";
+
+export const BUILD_FORMAT_VERSION = 1;
+export const MAX_SAVED_BUILDS = 24;
+
+/** Kayıtlı yapılandırma – arayüz durumu (sekme, ses) saklanmaz */
+export type BuildConfig = Omit<ConfigSnapshot, "activeCategory" | "volume">;
+
+export interface SavedBuild {
+  version: number;
+  id: string;
+  name: string;
+  /** ISO tarih */
+  createdAt: string;
+  updatedAt: string;
+  config: BuildConfig;
+  /** Layout "custom" ise içe aktarılan KLE layout'u */
+  customLayout: KeyboardLayout | null;
+  /** Seçili switch özel ise kopyası – silinirse kaynak switch'e dönülür */
+  customSwitch: ConfigOption | null;
+  /** Küçük JPEG önizleme (data URL) */
+  thumbnail: string | null;
+}
+
+/** Snapshot'tan kaydedilen alanlar */
+export function toBuildConfig(snapshot: ConfigSnapshot): BuildConfig {
+  return {
+    selectedOptions: snapshot.selectedOptions,
+    colorway: snapshot.colorway,
+    keyOverrides: snapshot.keyOverrides,
+    legendFont: snapshot.legendFont,
+    legendPosition: snapshot.legendPosition,
+    lightingEffect: snapshot.lightingEffect,
+    lightingSpeed: snapshot.lightingSpeed,
+    lightingBrightness: snapshot.lightingBrightness,
+    caseMods: snapshot.caseMods,
+  };
+}
+
+/* ——————————————————————————————————————————————
+   Sürüm yükseltme
+   —————————————————————————————————————————————— */
+
+type RawBuild = Record<string, unknown>;
+
+/**
+ * `MIGRATIONS[n - 1]`: n. sürümdeki kaydı n + 1'e yükseltir. Format
+ * değiştiğinde BUILD_FORMAT_VERSION artırılır ve dönüşüm buraya eklenir;
+ * kaldırılan / yeniden adlandırılan option id'leri de burada eşlenir.
+ */
+const MIGRATIONS: ((build: RawBuild) => RawBuild)[] = [];
+
+const isRecord = (value: unknown): value is RawBuild =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isLayout = (value: unknown): value is KeyboardLayout =>
+  isRecord(value) && Array.isArray(value.keys) && isRecord(value.keyMap);
+
+const isCustomSwitch = (value: unknown): value is ConfigOption =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.color === "string" &&
+  isSwitchProfile(value.sound) &&
+  (value.spec === undefined || isSwitchSpec(value.spec));
+
+const inRange = (value: unknown, range: { min: number; max: number; default: number }) =>
+  typeof value === "number" && value >= range.min && value <= range.max
+    ? value
+    : range.default;
+
+/**
+ * Kayıtlı yapılandırmayı bugünkü seçeneklere uydurur. Bilinmeyen id'ler
+ * varsayılana düşer; özel switch bu tarayıcıda yoksa kaynak switch seçilir.
+ */
+function normalizeConfig(
+  raw: RawBuild,
+  user: UserOptions,
+  customSwitch: ConfigOption | null
+): BuildConfig {
+  const selected = isRecord(raw.selectedOptions) ? raw.selectedOptions : {};
+  const known = (category: Category, id: unknown) =>
+    typeof id === "string" && resolveOption(user, category, id) !== undefined;
+  const selectedOptions = { ...DEFAULT_SELECTION };
+  for (const cat of CATEGORIES) {
+    let id = selected[cat.id];
+    if (customSwitch && cat.id === "switches" && id === customSwitch.id && !known(cat.id, id)) {
+      id = customSwitch.basedOn;
+    }
+    if (typeof id === "string" && known(cat.id, id)) selectedOptions[cat.id] = id;
+  }
+
+  const keycap = (id: unknown) =>
+    typeof id === "string" && findOption("keycaps", id) !== undefined;
+  const colorway = isRecord(raw.colorway) ? raw.colorway : {};
+  const zones = Object.fromEntries(
+    KEY_ZONES.map((z) => [
+      z.id,
+      keycap(colorway[z.id]) ? (colorway[z.id] as string) : selectedOptions.keycaps,
+    ])
+  ) as BuildConfig["colorway"];
+  // Alfa bölgesi seçili keycap'tir
+  zones.alphas = selectedOptions.keycaps;
+
+  const overrides = isRecord(raw.keyOverrides) ? raw.keyOverrides : {};
+  const keyOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, id]) => keycap(id))
+  ) as Record<string, string>;
+
+  const font = LEGEND_FONTS.find((f) => f.id === raw.legendFont) ?? LEGEND_FONTS[0];
+  const position =
+    LEGEND_POSITIONS.find((p) => p.id === raw.legendPosition) ?? LEGEND_POSITIONS[0];
+
+  return {
+    selectedOptions,
+    colorway: zones,
+    keyOverrides,
+    legendFont: font.id,
+    legendPosition: position.id,
+    lightingEffect:
+      typeof raw.lightingEffect === "string" && isLightingEffect(raw.lightingEffect)
+        ? raw.lightingEffect
+        : "off",
+    lightingSpeed: inRange(raw.lightingSpeed, LIGHTING_SPEED),
+    lightingBrightness: inRange(raw.lightingBrightness, LIGHTING_BRIGHTNESS),
+    caseMods: Array.isArray(raw.caseMods)
+      ? [...new Set(raw.caseMods.filter((id) => typeof id === "string" && isCaseMod(id)))]
+      : [],
+  };
+}
+
+/**
+ * Depodan okunan değeri güncel `SavedBuild`'e çevirir; okunamıyorsa veya
+ * bu sürümden yeni bir formatta yazılmışsa null.
+ */
+export function migrateBuild(value: unknown, user: UserOptions): SavedBuild | null {
+  if (!isRecord(value) || typeof value.version !== "number") return null;
+  if (value.version < 1 || value.version > BUILD_FORMAT_VERSION) return null;
+
+  let raw = value;
+  for (let v = raw.version as number; v < BUILD_FORMAT_VERSION; v++) {
+    raw = MIGRATIONS[v - 1](raw);
+  }
+
+  if (
+    typeof raw.id !== "string" ||
+    typeof raw.name !== "string" ||
+    typeof raw.createdAt !== "string" ||
+    !isRecord(raw.config)
+  ) {
+    return null;
+  }
+
+  const customSwitch = isCustomSwitch(raw.customSwitch) ? raw.customSwitch : null;
+  const customLayout = isLayout(raw.customLayout) ? raw.customLayout : null;
+  // Layout verisi yoksa "custom" bilinmeyen id sayılır ve varsayılana düşer
+  const config = normalizeConfig(raw.config, { ...user, customLayout }, customSwitch);
+
+  return {
+    version: BUILD_FORMAT_VERSION,
+    id: raw.id,
+    name: raw.name,
+    createdAt: raw.createdAt,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : raw.createdAt,
+    config,
+    customLayout,
+    customSwitch,
+    thumbnail:
+      typeof raw.thumbnail === "string" && raw.thumbnail.startsWith("data:image/")
+        ? raw.thumbnail
+        : null,
+  };
+}
+
+export function createBuildId(): string {
+  return `build-${Date.now().toString(36)}-${Math.floor(Math.random() * 36 ** 3).toString(36)}`;
+}
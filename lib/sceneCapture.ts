@@ -0,0 +1,80 @@
+/**
+ * Scene Capture
+ * ──────────────
+ * Canvas dışındaki UI'ın (sipariş özeti vb.) sahnenin anlık görüntüsünü
+ * alabilmesi için köprü. Scene içindeki `CaptureBridge` render fonksiyonlarını
+ * kaydeder; Canvas yoksa `captureScene` / `renderScene` null döner.
+ *
+ * preserveDrawingBuffer gerekmez: kare aynı görev içinde yeniden çizilip
+ * hemen okunur. `renderScene` ise ekrandaki canvas'a hiç dokunmadan, istenen
+ * çözünürlük ve kamera açısıyla saydam arka planlı bir görüntü üretir.
+ */
+
+type CaptureFn = () => HTMLCanvasElement;
+
+let capture: CaptureFn | null = null;
+
+/** Kaydı kaldıran fonksiyonu döndürür */
+export function registerCapture(fn: CaptureFn) {
+  capture = fn;
+  return () => {
+    if (capture === fn) capture = null;
+  };
+}
+
+export interface CaptureOptions {
+  /** Çıktı genişliği (px) – yükseklik en-boy oranına göre */
+  width?: number;
+  type?: "image/png" | "image/jpeg";
+  /** JPEG kalitesi 0–1 */
+  quality?: number;
+}
+
+/** Sahneyi data URL olarak döndürür */
+export function captureScene({
+  width,
+  type = "image/png",
+  quality = 0.85,
+}: CaptureOptions = {}): string | null {
+  const source = capture?.();
+  if (!source) return null;
+  if (!width || width >= source.width) return source.toDataURL(type, quality);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = Math.round((source.height / source.width) * width);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL(type, quality);
+}
+
+/* ——————————————————————————————————————————————
+   Ekran dışı render (dışa aktarma)
+   —————————————————————————————————————————————— */
+
+export type CameraPreset = "current" | "top" | "isometric" | "side";
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+  preset: CameraPreset;
+  /** Önayar azimutuna eklenen açı (rad) – turntable kareleri */
+  turn?: number;
+}
+
+/** Saydam arka planlı RGBA canvas döndürür */
+type RenderFn = (options: RenderOptions) => HTMLCanvasElement;
+
+let render: RenderFn | null = null;
+
+export function registerRenderer(fn: RenderFn) {
+  render = fn;
+  return () => {
+    if (render === fn) render = null;
+  };
+}
+
+export function renderScene(options: RenderOptions): HTMLCanvasElement | null {
+  return render?.(options) ?? null;
+}
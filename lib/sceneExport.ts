@@ -0,0 +1,229 @@
+/**
+ * Scene Export
+ * ─────────────
+ * Pazarlama görselleri: istenen çözünürlükte PNG ve turntable klibi (WebM /
+ * GIF). Kareler `renderScene` ile ekran dışında, sabit açı adımlarıyla
+ * üretilir – sonuç cihazın kare hızından bağımsızdır.
+ */
+
+import { renderScene, type CameraPreset } from "@/lib/sceneCapture";
+import { buildPalette, GifEncoder } from "@/lib/gif";
+import { WebmMuxer, type WebmCodec } from "@/lib/webm";
+
+/** Adları `exportPanel.cameraPresets` sözlüğünde */
+export const CAMERA_PRESETS: CameraPreset[] = ["current", "isometric", "top", "side"];
+
+export type ExportBackground = "transparent" | "brand" | "scene";
+
+export const EXPORT_BACKGROUNDS: ExportBackground[] = ["transparent", "brand", "scene"];
+
+export const EXPORT_SIZE = { min: 64, max: 8192 };
+
+/** Turntable çıktısı için sınırlar – GIF büyük boyutlarda çok ağırlaşır */
+export const TURNTABLE_LIMITS = {
+  webm: { maxSize: 2160, fps: 30 },
+  gif: { maxSize: 800, fps: 20 },
+} as const;
+
+export type TurntableFormat = keyof typeof TURNTABLE_LIMITS;
+
+export type SceneExportErrorCode = "notReady" | "pngFailed" | "webmUnsupported" | "noEncoder";
+
+/** Metinleri `exportPanel.errors` sözlüğünde */
+export class SceneExportError extends Error {
+  constructor(readonly code: SceneExportErrorCode) {
+    super(`Scene export ${code}`);
+    this.name = "SceneExportError";
+  }
+}
+
+const SCENE_COLOR = "#09090b";
+
+/* ——————————————————————————————————————————————
+   Arka plan
+   —————————————————————————————————————————————— */
+
+function paintBackground(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  background: ExportBackground
+) {
+  if (background === "scene") {
+    ctx.fillStyle = SCENE_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+  if (background !== "brand") return;
+
+  const radius = Math.hypot(width, height) / 2;
+  const glow = ctx.createRadialGradient(
+    width / 2, height * 0.42, 0,
+    width / 2, height * 0.42, radius
+  );
+  glow.addColorStop(0, "#2e1065");
+  glow.addColorStop(0.55, "#130d24");
+  glow.addColorStop(1, SCENE_COLOR);
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/** Marka arka planında sol alt köşeye logo */
+function paintWordmark(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const size = Math.max(12, Math.round(Math.min(width, height) * 0.035));
+  const pad = size * 1.4;
+  ctx.textBaseline = "alphabetic";
+  ctx.font = `700 ${size}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.fillStyle = "rgba(255,255,255,0.9)";
+  ctx.fillText("MECH", pad, height - pad);
+  const mech = ctx.measureText("MECH").width;
+  ctx.font = `300 ${size}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.fillStyle = "rgba(255,255,255,0.4)";
+  ctx.fillText("CONFIG", pad + mech, height - pad);
+}
+
+/** Saydam render'ı seçilen arka planla birleştirir */
+function compose(render: HTMLCanvasElement, background: ExportBackground) {
+  if (background === "transparent") return render;
+  const { width, height } = render;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  paintBackground(ctx, width, height, background);
+  ctx.drawImage(render, 0, 0);
+  if (background === "brand") paintWordmark(ctx, width, height);
+  return canvas;
+}
+
+function renderFrame(
+  width: number,
+  height: number,
+  preset: CameraPreset,
+  background: ExportBackground,
+  turn = 0
+) {
+  const render = renderScene({ width, height, preset, turn });
+  if (!render) throw new SceneExportError("notReady");
+  return compose(render, background);
+}
+
+/* ——————————————————————————————————————————————
+   PNG
+   —————————————————————————————————————————————— */
+
+export interface ImageExportOptions {
+  width: number;
+  height: number;
+  preset: CameraPreset;
+  background: ExportBackground;
+}
+
+export function exportImage({ width, height, preset, background }: ImageExportOptions) {
+  const canvas = renderFrame(width, height, preset, background);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new SceneExportError("pngFailed"))),
+      "image/png"
+    )
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Turntable
+   —————————————————————————————————————————————— */
+
+export interface TurntableOptions extends ImageExportOptions {
+  format: TurntableFormat;
+  /** Tam tur süresi (sn) */
+  seconds: number;
+  /** 0–1 */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/** Arayüz güncellensin diye kareler arasında olay döngüsüne dönülür */
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function checkAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException("Export aborted", "AbortError");
+}
+
+const pixelsOf = (canvas: HTMLCanvasElement) =>
+  canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height).data;
+
+export async function exportTurntable(options: TurntableOptions): Promise<Blob> {
+  const { format, seconds, preset, background, onProgress, signal } = options;
+  const { fps, maxSize } = TURNTABLE_LIMITS[format];
+  const scale = Math.min(1, maxSize / Math.max(options.width, options.height));
+  // VP9 4:2:0 çift boyut ister
+  const width = Math.round((options.width * scale) / 2) * 2;
+  const height = Math.round((options.height * scale) / 2) * 2;
+  const count = Math.max(2, Math.round(seconds * fps));
+  const turnAt = (i: number) => (i / count) * Math.PI * 2;
+  // Video saydam olamaz – sahne rengine düşer
+  const bg = format === "webm" && background === "transparent" ? "scene" : background;
+  const frame = (i: number) => renderFrame(width, height, preset, bg, turnAt(i));
+
+  if (format === "gif") {
+    // Ortak palet için birkaç örnek kare; kareler deterministik olduğundan tekrar üretilebilir
+    const samples: Uint8ClampedArray[] = [];
+    for (let i = 0; i < count; i += Math.ceil(count / 6)) samples.push(pixelsOf(frame(i)));
+    const gif = new GifEncoder(width, height, buildPalette(samples, bg === "transparent"));
+    for (let i = 0; i < count; i++) {
+      checkAborted(signal);
+      gif.addFrame(pixelsOf(frame(i)), 1000 / fps);
+      onProgress?.((i + 1) / count);
+      await nextTask();
+    }
+    return gif.finish();
+  }
+
+  if (typeof VideoEncoder === "undefined") {
+    throw new SceneExportError("webmUnsupported");
+  }
+  const codecs: [string, WebmCodec][] = [
+    ["vp09.00.10.08", "V_VP9"],
+    ["vp8", "V_VP8"],
+  ];
+  const base = { width, height, bitrate: 12_000_000, framerate: fps };
+  let chosen: [string, WebmCodec] | undefined;
+  for (const candidate of codecs) {
+    const { supported } = await VideoEncoder.isConfigSupported({ ...base, codec: candidate[0] });
+    if (supported) {
+      chosen = candidate;
+      break;
+    }
+  }
+  if (!chosen) throw new SceneExportError("noEncoder");
+
+  const muxer = new WebmMuxer(width, height, chosen[1]);
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => muxer.addChunk(chunk),
+    error: (err) => (failure = err),
+  });
+  encoder.configure({ ...base, codec: chosen[0] });
+
+  const frameDuration = 1_000_000 / fps;
+  try {
+    for (let i = 0; i < count; i++) {
+      checkAborted(signal);
+      if (failure) throw failure;
+      const video = new VideoFrame(frame(i), {
+        timestamp: Math.round(i * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      // Saniyede bir anahtar kare – oynatıcıda ileri sarma için
+      encoder.encode(video, { keyFrame: i % fps === 0 });
+      video.close();
+      onProgress?.((i + 1) / count);
+      await nextTask();
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+  return muxer.finish(count * frameDuration);
+}
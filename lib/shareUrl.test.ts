@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { decodeShareParams, encodeShareParams } from "@/lib/shareUrl";
+import {
+  DEFAULT_SELECTION,
+  getSnapshot,
+  useConfiguratorStore,
+  type ConfigSnapshot,
+} from "@/store/useConfiguratorStore";
+
+const base = (): ConfigSnapshot => getSnapshot(useConfiguratorStore.getState());
+
+describe("encodeShareParams / decodeShareParams", () => {
+  it("round-trips a customized snapshot without issues", () => {
+    const snapshot: ConfigSnapshot = {
+      ...base(),
+      selectedOptions: { ...DEFAULT_SELECTION, body: "navy", keycaps: "cream" },
+      colorway: { alphas: "cream", modifiers: "charcoal", accents: "coral" },
+      keyOverrides: { KeyA: "sky", Escape: "coral" },
+      activeCategory: "keycaps",
+      volume: 0.35,
+      lightingEffect: "wave",
+      lightingSpeed: 1.5,
+      lightingBrightness: 0.4,
+      caseMods: ["case-foam", "tape"],
+    };
+
+    const { snapshot: decoded, issues } = decodeShareParams(encodeShareParams(snapshot));
+    expect(issues).toEqual([]);
+    expect(decoded).toEqual(snapshot);
+  });
+
+  it("returns an empty snapshot for an empty query", () => {
+    expect(decodeShareParams("")).toEqual({ snapshot: {}, issues: [] });
+  });
+
+  it("falls back to the default option and reports unknown ids", () => {
+    const { snapshot, issues } = decodeShareParams("?body=plaid&keycaps=cream");
+    expect(snapshot.selectedOptions).toEqual({
+      ...DEFAULT_SELECTION,
+      body: DEFAULT_SELECTION.body,
+      keycaps: "cream",
+    });
+    expect(snapshot.colorway).toEqual({ alphas: "cream", modifiers: "cream", accents: "cream" });
+    expect(issues).toEqual([{ param: "body", value: "plaid" }]);
+  });
+
+  it("keeps valid entries of list parameters and reports the rest", () => {
+    const { snapshot, issues } = decodeShareParams("paint=KeyA:sky,KeyB:neon,broken&addons=tape,glue");
+    expect(snapshot.keyOverrides).toEqual({ KeyA: "sky" });
+    expect(snapshot.caseMods).toEqual(["tape"]);
+    expect(issues).toEqual([
+      { param: "paint", value: "KeyB:neon" },
+      { param: "paint", value: "broken" },
+      { param: "addons", value: "glue" },
+    ]);
+  });
+
+  it("rejects out-of-range and non-numeric values", () => {
+    const { snapshot, issues } = decodeShareParams("sound=2&fxspeed=&fxbright=0.5&tab=nope");
+    expect(snapshot.volume).toBeUndefined();
+    expect(snapshot.lightingSpeed).toBeUndefined();
+    expect(snapshot.lightingBrightness).toBe(0.5);
+    expect(snapshot.activeCategory).toBeUndefined();
+    expect(issues.map((i) => i.param)).toEqual(["tab", "sound", "fxspeed"]);
+  });
+
+  it("accepts the legacy 1 / 0 sound flag as a volume", () => {
+    expect(decodeShareParams("sound=1").snapshot.volume).toBe(1);
+    expect(decodeShareParams("sound=0").snapshot.volume).toBe(0);
+  });
+});
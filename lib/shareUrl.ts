@@ -0,0 +1,207 @@
+/**
+ * Shareable Configuration URLs
+ * ─────────────────────────────
+ * Store durumunu okunabilir bir query string'e çevirir ve geri okur:
+ *   ?body=navy&keycaps=cream&switches=blue&tab=keycaps&sound=0.8
+ * Bilinmeyen / eskimiş id'ler varsayılana düşer ve `issues` içinde raporlanır.
+ */
+
+import {
+  CATEGORIES,
+  DEFAULT_SELECTION,
+  NO_USER_OPTIONS,
+  resolveOption,
+  findOption,
+  type Category,
+  type ConfigSnapshot,
+  type UserOptions,
+} from "@/store/useConfiguratorStore";
+import { LEGEND_FONTS, LEGEND_POSITIONS } from "@/lib/legends";
+import { MASTER_VOLUME } from "@/lib/soundEngine";
+import {
+  isLightingEffect,
+  LIGHTING_BRIGHTNESS,
+  LIGHTING_SPEED,
+} from "@/lib/lighting";
+import { isCaseMod } from "@/lib/caseMaterials";
+
+const TAB_PARAM = "tab";
+/** Ses seviyesi 0–1 – eski "1" / "0" (açık / kapalı) değerleriyle uyumlu */
+const SOUND_PARAM = "sound";
+const FONT_PARAM = "lfont";
+const POSITION_PARAM = "lpos";
+const MODS_PARAM = "mods";
+const ACCENTS_PARAM = "accents";
+/** Tuş bazlı boyalar: "KeyA:coral,Escape:sky" */
+const PAINT_PARAM = "paint";
+const FX_PARAM = "fx";
+const FX_SPEED_PARAM = "fxspeed";
+const FX_BRIGHTNESS_PARAM = "fxbright";
+/** Kasa sönümleme modları: "case-foam,tape" */
+const ADDONS_PARAM = "addons";
+
+/** Kategori dışındaki parametreler – adları `page.shareParams` sözlüğünde */
+export type ShareSettingParam =
+  | typeof TAB_PARAM
+  | typeof SOUND_PARAM
+  | typeof FONT_PARAM
+  | typeof POSITION_PARAM
+  | typeof MODS_PARAM
+  | typeof ACCENTS_PARAM
+  | typeof PAINT_PARAM
+  | typeof FX_PARAM
+  | typeof FX_SPEED_PARAM
+  | typeof FX_BRIGHTNESS_PARAM
+  | typeof ADDONS_PARAM;
+
+export interface ShareIssue {
+  /** Query parametresinin adı */
+  param: Category | ShareSettingParam;
+  /** URL'de gelen, tanınmayan değer */
+  value: string;
+}
+
+export interface DecodedShare {
+  snapshot: Partial<ConfigSnapshot>;
+  issues: ShareIssue[];
+}
+
+export const isCategory = (value: string): value is Category =>
+  CATEGORIES.some((c) => c.id === value);
+
+/** Snapshot → query string (başında "?" olmadan) */
+export function encodeShareParams(snapshot: ConfigSnapshot): string {
+  const params = new URLSearchParams();
+  for (const cat of CATEGORIES) {
+    params.set(cat.id, snapshot.selectedOptions[cat.id]);
+  }
+  params.set(TAB_PARAM, snapshot.activeCategory);
+  params.set(SOUND_PARAM, String(Math.round(snapshot.volume * 100) / 100));
+  params.set(FONT_PARAM, snapshot.legendFont);
+  params.set(POSITION_PARAM, snapshot.legendPosition);
+  params.set(MODS_PARAM, snapshot.colorway.modifiers);
+  params.set(ACCENTS_PARAM, snapshot.colorway.accents);
+  const paint = Object.entries(snapshot.keyOverrides)
+    .map(([code, id]) => `${code}:${id}`)
+    .join(",");
+  if (paint) params.set(PAINT_PARAM, paint);
+  params.set(FX_PARAM, snapshot.lightingEffect);
+  params.set(FX_SPEED_PARAM, String(snapshot.lightingSpeed));
+  params.set(FX_BRIGHTNESS_PARAM, String(snapshot.lightingBrightness));
+  if (snapshot.caseMods.length > 0) {
+    params.set(ADDONS_PARAM, snapshot.caseMods.join(","));
+  }
+  return params.toString();
+}
+
+/**
+ * Query string → kısmi snapshot. Hiç parametre yoksa boş snapshot döner.
+ * `user`: bu tarayıcıda kayıtlı özel seçenekler (ör. özel switch'ler).
+ */
+export function decodeShareParams(
+  search: string,
+  user: UserOptions = NO_USER_OPTIONS
+): DecodedShare {
+  const params = new URLSearchParams(search);
+  const snapshot: Partial<ConfigSnapshot> = {};
+  const issues: ShareIssue[] = [];
+
+  const selected: Partial<Record<Category, string>> = {};
+  for (const cat of CATEGORIES) {
+    const value = params.get(cat.id);
+    if (value === null) continue;
+    if (resolveOption(user, cat.id, value)) {
+      selected[cat.id] = value;
+    } else {
+      selected[cat.id] = DEFAULT_SELECTION[cat.id];
+      issues.push({ param: cat.id, value });
+    }
+  }
+  if (Object.keys(selected).length > 0) {
+    snapshot.selectedOptions = { ...DEFAULT_SELECTION, ...selected };
+  }
+
+  const tab = params.get(TAB_PARAM);
+  if (tab !== null) {
+    if (isCategory(tab)) snapshot.activeCategory = tab;
+    else issues.push({ param: TAB_PARAM, value: tab });
+  }
+
+  const font = params.get(FONT_PARAM);
+  if (font !== null) {
+    if (LEGEND_FONTS.some((f) => f.id === font)) snapshot.legendFont = font;
+    else issues.push({ param: FONT_PARAM, value: font });
+  }
+
+  const position = params.get(POSITION_PARAM);
+  if (position !== null) {
+    const match = LEGEND_POSITIONS.find((p) => p.id === position);
+    if (match) snapshot.legendPosition = match.id;
+    else issues.push({ param: POSITION_PARAM, value: position });
+  }
+
+  // Colorway – alfa bölgesi "keycaps" parametresinden gelir
+  const keycapOption = (param: typeof MODS_PARAM | typeof ACCENTS_PARAM) => {
+    const value = params.get(param);
+    if (value === null) return undefined;
+    if (findOption("keycaps", value)) return value;
+    issues.push({ param, value });
+    return undefined;
+  };
+  const mods = keycapOption(MODS_PARAM);
+  const accents = keycapOption(ACCENTS_PARAM);
+  if (snapshot.selectedOptions || mods || accents) {
+    const alphas = snapshot.selectedOptions?.keycaps ?? DEFAULT_SELECTION.keycaps;
+    snapshot.colorway = {
+      alphas,
+      modifiers: mods ?? alphas,
+      accents: accents ?? alphas,
+    };
+  }
+
+  const paint = params.get(PAINT_PARAM);
+  if (paint !== null) {
+    snapshot.keyOverrides = {};
+    for (const entry of paint.split(",").filter(Boolean)) {
+      const [code, id] = entry.split(":");
+      if (code && id && findOption("keycaps", id)) {
+        snapshot.keyOverrides[code] = id;
+      } else {
+        issues.push({ param: PAINT_PARAM, value: entry });
+      }
+    }
+  }
+
+  const fx = params.get(FX_PARAM);
+  if (fx !== null) {
+    if (isLightingEffect(fx)) snapshot.lightingEffect = fx;
+    else issues.push({ param: FX_PARAM, value: fx });
+  }
+
+  const addons = params.get(ADDONS_PARAM);
+  if (addons !== null) {
+    snapshot.caseMods = [];
+    for (const id of addons.split(",").filter(Boolean)) {
+      if (isCaseMod(id)) snapshot.caseMods.push(id);
+      else issues.push({ param: ADDONS_PARAM, value: id });
+    }
+  }
+
+  // Aralık dışındaki sayılar geçersiz sayılır
+  const rangeParam = (param: ShareSettingParam, range: { min: number; max: number }) => {
+    const value = params.get(param);
+    if (value === null) return undefined;
+    const n = Number(value);
+    if (value.trim() !== "" && n >= range.min && n <= range.max) return n;
+    issues.push({ param, value });
+    return undefined;
+  };
+  const volume = rangeParam(SOUND_PARAM, MASTER_VOLUME);
+  if (volume !== undefined) snapshot.volume = volume;
+  const speed = rangeParam(FX_SPEED_PARAM, LIGHTING_SPEED);
+  if (speed !== undefined) snapshot.lightingSpeed = speed;
+  const brightness = rangeParam(FX_BRIGHTNESS_PARAM, LIGHTING_BRIGHTNESS);
+  if (brightness !== undefined) snapshot.lightingBrightness = brightness;
+
+  return { snapshot, issues };
+}
@@ -2,12 +2,31 @@
  * Mechanical Keyboard Sound Engine
  * ─────────────────────────────────
  * Web Audio API ile gerçekçi mekanik klavye sesleri sentezler.
- * Her switch türü farklı frekans, decay ve click profili kullanır.
+ * Her switch türü farklı frekans, decay ve click profili kullanır; profiller
+ * switch seçeneklerine (`ConfigOption.sound`) bağlıdır ve canlı düzenlenebilir.
+ * Profilin örnek ses paketi (`pack`) yüklüyse sentez yerine kayıtlar çalınır.
+ *
+ * Sinyal yolu: kaynaklar → ses (voice: ton filtresi + stereo pan) →
+ * kasa EQ'su (malzeme rezonansı) → compressor → master gain → çıkış.
+ * Aynı anda çalan ses sayısı sınırlıdır.
  */
 
+import {
+  isShippedPack,
+  loadSoundPack,
+  pickVariant,
+  type KeySoundClass,
+  type SoundPack,
+} from "@/lib/soundPacks";
+import {
+  caseAcoustics,
+  DEFAULT_CASE_MATERIAL_ID,
+  type CaseAcoustics,
+} from "@/lib/caseMaterials";
+
 /* ——— Switch Ses Profilleri ——— */
 
-interface SwitchProfile {
+export interface SwitchProfile {
   /** Thock body frequency (Hz) */
   baseFreq: number;
   /** Click frequency – 0 = no click (Hz) */
@@ -22,10 +41,14 @@ interface SwitchProfile {
   clickDecay: number;
   /** Master volume 0-1 */
   volume: number;
+  /** Örnek ses paketi – public/sounds/<pack>/pack.json */
+  pack?: string;
 }
 
-const PROFILES: Record<string, SwitchProfile> = {
+/** Hazır switch sesleri – anahtarlar store'daki switch option id'leri */
+export const SWITCH_SOUNDS = {
   red: {
+    pack: "red",
     baseFreq: 160,
     clickFreq: 0,
     filterFreq: 600,
@@ -35,6 +58,7 @@ const PROFILES: Record<string, SwitchProfile> = {
     volume: 0.25,
   },
   blue: {
+    pack: "blue",
     baseFreq: 240,
     clickFreq: 4200,
     filterFreq: 1800,
@@ -44,6 +68,7 @@ const PROFILES: Record<string, SwitchProfile> = {
     volume: 0.32,
   },
   brown: {
+    pack: "brown",
     baseFreq: 200,
     clickFreq: 2200,
     filterFreq: 1000,
@@ -53,6 +78,7 @@ const PROFILES: Record<string, SwitchProfile> = {
     volume: 0.28,
   },
   speed: {
+    pack: "speed",
     baseFreq: 280,
     clickFreq: 0,
     filterFreq: 1200,
@@ -62,6 +88,7 @@ const PROFILES: Record<string, SwitchProfile> = {
     volume: 0.2,
   },
   black: {
+    pack: "black",
     baseFreq: 110,
     clickFreq: 0,
     filterFreq: 400,
@@ -70,19 +97,140 @@ const PROFILES: Record<string, SwitchProfile> = {
     clickDecay: 0,
     volume: 0.3,
   },
+} satisfies Record<string, SwitchProfile>;
+
+export const DEFAULT_SWITCH_SOUND: SwitchProfile = SWITCH_SOUNDS.red;
+
+/** Sentezi belirleyen sayısal parametreler */
+export type SynthParam = Exclude<keyof SwitchProfile, "pack">;
+
+/** Ses ayarı panelindeki parametreler ve izinli aralıkları */
+export const SOUND_PARAMS: {
+  key: SynthParam;
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}[] = [
+  { key: "baseFreq", name: "Gövde", min: 60, max: 400, step: 5, unit: "Hz" },
+  { key: "clickFreq", name: "Click", min: 0, max: 6000, step: 100, unit: "Hz" },
+  { key: "filterFreq", name: "Filtre", min: 200, max: 4000, step: 50, unit: "Hz" },
+  { key: "filterQ", name: "Rezonans", min: 0.5, max: 4, step: 0.1, unit: "" },
+  { key: "thockDecay", name: "Thock", min: 0.02, max: 0.2, step: 0.005, unit: "s" },
+  { key: "clickDecay", name: "Click Süresi", min: 0, max: 0.06, step: 0.005, unit: "s" },
+  { key: "volume", name: "Seviye", min: 0.05, max: 0.5, step: 0.01, unit: "" },
+];
+
+/** Dışarıdan gelen (localStorage) verinin geçerli bir profil olup olmadığı */
+export function isSwitchProfile(value: unknown): value is SwitchProfile {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    (record.pack === undefined || typeof record.pack === "string") &&
+    SOUND_PARAMS.every(({ key, min, max }) => {
+      const n = record[key];
+      return typeof n === "number" && n >= min && n <= max;
+    })
+  );
+}
+
+/* ——— Tuş konumu ——— */
+
+/** Tuşun ses sınıfı, stabilizatörü ve klavye üzerindeki konumu */
+export interface KeySound {
+  soundClass: KeySoundClass;
+  stabilized: boolean;
+  /** Stereo konum: -1 (sol) … 1 (sağ) */
+  pan: number;
+  /** Parlaklık: 0 (boğuk – ön sıra, geniş tuş) … 1 (parlak – üst sıra) */
+  tone: number;
+}
+
+export const DEFAULT_KEY_SOUND: KeySound = {
+  soundClass: "alpha",
+  stabilized: false,
+  pan: 0,
+  tone: 0.6,
 };
 
+/** 2u ve üzeri tuşlar stabilizatör kullanır */
+const STABILIZER_MIN_WIDTH = 2;
+const MAX_PAN = 0.6;
+
+/**
+ * Layout tuşunun sesi. `u`, `v`: tuş merkezinin klavye genişliği / derinliği
+ * boyunca 0–1 konumu; `width`: tuş genişliği (u).
+ */
+export function keySound(code: string, width: number, u: number, v: number): KeySound {
+  const soundClass: KeySoundClass =
+    code === "Space"
+      ? "space"
+      : code === "Enter" || code === "NumpadEnter"
+        ? "enter"
+        : code === "Backspace"
+          ? "backspace"
+          : "alpha";
+  const tone = 1 - 0.5 * v - 0.08 * (width - 1);
+  return {
+    soundClass,
+    stabilized: width >= STABILIZER_MIN_WIDTH,
+    pan: (u * 2 - 1) * MAX_PAN,
+    tone: Math.min(Math.max(tone, 0), 1),
+  };
+}
+
+/* ——— Mixer ——— */
+
+export const MASTER_VOLUME = { min: 0, max: 1, default: 0.8 };
+
+/** Aynı anda çalabilecek en fazla ses – hızlı yazımda en eskisi susturulur */
+const MAX_VOICES = 24;
+/** Ton filtresinin (lowpass) boğuk ve parlak uçları */
+const TONE_MIN_HZ = 2500;
+const TONE_MAX_HZ = 14000;
+
+/** Örnek seslerin sentez seviyesiyle (volume ≈ 0.25) eşleşmesi için kazanç */
+const SAMPLE_GAIN = 4;
+/** Bırakma kayıtları basmaya göre daha kısık çalınır */
+const SAMPLE_UP_GAIN = 0.6;
+
+/** Tek bir tuş sesinin düğümleri */
+interface Voice {
+  /** Kaynakların bağlandığı giriş – ses çalınırken susturmak için */
+  input: GainNode;
+  nodes: AudioNode[];
+  sources: AudioScheduledSourceNode[];
+  /** Henüz bitmemiş kaynak sayısı */
+  pending: number;
+}
+
 /* ——— Engine ——— */
 
 export class KeySoundEngine {
   private ctx: AudioContext | null = null;
   private noiseBuffer: AudioBuffer | null = null;
+  private master: GainNode | null = null;
+  /** Kasa EQ'su: low shelf → rezonans tepesi → high shelf */
+  private caseEq: {
+    low: BiquadFilterNode;
+    resonance: BiquadFilterNode;
+    high: BiquadFilterNode;
+  } | null = null;
+  private acoustics: CaseAcoustics = caseAcoustics(DEFAULT_CASE_MATERIAL_ID, []);
+  private volume = MASTER_VOLUME.default;
+  private voices: Voice[] = [];
+  /** Paket id → yüklenen paket (null = yok / yüklenemedi, undefined = yükleniyor) */
+  private packs = new Map<string, SoundPack | null | undefined>();
+  /** Tekrarı önlemek için son çalınan varyant – "down:alpha" → index */
+  private lastVariant = new Map<string, number>();
 
   /** Lazily create / resume AudioContext (browser autoplay policy) */
   private ensureCtx(): AudioContext {
     if (!this.ctx) {
       this.ctx = new AudioContext();
       this.buildNoiseBuffer();
+      this.buildBus();
     }
     if (this.ctx.state === "suspended") {
       this.ctx.resume();
@@ -90,6 +238,58 @@ export class KeySoundEngine {
     return this.ctx;
   }
 
+  /** Kasa EQ'su → compressor → master gain → çıkış */
+  private buildBus() {
+    if (!this.ctx) return;
+    const ctx = this.ctx;
+
+    const low = ctx.createBiquadFilter();
+    low.type = "lowshelf";
+    low.frequency.value = 250;
+    const resonance = ctx.createBiquadFilter();
+    resonance.type = "peaking";
+    const high = ctx.createBiquadFilter();
+    high.type = "highshelf";
+    high.frequency.value = 4000;
+
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = -18;
+    compressor.knee.value = 12;
+    compressor.ratio.value = 4;
+    compressor.attack.value = 0.003;
+    compressor.release.value = 0.15;
+
+    const master = ctx.createGain();
+    master.gain.value = this.level();
+
+    low.connect(resonance).connect(high).connect(compressor).connect(master);
+    master.connect(ctx.destination);
+    this.caseEq = { low, resonance, high };
+    this.master = master;
+    this.applyAcoustics(0);
+  }
+
+  /** `glide`: parametrelerin yeni değere kayma süresi sabiti (s) */
+  private applyAcoustics(glide: number) {
+    if (!this.ctx || !this.caseEq) return;
+    const now = this.ctx.currentTime;
+    const set = (param: AudioParam, value: number) =>
+      glide > 0 ? param.setTargetAtTime(value, now, glide) : param.setValueAtTime(value, now);
+
+    const { low, resonance, high } = this.caseEq;
+    const a = this.acoustics;
+    set(low.gain, a.lowGain);
+    set(resonance.frequency, a.resonanceFreq);
+    set(resonance.Q, a.resonanceQ);
+    set(resonance.gain, a.resonanceGain);
+    set(high.gain, a.brightness);
+  }
+
+  /** Slider değeri → kazanç (algısal eğri) */
+  private level() {
+    return this.volume * this.volume;
+  }
+
   /** Pre-generate a short noise buffer (≈100 ms) for thock sounds */
   private buildNoiseBuffer() {
     if (!this.ctx) return;
@@ -103,6 +303,122 @@ export class KeySoundEngine {
     this.noiseBuffer = buf;
   }
 
+  /* ——————————————————————————————————————
+     Voices
+     —————————————————————————————————————— */
+
+  /** Tuşun konumuna göre filtrelenip pan'lanan yeni bir ses açar */
+  private startVoice(ctx: AudioContext, key: KeySound): Voice {
+    // Bitmiş sesleri temizle, sınır aşılıyorsa en eskisini sustur
+    this.voices = this.voices.filter((v) => {
+      if (v.pending > 0) return true;
+      v.nodes.forEach((n) => n.disconnect());
+      return false;
+    });
+    while (this.voices.length >= MAX_VOICES) {
+      this.stealVoice(ctx, this.voices.shift()!);
+    }
+
+    const input = ctx.createGain();
+    const tone = ctx.createBiquadFilter();
+    tone.type = "lowpass";
+    tone.frequency.value = TONE_MIN_HZ + (TONE_MAX_HZ - TONE_MIN_HZ) * key.tone;
+    tone.Q.value = 0.7;
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = key.pan;
+    input.connect(tone).connect(panner).connect(this.caseEq!.low);
+
+    const voice: Voice = { input, nodes: [input, tone, panner], sources: [], pending: 0 };
+    this.voices.push(voice);
+    return voice;
+  }
+
+  /** Sesi tıklama yapmadan hızla kısar ve kaynaklarını durdurur */
+  private stealVoice(ctx: AudioContext, voice: Voice) {
+    const now = ctx.currentTime;
+    voice.input.gain.setTargetAtTime(0, now, 0.004);
+    voice.sources.forEach((src) => src.stop(now + 0.025));
+  }
+
+  /** Kaynağı başlatır; sesin son kaynağı bitince düğümler ayrılır */
+  private schedule(
+    voice: Voice,
+    src: AudioScheduledSourceNode,
+    start: number,
+    stop: number
+  ) {
+    voice.sources.push(src);
+    voice.pending++;
+    src.onended = () => {
+      if (--voice.pending === 0) voice.nodes.forEach((n) => n.disconnect());
+    };
+    src.start(start);
+    src.stop(stop);
+  }
+
+  /* ——————————————————————————————————————
+     Sample packs
+     —————————————————————————————————————— */
+
+  /** Yüklü paketi döndürür; ilk istekte arka planda yüklemeyi başlatır */
+  private packFor(id: string | undefined): SoundPack | null {
+    if (!id || !this.ctx || !isShippedPack(id)) return null;
+    if (!this.packs.has(id)) {
+      this.packs.set(id, undefined);
+      loadSoundPack(this.ctx, id).then((pack) => this.packs.set(id, pack));
+    }
+    return this.packs.get(id) ?? null;
+  }
+
+  private playSample(
+    ctx: AudioContext,
+    voice: Voice,
+    buffers: AudioBuffer[],
+    slot: string,
+    level: number
+  ) {
+    if (buffers.length === 0) return;
+    const i = pickVariant(buffers.length, this.lastVariant.get(slot));
+    this.lastVariant.set(slot, i);
+
+    const src = ctx.createBufferSource();
+    src.buffer = buffers[i];
+    src.playbackRate.value = this.jitter(1, 0.03);
+
+    const gain = ctx.createGain();
+    gain.gain.value = this.jitter(level);
+
+    src.connect(gain).connect(voice.input);
+    const now = ctx.currentTime;
+    this.schedule(voice, src, now, now + buffers[i].duration / src.playbackRate.value);
+  }
+
+  /** Paket varsa kaydı çalar ve true döner; yoksa çağıran sentezler */
+  private playPack(
+    ctx: AudioContext,
+    voice: Voice,
+    p: SwitchProfile,
+    key: KeySound,
+    direction: "down" | "up"
+  ): boolean {
+    const pack = this.packFor(p.pack);
+    if (!pack) return false;
+
+    const level =
+      pack.gain * p.volume * SAMPLE_GAIN * (direction === "up" ? SAMPLE_UP_GAIN : 1);
+    this.playSample(
+      ctx,
+      voice,
+      pack[direction][key.soundClass],
+      `${direction}:${key.soundClass}`,
+      level
+    );
+    if (key.stabilized) {
+      this.playSample(ctx, voice, pack.stabilizer, `${direction}:stabilizer`, level * 0.5);
+    }
+    return true;
+  }
+
   /** Slight randomisation for natural feel */
   private jitter(value: number, amount = 0.04): number {
     return value * (1 + (Math.random() - 0.5) * 2 * amount);
@@ -112,10 +428,25 @@ export class KeySoundEngine {
      Public API
      —————————————————————————————————————— */
 
-  /** Play key-DOWN sound for given switch type */
-  playDown(switchId: string) {
+  /** Master ses seviyesi (0–1) – AudioContext yoksa ilk seste uygulanır */
+  setVolume(volume: number) {
+    this.volume = Math.min(Math.max(volume, MASTER_VOLUME.min), MASTER_VOLUME.max);
+    if (this.ctx && this.master) {
+      this.master.gain.setTargetAtTime(this.level(), this.ctx.currentTime, 0.02);
+    }
+  }
+
+  /** Kasa malzemesi / modlarının akustiği – AudioContext yoksa ilk seste uygulanır */
+  setAcoustics(acoustics: CaseAcoustics) {
+    this.acoustics = acoustics;
+    this.applyAcoustics(0.05);
+  }
+
+  /** Play key-DOWN sound for given switch profile */
+  playDown(p: SwitchProfile, key: KeySound = DEFAULT_KEY_SOUND) {
     const ctx = this.ensureCtx();
-    const p = PROFILES[switchId] ?? PROFILES.red;
+    const voice = this.startVoice(ctx, key);
+    if (this.playPack(ctx, voice, p, key, "down")) return;
     const now = ctx.currentTime;
 
     // 1 ─ Noise thock (body of the sound)
@@ -132,9 +463,8 @@ export class KeySoundEngine {
       gain.gain.setValueAtTime(this.jitter(p.volume), now);
       gain.gain.exponentialRampToValueAtTime(0.001, now + p.thockDecay);
 
-      src.connect(bp).connect(gain).connect(ctx.destination);
-      src.start(now);
-      src.stop(now + 0.15);
+      src.connect(bp).connect(gain).connect(voice.input);
+      this.schedule(voice, src, now, now + 0.15);
     }
 
     // 2 ─ Tonal thud (low sine for bottom-out)
@@ -146,9 +476,8 @@ export class KeySoundEngine {
     thudGain.gain.setValueAtTime(p.volume * 0.45, now);
     thudGain.gain.exponentialRampToValueAtTime(0.001, now + 0.04);
 
-    thud.connect(thudGain).connect(ctx.destination);
-    thud.start(now);
-    thud.stop(now + 0.05);
+    thud.connect(thudGain).connect(voice.input);
+    this.schedule(voice, thud, now, now + 0.05);
 
     // 3 ─ Click (clicky / tactile only)
     if (p.clickFreq > 0) {
@@ -163,16 +492,16 @@ export class KeySoundEngine {
         now + p.clickDecay
       );
 
-      click.connect(clickGain).connect(ctx.destination);
-      click.start(now);
-      click.stop(now + p.clickDecay + 0.005);
+      click.connect(clickGain).connect(voice.input);
+      this.schedule(voice, click, now, now + p.clickDecay + 0.005);
     }
   }
 
   /** Play key-UP sound (lighter, higher-pitched thock) */
-  playUp(switchId: string) {
+  playUp(p: SwitchProfile, key: KeySound = DEFAULT_KEY_SOUND) {
     const ctx = this.ensureCtx();
-    const p = PROFILES[switchId] ?? PROFILES.red;
+    const voice = this.startVoice(ctx, key);
+    if (this.playPack(ctx, voice, p, key, "up")) return;
     const now = ctx.currentTime;
 
     if (this.noiseBuffer) {
@@ -188,9 +517,8 @@ export class KeySoundEngine {
       gain.gain.setValueAtTime(p.volume * 0.35, now);
       gain.gain.exponentialRampToValueAtTime(0.001, now + p.thockDecay * 0.6);
 
-      src.connect(bp).connect(gain).connect(ctx.destination);
-      src.start(now);
-      src.stop(now + 0.1);
+      src.connect(bp).connect(gain).connect(voice.input);
+      this.schedule(voice, src, now, now + 0.1);
     }
 
     // Clicky switches also click on release
@@ -206,13 +534,11 @@ export class KeySoundEngine {
         now + p.clickDecay * 0.7
       );
 
-      click.connect(clickGain).connect(ctx.destination);
-      click.start(now);
-      click.stop(now + p.clickDecay * 0.7 + 0.005);
+      click.connect(clickGain).connect(voice.input);
+      this.schedule(voice, click, now, now + p.clickDecay * 0.7 + 0.005);
     }
   }
 }
 
 /** Singleton — import and use anywhere */
 export const soundEngine = new KeySoundEngine();
-
@@ -0,0 +1,147 @@
+/**
+ * Sample Sound Packs
+ * ───────────────────
+ * Gerçek switch kayıtlarından oluşan ses paketleri. Her paket
+ * `public/sounds/<id>/pack.json` manifest'i ile tanımlanır; tuş sınıfı başına
+ * birden çok basma / bırakma varyantı ve stabilizatör tıkırtısı içerebilir.
+ * Paket yoksa veya yüklenemezse motor sentezlenmiş sese düşer.
+ */
+
+export type KeySoundClass = "alpha" | "space" | "enter" | "backspace";
+
+/**
+ * `public/sounds` altında gerçekten bulunan paketler. Listede olmayan paket
+ * hiç istenmez – profil doğrudan sentezle çalar (boşuna 404 yok).
+ * Kayıtlı paketler ertelendi: liste boşken aşağıdaki yükleyici hiç çalışmaz.
+ */
+const SHIPPED_PACKS: readonly string[] = [];
+
+export const isShippedPack = (id: string) => SHIPPED_PACKS.includes(id);
+
+/* ——————————————————————————————————————————————
+   Manifest
+   —————————————————————————————————————————————— */
+
+/**
+ * pack.json – dosya yolları manifest'in bulunduğu klasöre görelidir.
+ * Eksik sınıflar "alpha" varyantlarını kullanır; "alpha" zorunludur.
+ */
+export interface SoundPackManifest {
+  name: string;
+  down: Partial<Record<KeySoundClass, string[]>>;
+  up?: Partial<Record<KeySoundClass, string[]>>;
+  stabilizer?: string[];
+  /** Paket seviyesi çarpanı (varsayılan 1) */
+  gain?: number;
+}
+
+export interface SoundPack {
+  name: string;
+  down: Record<KeySoundClass, AudioBuffer[]>;
+  up: Record<KeySoundClass, AudioBuffer[]>;
+  stabilizer: AudioBuffer[];
+  gain: number;
+}
+
+const SOUND_CLASSES: KeySoundClass[] = ["alpha", "space", "enter", "backspace"];
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const isClassMap = (value: unknown) =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.entries(value).every(
+    ([k, v]) => SOUND_CLASSES.includes(k as KeySoundClass) && isStringList(v)
+  );
+
+function isManifest(value: unknown): value is SoundPackManifest {
+  if (typeof value !== "object" || value === null) return false;
+  const m = value as Record<string, unknown>;
+  return (
+    typeof m.name === "string" &&
+    isClassMap(m.down) &&
+    (m.up === undefined || isClassMap(m.up)) &&
+    (m.stabilizer === undefined || isStringList(m.stabilizer)) &&
+    (m.gain === undefined || typeof m.gain === "number")
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Yükleme
+   —————————————————————————————————————————————— */
+
+const packUrl = (id: string, file: string) =>
+  `/sounds/${encodeURIComponent(id)}/${file}`;
+
+/** Çözülemeyen dosyalar atlanır – tek bozuk varyant paketi düşürmez */
+async function loadBuffers(
+  ctx: BaseAudioContext,
+  id: string,
+  files: string[] = []
+): Promise<AudioBuffer[]> {
+  const buffers = await Promise.all(
+    files.map(async (file) => {
+      try {
+        const res = await fetch(packUrl(id, file));
+        if (!res.ok) return null;
+        return await ctx.decodeAudioData(await res.arrayBuffer());
+      } catch {
+        return null;
+      }
+    })
+  );
+  return buffers.filter((b): b is AudioBuffer => b !== null);
+}
+
+async function loadClassMap(
+  ctx: BaseAudioContext,
+  id: string,
+  map: Partial<Record<KeySoundClass, string[]>> = {},
+  fallback?: Record<KeySoundClass, AudioBuffer[]>
+): Promise<Record<KeySoundClass, AudioBuffer[]>> {
+  const entries = await Promise.all(
+    SOUND_CLASSES.map(async (c) => [c, await loadBuffers(ctx, id, map[c])] as const)
+  );
+  const loaded = Object.fromEntries(entries) as Record<KeySoundClass, AudioBuffer[]>;
+  for (const c of SOUND_CLASSES) {
+    if (loaded[c].length === 0) loaded[c] = fallback?.[c] ?? loaded.alpha;
+  }
+  return loaded;
+}
+
+/** Paketi yükler; manifest yoksa veya hiç "alpha" basma sesi çözülemezse null */
+export async function loadSoundPack(
+  ctx: BaseAudioContext,
+  id: string
+): Promise<SoundPack | null> {
+  try {
+    const res = await fetch(packUrl(id, "pack.json"));
+    if (!res.ok) return null;
+    const manifest: unknown = await res.json();
+    if (!isManifest(manifest)) return null;
+
+    const down = await loadClassMap(ctx, id, manifest.down);
+    if (down.alpha.length === 0) return null;
+    // Bırakma sesi yoksa basma sesleri kullanılır (motor seviyesini düşürür)
+    const up = await loadClassMap(ctx, id, manifest.up, down);
+
+    return {
+      name: manifest.name,
+      down,
+      up,
+      stabilizer: await loadBuffers(ctx, id, manifest.stabilizer),
+      gain: manifest.gain ?? 1,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Rastgele varyant – bir önceki index tekrar seçilmez */
+export function pickVariant(count: number, last: number | undefined): number {
+  if (count <= 1) return 0;
+  if (last === undefined) return Math.floor(Math.random() * count);
+  const i = Math.floor(Math.random() * (count - 1));
+  return i >= last ? i + 1 : i;
+}
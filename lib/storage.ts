@@ -0,0 +1,45 @@
+/**
+ * Local Persistence
+ * ──────────────────
+ * Kullanıcı verisi (özel switch'ler, yazma testi sonuçları vb.) için küçük localStorage yardımcıları.
+ * SSR'da, gizli modda veya kota dolduğunda sessizce no-op olur; bozuk ya da
+ * şemaya uymayan veri `null` döner.
+ */
+
+const PREFIX = "mech-configurator:";
+
+export const STORAGE_KEYS = {
+  customSwitches: "custom-switches",
+  typingResults: "typing-results",
+  savedBuilds: "saved-builds",
+  localePreferences: "locale-preferences",
+  recentColors: "recent-colors",
+} as const;
+
+type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
+
+export function loadJson<T>(
+  key: StorageKey,
+  validate: (value: unknown) => value is T
+): T | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    if (raw === null) return null;
+    const value: unknown = JSON.parse(raw);
+    return validate(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Yazılamazsa (kota dolu / depolama kapalı) false – oturum içi durum korunur */
+export function saveJson(key: StorageKey, value: unknown): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Switch Specs
+ * ─────────────
+ * Switch seçeneklerinin teknik değerleri: tür, kuvvetler (gf), yol (mm) ve
+ * göreli ses seviyesi. Açıklama metni, karşılaştırma tablosu, kuvvet–yol
+ * eğrisi ve sahnedeki basma derinliği bu değerlerden türetilir.
+ */
+
+export type SwitchType = "linear" | "tactile" | "clicky";
+
+/** 1: çok sessiz – 5: çok gürültülü */
+export type SoundLevel = 1 | 2 | 3 | 4 | 5;
+
+export interface SwitchSpec {
+  type: SwitchType;
+  /** Aktivasyon noktasındaki kuvvet (gf) */
+  actuationForce: number;
+  /** Yolun sonundaki kuvvet (gf) */
+  bottomOutForce: number;
+  /** Dokunsal / tıklamalı switch'lerde çıkıntının tepe kuvveti (gf) */
+  tactileForce?: number;
+  /** Aktivasyona kadar yol (mm) */
+  preTravel: number;
+  /** Toplam yol (mm) */
+  totalTravel: number;
+  soundLevel: SoundLevel;
+}
+
+// id'ler store'daki "switches" option id'leriyle eşleşir
+export const SWITCH_SPECS = {
+  red: {
+    type: "linear",
+    actuationForce: 45,
+    bottomOutForce: 62,
+    preTravel: 2,
+    totalTravel: 4,
+    soundLevel: 2,
+  },
+  blue: {
+    type: "clicky",
+    actuationForce: 50,
+    bottomOutForce: 64,
+    tactileForce: 60,
+    preTravel: 2.2,
+    totalTravel: 4,
+    soundLevel: 5,
+  },
+  brown: {
+    type: "tactile",
+    actuationForce: 45,
+    bottomOutForce: 60,
+    tactileForce: 55,
+    preTravel: 2,
+    totalTravel: 4,
+    soundLevel: 3,
+  },
+  speed: {
+    type: "linear",
+    actuationForce: 45,
+    bottomOutForce: 60,
+    preTravel: 1.2,
+    totalTravel: 3.4,
+    soundLevel: 2,
+  },
+  black: {
+    type: "linear",
+    actuationForce: 60,
+    bottomOutForce: 85,
+    preTravel: 2,
+    totalTravel: 4,
+    soundLevel: 3,
+  },
+} satisfies Record<string, SwitchSpec>;
+
+export const DEFAULT_SWITCH_SPEC: SwitchSpec = SWITCH_SPECS.red;
+
+const SWITCH_TYPES: SwitchType[] = ["linear", "tactile", "clicky"];
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/** Dışarıdan gelen (localStorage, kayıtlı yapılandırma) veri için */
+export function isSwitchSpec(value: unknown): value is SwitchSpec {
+  if (typeof value !== "object" || value === null) return false;
+  const s = value as Record<string, unknown>;
+  return (
+    SWITCH_TYPES.includes(s.type as SwitchType) &&
+    isPositive(s.actuationForce) &&
+    isPositive(s.bottomOutForce) &&
+    (s.tactileForce === undefined || isPositive(s.tactileForce)) &&
+    isPositive(s.preTravel) &&
+    isPositive(s.totalTravel) &&
+    s.preTravel < s.totalTravel &&
+    [1, 2, 3, 4, 5].includes(s.soundLevel as number)
+  );
+}
+
+/* ——————————————————————————————————————————————
+   Kuvvet – yol eğrisi (basış)
+   —————————————————————————————————————————————— */
+
+export interface CurvePoint {
+  /** mm */
+  travel: number;
+  /** gf */
+  force: number;
+}
+
+/** Yay ön yükü: aktivasyon – son kuvvet doğrusunun başlangıca uzatılması */
+function springAt(spec: SwitchSpec, travel: number) {
+  const rate =
+    (spec.bottomOutForce - spec.actuationForce) / (spec.totalTravel - spec.preTravel);
+  return spec.actuationForce + rate * (travel - spec.preTravel);
+}
+
+/**
+ * Parçalı doğrusal model. Lineer: yay doğrusu. Dokunsal: yolun ilk yarısında
+ * yumuşak bir çıkıntı. Tıklamalı: aktivasyondan hemen önce keskin tepe ve düşüş.
+ */
+export function forceCurve(spec: SwitchSpec): CurvePoint[] {
+  const { preTravel: pre, totalTravel: total } = spec;
+  const start = Math.max(springAt(spec, 0), spec.actuationForce * 0.5);
+  const point = (travel: number, force: number) => ({ travel, force });
+  const peak = spec.tactileForce ?? spec.actuationForce;
+
+  const bump =
+    spec.type === "tactile"
+      ? [
+          point(pre * 0.2, start + (peak - start) * 0.5),
+          point(pre * 0.45, peak),
+          point(pre * 0.75, spec.actuationForce * 0.92),
+        ]
+      : spec.type === "clicky"
+        ? [point(pre * 0.8, peak), point(pre * 0.86, spec.actuationForce * 0.78)]
+        : [];
+
+  return [
+    point(0, start),
+    ...bump,
+    point(pre, spec.actuationForce),
+    point(total, spec.bottomOutForce),
+  ];
+}
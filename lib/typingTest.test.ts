@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import {
+  computeAccuracy,
+  computeWpm,
+  heatColor,
+  isTypingResultList,
+  maxHits,
+  recordKeyStat,
+  type TypingResult,
+} from "@/lib/typingTest";
+
+describe("computeWpm", () => {
+  it("counts five characters as a word", () => {
+    expect(computeWpm(250, 60_000)).toBe(50);
+    expect(computeWpm(50, 15_000)).toBe(40);
+  });
+
+  it("rounds to whole words per minute", () => {
+    expect(computeWpm(52, 60_000)).toBe(10);
+  });
+
+  it("returns 0 before any time has passed", () => {
+    expect(computeWpm(20, 0)).toBe(0);
+    expect(computeWpm(20, -5)).toBe(0);
+  });
+});
+
+describe("computeAccuracy", () => {
+  it("is the share of correct keystrokes", () => {
+    expect(computeAccuracy(40, 10)).toBe(0.75);
+  });
+
+  it("is perfect with no keystrokes and never negative", () => {
+    expect(computeAccuracy(0, 0)).toBe(1);
+    expect(computeAccuracy(3, 5)).toBe(0);
+  });
+});
+
+describe("recordKeyStat", () => {
+  it("adds hits and errors per key without mutating the input", () => {
+    const empty = {};
+    const once = recordKeyStat(empty, "KeyA", false);
+    const twice = recordKeyStat(once, "KeyA", true);
+    expect(empty).toEqual({});
+    expect(once).toEqual({ KeyA: { hits: 1, errors: 0 } });
+    expect(twice).toEqual({ KeyA: { hits: 2, errors: 1 } });
+    expect(maxHits(recordKeyStat(twice, "KeyB", false))).toBe(2);
+  });
+});
+
+describe("heatColor", () => {
+  it("uses the idle color for keys that were never pressed", () => {
+    const idle = heatColor(undefined, 10, new THREE.Color());
+    expect(idle.getHexString()).toBe(new THREE.Color("#27272a").getHexString());
+  });
+
+  it("turns red at a 25% error rate", () => {
+    const hsl = { h: 0, s: 0, l: 0 };
+    heatColor({ hits: 4, errors: 1 }, 4, new THREE.Color()).getHSL(hsl);
+    expect(hsl.h).toBeCloseTo(0);
+  });
+});
+
+describe("isTypingResultList", () => {
+  const result: TypingResult = {
+    finishedAt: 1_700_000_000_000,
+    wpm: 62,
+    accuracy: 0.96,
+    durationMs: 41_000,
+    keyStats: { KeyA: { hits: 12, errors: 1 } },
+  };
+
+  it("accepts stored results", () => {
+    expect(isTypingResultList([])).toBe(true);
+    expect(isTypingResultList([result])).toBe(true);
+  });
+
+  it("rejects malformed entries", () => {
+    expect(isTypingResultList(result)).toBe(false);
+    expect(isTypingResultList([{ ...result, wpm: "62" }])).toBe(false);
+    expect(isTypingResultList([{ ...result, keyStats: { KeyA: { hits: 1 } } }])).toBe(false);
+  });
+});
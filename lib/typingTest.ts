@@ -0,0 +1,113 @@
+/**
+ * Typing Test
+ * ────────────
+ * Yazma testi metinleri, WPM / doğruluk hesapları ve tuş başına istatistikten
+ * ısı haritası rengi. İstatistikler fiziksel tuşa (KeyboardEvent.code) göre
+ * tutulur; böylece layout ne olursa olsun 3D keycap'lere eşlenebilir.
+ */
+
+import * as THREE from "three";
+import type { Locale } from "@/lib/i18n";
+
+/**
+ * Dile göre metinler – Türkçe metinler Türkçe Q klavyede, İngilizce metinler
+ * yalnızca ASCII karakterlerle her US / uluslararası klavyede yazılabilir.
+ */
+export const TYPING_PASSAGES: Record<Locale, string[]> = {
+  tr: [
+    "mekanik klavyede her tuşun kendine ait bir sesi ve hissi vardır",
+    "iyi bir switch seçimi uzun yazma seanslarında parmakları yormaz",
+    "sabah kahvesini içerken yeni keycap setini takmak ayrı bir keyif",
+    "alüminyum kasa tok bir ses verir ahşap kasa ise daha sıcak tınlar",
+  ],
+  en: [
+    "the quick brown fox jumps over the lazy dog near the river bank",
+    "pack my box with five dozen liquor jugs before the night ends",
+    "every key on a mechanical keyboard has its own sound and feel",
+    "a good switch keeps your fingers fresh through long typing sessions",
+  ],
+};
+
+/** Tuş başına basış ve hatalı basış sayısı */
+export interface KeyStat {
+  hits: number;
+  errors: number;
+}
+
+export type KeyStats = Record<string, KeyStat>;
+
+export interface TypingResult {
+  /** Bitiş zamanı (epoch ms) */
+  finishedAt: number;
+  wpm: number;
+  /** 0–1 */
+  accuracy: number;
+  durationMs: number;
+  keyStats: KeyStats;
+}
+
+/** Kelime = 5 karakter (standart WPM tanımı) */
+export function computeWpm(correctChars: number, elapsedMs: number): number {
+  if (elapsedMs <= 0) return 0;
+  return Math.round((correctChars / 5) / (elapsedMs / 60000));
+}
+
+export function computeAccuracy(keystrokes: number, errors: number): number {
+  return keystrokes === 0 ? 1 : Math.max(0, (keystrokes - errors) / keystrokes);
+}
+
+export function recordKeyStat(stats: KeyStats, code: string, isError: boolean): KeyStats {
+  const prev = stats[code] ?? { hits: 0, errors: 0 };
+  return {
+    ...stats,
+    [code]: { hits: prev.hits + 1, errors: prev.errors + (isError ? 1 : 0) },
+  };
+}
+
+const isKeyStat = (value: unknown): value is KeyStat =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as KeyStat).hits === "number" &&
+  typeof (value as KeyStat).errors === "number";
+
+function isTypingResult(value: unknown): value is TypingResult {
+  if (typeof value !== "object" || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return (
+    typeof r.finishedAt === "number" &&
+    typeof r.wpm === "number" &&
+    typeof r.accuracy === "number" &&
+    typeof r.durationMs === "number" &&
+    typeof r.keyStats === "object" &&
+    r.keyStats !== null &&
+    Object.values(r.keyStats).every(isKeyStat)
+  );
+}
+
+export const isTypingResultList = (value: unknown): value is TypingResult[] =>
+  Array.isArray(value) && value.every(isTypingResult);
+
+/* ——————————————————————————————————————————————
+   Isı haritası
+   —————————————————————————————————————————————— */
+
+/** Hiç basılmamış tuşlar */
+const HEAT_IDLE = new THREE.Color("#27272a");
+
+/**
+ * Parlaklık = sıklık (en çok basılan tuşa göre), ton = hata oranı
+ * (yeşil → kırmızı; %25 ve üzeri hata tam kırmızı).
+ */
+export function heatColor(
+  stat: KeyStat | undefined,
+  maxHits: number,
+  target: THREE.Color
+): THREE.Color {
+  if (!stat || stat.hits === 0 || maxHits === 0) return target.copy(HEAT_IDLE);
+  const frequency = stat.hits / maxHits;
+  const errorRate = Math.min(1, (stat.errors / stat.hits) * 4);
+  return target.setHSL(0.33 * (1 - errorRate), 0.85, 0.2 + frequency * 0.4);
+}
+
+export const maxHits = (stats: KeyStats) =>
+  Object.values(stats).reduce((max, s) => Math.max(max, s.hits), 0);
@@ -0,0 +1,188 @@
+/**
+ * WebM Muxer
+ * ───────────
+ * WebCodecs `VideoEncoder` çıktısını (VP8 / VP9) tek video izli bir WebM
+ * dosyasına yazar. Tüm kareler bellekte olduğundan eleman boyutları baştan
+ * bilinir; her anahtar karede yeni bir Cluster açılır. Cues yazılmaz –
+ * turntable klipleri kısa ve baştan sona oynatılır.
+ */
+
+export type WebmCodec = "V_VP8" | "V_VP9";
+
+interface Frame {
+  data: Uint8Array;
+  /** Mikrosaniye */
+  timestamp: number;
+  key: boolean;
+}
+
+/* ——— EBML ——— */
+
+/** Sayılar uint olarak yazılır; float değerler `float64` ile bayta çevrilir */
+type Element = [id: number, value: number | string | Uint8Array | Element[]];
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  CodecID: 0x86,
+  TrackType: 0x83,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+} as const;
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+/** Boyut alanı her zaman 8 bayt – hesap basit kalır */
+const sizeBytes = (size: number) => {
+  const bytes = [0x01];
+  for (let i = 6; i >= 0; i--) bytes.push(Math.floor(size / 2 ** (i * 8)) & 0xff);
+  return bytes;
+};
+
+const uintBytes = (value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes.length ? bytes : [0];
+};
+
+const float64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+function encode([id, value]: Element): Uint8Array {
+  const body =
+    typeof value === "number"
+      ? Uint8Array.from(uintBytes(value))
+      : typeof value === "string"
+        ? new TextEncoder().encode(value)
+        : value instanceof Uint8Array
+          ? value
+          : concat(value.map(encode));
+  return concat([Uint8Array.from([...idBytes(id), ...sizeBytes(body.length)]), body]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/* ——— Muxer ——— */
+
+export class WebmMuxer {
+  private frames: Frame[] = [];
+
+  constructor(
+    private width: number,
+    private height: number,
+    private codec: WebmCodec
+  ) {}
+
+  /** `VideoEncoder` output callback'inden çağrılır */
+  addChunk(chunk: EncodedVideoChunk) {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.frames.push({ data, timestamp: chunk.timestamp, key: chunk.type === "key" });
+  }
+
+  /** `duration`: mikrosaniye */
+  finish(duration: number): Blob {
+    const ms = (us: number) => Math.round(us / 1000);
+
+    const clusters: Element[] = [];
+    let cluster: Element[] | null = null;
+    let clusterStart = 0;
+    for (const frame of this.frames) {
+      // Blok zaman kodu cluster'a göre int16 – anahtar karede yeni cluster
+      if (!cluster || frame.key || ms(frame.timestamp) - clusterStart > 30_000) {
+        clusterStart = ms(frame.timestamp);
+        cluster = [[ID.Timecode, clusterStart]];
+        clusters.push([ID.Cluster, cluster]);
+      }
+      const header = new Uint8Array(4);
+      header[0] = 0x81; // iz 1
+      new DataView(header.buffer).setInt16(1, ms(frame.timestamp) - clusterStart);
+      header[3] = frame.key ? 0x80 : 0;
+      cluster.push([ID.SimpleBlock, concat([header, frame.data])]);
+    }
+
+    const ebml = encode([
+      ID.EBML,
+      [
+        [ID.EBMLVersion, 1],
+        [ID.EBMLReadVersion, 1],
+        [ID.EBMLMaxIDLength, 4],
+        [ID.EBMLMaxSizeLength, 8],
+        [ID.DocType, "webm"],
+        [ID.DocTypeVersion, 2],
+        [ID.DocTypeReadVersion, 2],
+      ],
+    ]);
+    const info = concat([
+      encode([ID.TimecodeScale, 1_000_000]),
+      encode([ID.MuxingApp, "mech-configurator"]),
+      encode([ID.WritingApp, "mech-configurator"]),
+      encode([ID.Duration, float64(duration / 1000)]),
+    ]);
+    const segment = encode([
+      ID.Segment,
+      concat([
+        encode([ID.Info, info]),
+        encode([
+          ID.Tracks,
+          [
+            [
+              ID.TrackEntry,
+              [
+                [ID.TrackNumber, 1],
+                [ID.TrackUID, 1],
+                [ID.CodecID, this.codec],
+                [ID.TrackType, 1],
+                [
+                  ID.Video,
+                  [
+                    [ID.PixelWidth, this.width],
+                    [ID.PixelHeight, this.height],
+                  ],
+                ],
+              ],
+            ],
+          ],
+        ]),
+        ...clusters.map(encode),
+      ]),
+    ]);
+
+    return new Blob([ebml, segment] as BlobPart[], { type: "video/webm" });
+  }
+}
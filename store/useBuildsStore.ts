@@ -0,0 +1,143 @@
+import { create } from "zustand";
+import {
+  useConfiguratorStore,
+  availableOptions,
+  getSnapshot,
+} from "@/store/useConfiguratorStore";
+import { CUSTOM_LAYOUT_ID } from "@/lib/layouts";
+import { loadJson, saveJson, STORAGE_KEYS } from "@/lib/storage";
+import { captureScene } from "@/lib/sceneCapture";
+import { MESSAGES } from "@/lib/i18n";
+import { useLocaleStore } from "@/store/useLocaleStore";
+import {
+  BUILD_FORMAT_VERSION,
+  MAX_SAVED_BUILDS,
+  createBuildId,
+  migrateBuild,
+  toBuildConfig,
+  type SavedBuild,
+} from "@/lib/savedBuilds";
+
+/** Varsayılan adlar etkin dilde üretilir */
+const builtInNames = () => MESSAGES[useLocaleStore.getState().locale].builds;
+
+/* ——————————————————————————————————————————————
+   Saved Builds Store
+   —————————————————————————————————————————————— */
+
+const THUMBNAIL_WIDTH = 240;
+
+/** "full": kütüphane dolu, "failed": tarayıcı depolamasına yazılamadı */
+export type SaveResult = "saved" | "full" | "failed";
+
+interface BuildsState {
+  /** En yeni başta */
+  builds: SavedBuild[];
+
+  loadBuilds: () => void;
+  /** Editördeki yapılandırmayı kaydeder */
+  saveCurrent: (name: string) => SaveResult;
+  renameBuild: (id: string, name: string) => void;
+  duplicateBuild: (id: string) => SaveResult;
+  deleteBuild: (id: string) => void;
+  /** Kaydı editöre yükler */
+  openBuild: (id: string) => void;
+}
+
+const persist = (builds: SavedBuild[]) => saveJson(STORAGE_KEYS.savedBuilds, builds);
+
+const now = () => new Date().toISOString();
+
+export const useBuildsStore = create<BuildsState>((set, get) => ({
+  builds: [],
+
+  // Eski sürümler okunurken yükseltilir ve güncel formatta geri yazılır
+  loadBuilds: () => {
+    const raw = loadJson(STORAGE_KEYS.savedBuilds, Array.isArray);
+    if (!raw) return;
+    const user = useConfiguratorStore.getState();
+    const builds = raw
+      .map((b) => migrateBuild(b, user))
+      .filter((b): b is SavedBuild => b !== null);
+    set({ builds });
+    persist(builds);
+  },
+
+  saveCurrent: (name) => {
+    const { builds } = get();
+    if (builds.length >= MAX_SAVED_BUILDS) return "full";
+    const state = useConfiguratorStore.getState();
+    const config = toBuildConfig(getSnapshot(state));
+    const switchOpt = availableOptions(state, "switches").find(
+      (o) => o.id === config.selectedOptions.switches
+    );
+    const build: SavedBuild = {
+      version: BUILD_FORMAT_VERSION,
+      id: createBuildId(),
+      name: name.trim() || builtInNames().defaultName(builds.length + 1),
+      createdAt: now(),
+      updatedAt: now(),
+      config,
+      customLayout:
+        config.selectedOptions.layout === CUSTOM_LAYOUT_ID ? state.customLayout : null,
+      customSwitch: switchOpt?.basedOn ? switchOpt : null,
+      thumbnail: captureScene({
+        width: THUMBNAIL_WIDTH,
+        type: "image/jpeg",
+        quality: 0.75,
+      }),
+    };
+    // Yazılamayan kayıt listeye eklenmez – arayüz kaydedildi sanmasın
+    const next = [build, ...builds];
+    if (!persist(next)) return "failed";
+    set({ builds: next });
+    return "saved";
+  },
+
+  renameBuild: (id, name) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const builds = get().builds.map((b) =>
+      b.id === id ? { ...b, name: trimmed, updatedAt: now() } : b
+    );
+    set({ builds });
+    persist(builds);
+  },
+
+  duplicateBuild: (id) => {
+    const { builds } = get();
+    const source = builds.find((b) => b.id === id);
+    if (!source || builds.length >= MAX_SAVED_BUILDS) return "full";
+    const copy: SavedBuild = {
+      ...source,
+      id: createBuildId(),
+      name: builtInNames().copyName(source.name),
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    // Kopya kaynağın hemen önüne eklenir
+    const next = [...builds];
+    next.splice(builds.indexOf(source), 0, copy);
+    if (!persist(next)) return "failed";
+    set({ builds: next });
+    return "saved";
+  },
+
+  deleteBuild: (id) => {
+    const builds = get().builds.filter((b) => b.id !== id);
+    set({ builds });
+    persist(builds);
+  },
+
+  openBuild: (id) => {
+    const build = get().builds.find((b) => b.id === id);
+    if (!build) return;
+    const store = useConfiguratorStore.getState();
+    // Özel switch silinmişse kaydı yeniden okumak onu kaynak switch'e çevirir
+    const { config } = migrateBuild(build, store) ?? build;
+    if (config.selectedOptions.layout === CUSTOM_LAYOUT_ID && build.customLayout) {
+      store.setCustomLayout(build.customLayout);
+    }
+    store.applySnapshot(config);
+  },
+}));
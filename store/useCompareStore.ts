@@ -0,0 +1,85 @@
+import { create } from "zustand";
+import {
+  useConfiguratorStore,
+  resolveOption,
+  getSnapshot,
+  type ConfigSnapshot,
+  type UserOptions,
+} from "@/store/useConfiguratorStore";
+import { CUSTOM_LAYOUT_ID } from "@/lib/layouts";
+import { MESSAGES, optionText } from "@/lib/i18n";
+import { useLocaleStore } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Compare Store
+   —————————————————————————————————————————————— */
+
+export type CompareSlotId = "a" | "b";
+
+/** Sabitlenmiş yapılandırma – özel layout / switch'ler isim ve fiyat için taşınır */
+export interface CompareSlot extends UserOptions {
+  name: string;
+  snapshot: ConfigSnapshot;
+}
+
+interface CompareState {
+  slots: Record<CompareSlotId, CompareSlot | null>;
+  /** Sahnede iki yapılandırma yan yana gösteriliyor */
+  active: boolean;
+
+  pinSlot: (id: CompareSlotId, slot: CompareSlot) => void;
+  /** Editördeki yapılandırmayı slota sabitler */
+  pinCurrent: (id: CompareSlotId, name?: string) => void;
+  clearSlot: (id: CompareSlotId) => void;
+  /** Slotu editöre yükler ve karşılaştırmadan çıkar */
+  loadSlot: (id: CompareSlotId) => void;
+  setActive: (active: boolean) => void;
+}
+
+/** İsim verilmezse etkin dildeki gövde + keycap adından türetilir */
+function defaultName(slot: UserOptions & { snapshot: ConfigSnapshot }) {
+  const messages = MESSAGES[useLocaleStore.getState().locale];
+  const name = (category: "body" | "keycaps") => {
+    const option = resolveOption(slot, category, slot.snapshot.selectedOptions[category]);
+    return option && optionText(messages, category, option).name;
+  };
+  return [name("body"), name("keycaps")].filter(Boolean).join(" · ");
+}
+
+export const useCompareStore = create<CompareState>((set, get) => ({
+  slots: { a: null, b: null },
+  active: false,
+
+  pinSlot: (id, slot) => set((s) => ({ slots: { ...s.slots, [id]: slot } })),
+
+  pinCurrent: (id, name) => {
+    const state = useConfiguratorStore.getState();
+    const slot = {
+      snapshot: getSnapshot(state),
+      customLayout: state.customLayout,
+      customSwitches: state.customSwitches,
+    };
+    get().pinSlot(id, { ...slot, name: name ?? defaultName(slot) });
+  },
+
+  // Tek slot kalınca yan yana görünüm kapanır
+  clearSlot: (id) =>
+    set((s) => ({ slots: { ...s.slots, [id]: null }, active: false })),
+
+  loadSlot: (id) => {
+    const slot = get().slots[id];
+    if (!slot) return;
+    const store = useConfiguratorStore.getState();
+    if (slot.snapshot.selectedOptions.layout === CUSTOM_LAYOUT_ID && slot.customLayout) {
+      store.setCustomLayout(slot.customLayout);
+    }
+    // Sekme ve ses seviyesi editörde kalır
+    store.applySnapshot({ ...slot.snapshot, activeCategory: undefined, volume: undefined });
+    set({ active: false });
+  },
+
+  setActive: (active) => {
+    const { a, b } = get().slots;
+    set({ active: active && a !== null && b !== null });
+  },
+}));
@@ -1,18 +1,100 @@
 import { create } from "zustand";
+import {
+  CUSTOM_LAYOUT_ID,
+  DEFAULT_LAYOUT_ID,
+  type KeyboardLayout,
+  type KeyZone,
+} from "@/lib/layouts";
+import { LEGEND_FONTS, type LegendPosition } from "@/lib/legends";
+import { DEFAULT_PROFILE_ID } from "@/lib/keycapProfiles";
+import {
+  LIGHTING_BRIGHTNESS,
+  LIGHTING_SPEED,
+  type LightingEffect,
+} from "@/lib/lighting";
+import {
+  DEFAULT_SWITCH_SOUND,
+  MASTER_VOLUME,
+  SWITCH_SOUNDS,
+  isSwitchProfile,
+  type SwitchProfile,
+} from "@/lib/soundEngine";
+import { DEFAULT_CASE_MATERIAL_ID, isCaseMod } from "@/lib/caseMaterials";
+import {
+  DEFAULT_SWITCH_SPEC,
+  SWITCH_SPECS,
+  isSwitchSpec,
+  type SwitchSpec,
+} from "@/lib/switchSpecs";
+import { loadJson, saveJson, STORAGE_KEYS } from "@/lib/storage";
+import { paletteColor } from "@/lib/colorPalettes";
+import {
+  fetchCatalog,
+  isAddonAvailable,
+  isAvailable,
+  type Catalog,
+} from "@/lib/catalog";
+import type { PricedConfig } from "@/lib/pricing";
+import {
+  checkOption,
+  repairSelection,
+  type OptionCheck,
+  type ResolutionChange,
+} from "@/lib/compatibility";
 
 /* ——————————————————————————————————————————————
    Types
    —————————————————————————————————————————————— */
 
-export type Category = "body" | "keycaps" | "switches";
+export type Category =
+  | "body"
+  | "material"
+  | "keycaps"
+  | "switches"
+  | "layout"
+  | "legends"
+  | "profile"
+  | "lighting";
 
 export interface ConfigOption {
   id: string;
   name: string;
   color: string;
   description?: string;
+  /** Swatch üzerinde gösterilen kısa etiket (renk olmayan seçenekler için) */
+  badge?: string;
+  /** Switch seçeneklerinin ses profili */
+  sound?: SwitchProfile;
+  /** Switch seçeneklerinin teknik değerleri (açıklama bunlardan türetilir) */
+  spec?: SwitchSpec;
+  /** Kullanıcının türettiği seçeneklerde kaynak option id'si (fiyat için) */
+  basedOn?: string;
 }
 
+/** Paylaşılabilir / geri yüklenebilir yapılandırma durumu */
+export interface ConfigSnapshot {
+  selectedOptions: Record<Category, string>;
+  activeCategory: Category;
+  /** Master ses seviyesi 0–1 (0 = kapalı) */
+  volume: number;
+  legendFont: string;
+  legendPosition: LegendPosition;
+  colorway: Colorway;
+  /** KeyboardEvent.code → keycap option id */
+  keyOverrides: Record<string, string>;
+  lightingEffect: LightingEffect;
+  lightingSpeed: number;
+  lightingBrightness: number;
+  /** Seçili sönümleme modları (CASE_MODS id'leri) */
+  caseMods: string[];
+}
+
+/** Bölge başına keycap option id'si; alphas = selectedOptions.keycaps */
+export type Colorway = Record<KeyZone, string>;
+
+/** Keycap seçiminin uygulanacağı hedef – "paint" modunda fırça rengi seçilir */
+export type KeycapTarget = "all" | KeyZone | "paint";
+
 export interface CategoryInfo {
   id: Category;
   label: string;
@@ -25,8 +107,13 @@ export interface CategoryInfo {
 
 export const CATEGORIES: CategoryInfo[] = [
   { id: "body", label: "Gövde", subtitle: "Kasa Rengi" },
+  { id: "material", label: "Malzeme", subtitle: "Kasa & Akustik" },
   { id: "keycaps", label: "Tuşlar", subtitle: "Keycap Seti" },
   { id: "switches", label: "Switch", subtitle: "Anahtar Türü" },
+  { id: "layout", label: "Layout", subtitle: "Form Faktörü" },
+  { id: "legends", label: "Legend", subtitle: "Tuş Yazıları" },
+  { id: "profile", label: "Profil", subtitle: "Keycap Formu" },
+  { id: "lighting", label: "Işık", subtitle: "RGB Aydınlatma" },
 ];
 
 export const OPTIONS: Record<Category, ConfigOption[]> = {
@@ -39,6 +126,37 @@ export const OPTIONS: Record<Category, ConfigOption[]> = {
     { id: "forest", name: "Forest Green", color: "#1b4332" },
     { id: "rose", name: "Rose Gold", color: "#b76e79" },
   ],
+  // Render / akustik parametreleri lib/caseMaterials.ts'te aynı id ile
+  material: [
+    {
+      id: "plastic",
+      name: "ABS Plastik",
+      color: "#3f3f46",
+      badge: "ABS",
+      description: "Hafif · Boğuk rezonans",
+    },
+    {
+      id: "aluminum",
+      name: "CNC Alüminyum",
+      color: "#9ca3af",
+      badge: "AL",
+      description: "Ağır · Parlak, çınlayan ses",
+    },
+    {
+      id: "polycarbonate",
+      name: "Polikarbonat",
+      color: "#cbd5e1",
+      badge: "PC",
+      description: "Yarı saydam · Yumuşak, dolgun ses",
+    },
+    {
+      id: "wood",
+      name: "Ceviz Ahşap",
+      color: "#8b5a2b",
+      badge: "WD",
+      description: "Doğal doku · Derin, sıcak ses",
+    },
+  ],
   keycaps: [
     { id: "charcoal", name: "Charcoal", color: "#2d2d2d" },
     { id: "cream", name: "Cream White", color: "#f5f0e8" },
@@ -53,77 +171,766 @@ export const OPTIONS: Record<Category, ConfigOption[]> = {
       id: "red",
       name: "Cherry MX Red",
       color: "#e63946",
-      description: "Linear · 45g · Sessiz",
+      sound: SWITCH_SOUNDS.red,
+      spec: SWITCH_SPECS.red,
     },
     {
       id: "blue",
       name: "Cherry MX Blue",
       color: "#457b9d",
-      description: "Clicky · 50g · Tıkırtılı",
+      sound: SWITCH_SOUNDS.blue,
+      spec: SWITCH_SPECS.blue,
     },
     {
       id: "brown",
       name: "Cherry MX Brown",
       color: "#8b5e3c",
-      description: "Tactile · 45g · Dokunsal",
+      sound: SWITCH_SOUNDS.brown,
+      spec: SWITCH_SPECS.brown,
     },
     {
       id: "speed",
       name: "Speed Silver",
       color: "#adb5bd",
-      description: "Linear · 45g · Hızlı",
+      sound: SWITCH_SOUNDS.speed,
+      spec: SWITCH_SPECS.speed,
     },
     {
       id: "black",
       name: "Cherry MX Black",
       color: "#212529",
-      description: "Linear · 60g · Ağır",
+      sound: SWITCH_SOUNDS.black,
+      spec: SWITCH_SPECS.black,
+    },
+  ],
+  // id'ler lib/layouts.ts içindeki LAYOUTS anahtarlarıyla eşleşir
+  layout: [
+    {
+      id: "60",
+      name: "Compact 60%",
+      color: "#3f3f46",
+      badge: "60",
+      description: "61 tuş · Ok tuşu yok",
+    },
+    {
+      id: "65",
+      name: "Compact 65%",
+      color: "#52525b",
+      badge: "65",
+      description: "68 tuş · Ok tuşları",
+    },
+    {
+      id: "75",
+      name: "Exploded 75%",
+      color: "#71717a",
+      badge: "75",
+      description: "84 tuş · F-sırası",
+    },
+    {
+      id: "tkl",
+      name: "Tenkeyless",
+      color: "#a1a1aa",
+      badge: "TKL",
+      description: "87 tuş · Numpad yok",
+    },
+    {
+      id: "full",
+      name: "Full-size",
+      color: "#d4d4d8",
+      badge: "100",
+      description: "104 tuş · Numpad",
     },
   ],
+  // Legend rengi – font ve konum store'da ayrı tutulur
+  legends: [
+    { id: "white", name: "Snow White", color: "#f4f4f5" },
+    { id: "black", name: "Ink Black", color: "#18181b" },
+    { id: "gold", name: "Gold Foil", color: "#d4af37" },
+    { id: "violet", name: "Violet", color: "#a78bfa" },
+    { id: "mint", name: "Mint", color: "#6ee7b7" },
+    { id: "red", name: "Signal Red", color: "#ef4444" },
+  ],
+  // id'ler lib/keycapProfiles.ts içindeki KEYCAP_PROFILES anahtarlarıyla eşleşir
+  profile: [
+    {
+      id: "cherry",
+      name: "Cherry",
+      color: "#3f3f46",
+      badge: "CHY",
+      description: "Alçak · Silindirik çanak · Heykelsi",
+    },
+    {
+      id: "oem",
+      name: "OEM",
+      color: "#52525b",
+      badge: "OEM",
+      description: "Orta yükseklik · Silindirik çanak",
+    },
+    {
+      id: "sa",
+      name: "SA",
+      color: "#71717a",
+      badge: "SA",
+      description: "Yüksek · Küresel çanak · Retro",
+    },
+    {
+      id: "xda",
+      name: "XDA",
+      color: "#a1a1aa",
+      badge: "XDA",
+      description: "Tek tip · Geniş üst yüz",
+    },
+    {
+      id: "dsa",
+      name: "DSA",
+      color: "#d4d4d8",
+      badge: "DSA",
+      description: "Tek tip · Alçak · Küresel çanak",
+    },
+  ],
+  // Arka ışık rengi – efekt, hız ve parlaklık store'da ayrı tutulur
+  lighting: [
+    { id: "white", name: "Cool White", color: "#f8fafc" },
+    { id: "violet", name: "Ultra Violet", color: "#8b5cf6" },
+    { id: "cyan", name: "Ice Cyan", color: "#22d3ee" },
+    { id: "magenta", name: "Magenta", color: "#ec4899" },
+    { id: "red", name: "Laser Red", color: "#ef4444" },
+    { id: "green", name: "Neon Green", color: "#22c55e" },
+    { id: "amber", name: "Amber", color: "#f59e0b" },
+  ],
+};
+
+/** İçe aktarılmış KLE layout'u yüklüyken layout listesine eklenir */
+export const CUSTOM_LAYOUT_OPTION: ConfigOption = {
+  id: CUSTOM_LAYOUT_ID,
+  name: "Custom (KLE)",
+  color: "#27272a",
+  badge: "KLE",
+  description: "İçe aktarılan layout",
+};
+
+export const DEFAULT_SELECTION: Record<Category, string> = {
+  body: OPTIONS.body[0].id,
+  keycaps: OPTIONS.keycaps[0].id,
+  switches: OPTIONS.switches[0].id,
+  layout: DEFAULT_LAYOUT_ID,
+  legends: OPTIONS.legends[0].id,
+  profile: DEFAULT_PROFILE_ID,
+  lighting: OPTIONS.lighting[0].id,
+  material: DEFAULT_CASE_MATERIAL_ID,
 };
 
+export const KEY_ZONES: { id: KeyZone; name: string }[] = [
+  { id: "alphas", name: "Alfa" },
+  { id: "modifiers", name: "Modifier" },
+  { id: "accents", name: "Aksan" },
+];
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const uniformColorway = (keycapId: string): Colorway => ({
+  alphas: keycapId,
+  modifiers: keycapId,
+  accents: keycapId,
+});
+
+/* ——————————————————————————————————————————————
+   Helpers
+   —————————————————————————————————————————————— */
+
+/** Statik seçenek veya özel renk olarak seçilmiş palet rengi */
+export function findOption(
+  category: Category,
+  optionId: string
+): ConfigOption | undefined {
+  return (
+    OPTIONS[category].find((o) => o.id === optionId) ?? paletteColor(category, optionId)
+  );
+}
+
+/** Statik listeye eklenen kullanıcı verisi */
+export interface UserOptions {
+  customLayout: KeyboardLayout | null;
+  customSwitches: ConfigOption[];
+}
+
+export const NO_USER_OPTIONS: UserOptions = {
+  customLayout: null,
+  customSwitches: [],
+};
+
+/** Kategorinin o anki seçenekleri – statik liste + kullanıcı verisi */
+export function availableOptions(
+  state: UserOptions,
+  category: Category
+): ConfigOption[] {
+  if (category === "layout" && state.customLayout) {
+    return [...OPTIONS.layout, CUSTOM_LAYOUT_OPTION];
+  }
+  if (category === "switches" && state.customSwitches.length > 0) {
+    return [...OPTIONS.switches, ...state.customSwitches];
+  }
+  return OPTIONS[category];
+}
+
+/** Id'nin seçeneği – listede olmayan palet renkleri dahil */
+export const resolveOption = (state: UserOptions, category: Category, optionId: string) =>
+  availableOptions(state, category).find((o) => o.id === optionId) ??
+  findOption(category, optionId);
+
+/** Seçili switch'in sesi – panelde düzenlenen taslak önceliklidir */
+export function activeSwitchSound(
+  state: UserOptions & {
+    selectedOptions: Record<Category, string>;
+    soundTuning: SwitchProfile | null;
+  }
+): SwitchProfile {
+  return (
+    state.soundTuning ??
+    availableOptions(state, "switches").find(
+      (o) => o.id === state.selectedOptions.switches
+    )?.sound ??
+    DEFAULT_SWITCH_SOUND
+  );
+}
+
+/** Switch'in teknik değerleri – özel switch türetildiği switch'inkini taşır */
+export const switchSpecOf = (option: ConfigOption | undefined): SwitchSpec =>
+  option?.spec ?? findOption("switches", option?.basedOn ?? "")?.spec ?? DEFAULT_SWITCH_SPEC;
+
+/** Seçili switch'in teknik değerleri – sahnede basma derinliği ve hızı */
+export function activeSwitchSpec(
+  state: UserOptions & { selectedOptions: Record<Category, string> }
+): SwitchSpec {
+  return switchSpecOf(
+    availableOptions(state, "switches").find((o) => o.id === state.selectedOptions.switches)
+  );
+}
+
+/** Fiyat hesabı için yapılandırma – özel switch kaynak switch'in fiyatını alır */
+export function pricedConfig(
+  state: UserOptions & PricedConfig
+): PricedConfig {
+  const switchOpt = availableOptions(state, "switches").find(
+    (o) => o.id === state.selectedOptions.switches
+  );
+  return {
+    selectedOptions: {
+      ...state.selectedOptions,
+      switches: switchOpt?.basedOn ?? state.selectedOptions.switches,
+    },
+    colorway: state.colorway,
+    keyOverrides: state.keyOverrides,
+    lightingEffect: state.lightingEffect,
+    caseMods: state.caseMods,
+  };
+}
+
+/**
+ * Seçeneğin mevcut seçimlerle uyumu. Alternatifler stokta olan seçenekler
+ * arasından, listedeki sırayla önerilir. Keycap'ler kurallara tabi değildir.
+ */
+export function optionCompatibility(
+  state: UserOptions & {
+    selectedOptions: Record<Category, string>;
+    catalog: Catalog | null;
+  },
+  category: Category,
+  optionId: string
+): OptionCheck {
+  if (category === "keycaps") return { status: "ok" };
+  return checkOption(state.selectedOptions, category, optionId, (c) =>
+    selectableIds(state, c)
+  );
+}
+
+/** Kategorinin stokta olan option id'leri – alternatif önerileri bunlardan seçilir */
+const selectableIds = (
+  state: UserOptions & { catalog: Catalog | null },
+  category: Category
+) =>
+  availableOptions(state, category)
+    .map((o) => o.id)
+    .filter((id) => isAvailable(state.catalog, category, id));
+
+/** Uyumsuz seçim – kullanıcı onaylarsa `changes` ile birlikte uygulanır */
+export interface PendingResolution {
+  category: Category;
+  optionId: string;
+  reasons: string[];
+  changes: ResolutionChange[];
+}
+
+const isCustomSwitchList = (value: unknown): value is ConfigOption[] =>
+  Array.isArray(value) &&
+  value.every(
+    (o) =>
+      typeof o?.id === "string" &&
+      typeof o.name === "string" &&
+      typeof o.color === "string" &&
+      isSwitchProfile(o.sound) &&
+      (o.spec === undefined || isSwitchSpec(o.spec))
+  );
+
+const RECENT_COLORS_LIMIT = 8;
+
+const isRecentColors = (value: unknown): value is Partial<Record<Category, string[]>> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.entries(value).every(
+    ([category, ids]) =>
+      CATEGORIES.some((c) => c.id === category) &&
+      Array.isArray(ids) &&
+      ids.every((id) => typeof id === "string")
+  );
+
+/** Seçili option id'lerinden sahnede kullanılan renkleri türetir */
+function colorsFor(selected: Record<Category, string>, user: UserOptions) {
+  return {
+    bodyColor: findOption("body", selected.body)?.color ?? OPTIONS.body[0].color,
+    keycapColor:
+      findOption("keycaps", selected.keycaps)?.color ?? OPTIONS.keycaps[0].color,
+    switchColor:
+      availableOptions(user, "switches").find((o) => o.id === selected.switches)
+        ?.color ?? OPTIONS.switches[0].color,
+    legendColor:
+      findOption("legends", selected.legends)?.color ?? OPTIONS.legends[0].color,
+    lightingColor:
+      findOption("lighting", selected.lighting)?.color ??
+      OPTIONS.lighting[0].color,
+  };
+}
+
+/* ——————————————————————————————————————————————
+   Geçmiş (undo / redo)
+   —————————————————————————————————————————————— */
+
+/** Geri alınabilen kısım – `selectOption`'ın değiştirdiği alanlar */
+export type HistoryEntry = Pick<
+  ConfigSnapshot,
+  "selectedOptions" | "colorway" | "lightingEffect"
+>;
+
+const HISTORY_LIMIT = 50;
+
+const historyEntry = (state: HistoryEntry): HistoryEntry => ({
+  selectedOptions: state.selectedOptions,
+  colorway: state.colorway,
+  lightingEffect: state.lightingEffect,
+});
+
+/** Değişiklikten önceki durumu geçmişe ekler; yeni değişiklik ileri geçmişi siler */
+const pushHistory = (state: HistoryEntry & { past: HistoryEntry[] }) => ({
+  past: [...state.past, historyEntry(state)].slice(-HISTORY_LIMIT),
+  future: [] as HistoryEntry[],
+});
+
 /* ——————————————————————————————————————————————
    Store
    —————————————————————————————————————————————— */
 
+/** Özel switch'in varsayılan metinleri – kaynak switch adından */
+export interface CustomSwitchLabels {
+  name: (base: string) => string;
+  description: (base: string) => string;
+}
+
 interface ConfiguratorState {
   activeCategory: Category;
   bodyColor: string;
   keycapColor: string;
   switchColor: string;
+  legendColor: string;
+  lightingColor: string;
   selectedOptions: Record<Category, string>;
-  soundEnabled: boolean;
+  volume: number;
+  customLayout: KeyboardLayout | null;
+  /** Kaydedilmiş özel switch sesleri (localStorage) */
+  customSwitches: ConfigOption[];
+  /** Ses panelinde düzenlenen, henüz kaydedilmemiş profil */
+  soundTuning: SwitchProfile | null;
+  /** Son kullanılan özel renkler (palet id'leri, en yenisi başta – localStorage) */
+  recentColors: Partial<Record<Category, string[]>>;
+  legendFont: string;
+  legendPosition: LegendPosition;
+  colorway: Colorway;
+  keyOverrides: Record<string, string>;
+  keycapTarget: KeycapTarget;
+  /** Paint modunda tıklanan tuşa uygulanacak keycap option id'si */
+  brush: string;
+  lightingEffect: LightingEffect;
+  /** Efekt hızı çarpanı */
+  lightingSpeed: number;
+  /** 0–1 */
+  lightingBrightness: number;
+  caseMods: string[];
+  /** Fiyat / stok kataloğu – yüklenene kadar null */
+  catalog: Catalog | null;
+  catalogError: string | null;
+  pendingResolution: PendingResolution | null;
+  /** Eskiden yeniye geri alınabilir seçimler */
+  past: HistoryEntry[];
+  /** Geri alınanlar – en yakını başta */
+  future: HistoryEntry[];
 
   setActiveCategory: (category: Category) => void;
   selectOption: (category: Category, optionId: string) => void;
-  toggleSound: () => void;
+  applyResolution: () => void;
+  dismissResolution: () => void;
+  undo: () => void;
+  redo: () => void;
+  setVolume: (volume: number) => void;
+  /**
+   * Kayıtlı / paylaşılan durumu uygular. Seçimler kurallara uydurulur;
+   * yapılan değişiklikler döner (çözülemezse seçimler değişmez).
+   */
+  applySnapshot: (snapshot: Partial<ConfigSnapshot>) => ResolutionChange[];
+  /** Layout verisini seçmeden saklar – snapshot yüklemeden önce */
+  setCustomLayout: (layout: KeyboardLayout) => void;
+  /** İçe aktarılan layout'u saklar ve `selectOption` üzerinden seçer */
+  importLayout: (layout: KeyboardLayout) => void;
+  setLegendFont: (fontId: string) => void;
+  setLegendPosition: (position: LegendPosition) => void;
+  setKeycapTarget: (target: KeycapTarget) => void;
+  paintKey: (code: string) => void;
+  clearKeyOverrides: () => void;
+  setLightingEffect: (effect: LightingEffect) => void;
+  setLightingSpeed: (speed: number) => void;
+  setLightingBrightness: (brightness: number) => void;
+  toggleCaseMod: (id: string) => void;
+  loadCatalog: () => Promise<void>;
+  loadCustomSwitches: () => void;
+  loadRecentColors: () => void;
+  /** Özel renk seçimi – palet rengi son kullanılanlara eklenir */
+  selectPaletteColor: (category: Category, id: string) => void;
+  tuneSound: (patch: Partial<SwitchProfile>) => void;
+  resetSoundTuning: () => void;
+  /** `labels`: ad verilmezse kullanılan ad ve açıklama, etkin dilde */
+  saveCustomSwitch: (name: string, labels: CustomSwitchLabels) => void;
+  deleteCustomSwitch: (id: string) => void;
 }
 
-export const useConfiguratorStore = create<ConfiguratorState>((set) => ({
+export const useConfiguratorStore = create<ConfiguratorState>((set, get) => ({
   activeCategory: "body",
-  bodyColor: OPTIONS.body[0].color,
-  keycapColor: OPTIONS.keycaps[0].color,
-  switchColor: OPTIONS.switches[0].color,
-  selectedOptions: {
-    body: OPTIONS.body[0].id,
-    keycaps: OPTIONS.keycaps[0].id,
-    switches: OPTIONS.switches[0].id,
-  },
-  soundEnabled: true,
+  ...colorsFor(DEFAULT_SELECTION, NO_USER_OPTIONS),
+  selectedOptions: DEFAULT_SELECTION,
+  volume: MASTER_VOLUME.default,
+  customLayout: null,
+  customSwitches: [],
+  soundTuning: null,
+  recentColors: {},
+  legendFont: LEGEND_FONTS[0].id,
+  legendPosition: "top",
+  colorway: uniformColorway(DEFAULT_SELECTION.keycaps),
+  keyOverrides: {},
+  keycapTarget: "all",
+  brush: OPTIONS.keycaps[OPTIONS.keycaps.length - 1].id,
+  lightingEffect: "off",
+  lightingSpeed: LIGHTING_SPEED.default,
+  lightingBrightness: LIGHTING_BRIGHTNESS.default,
+  caseMods: [],
+  catalog: null,
+  catalogError: null,
+  pendingResolution: null,
+  past: [],
+  future: [],
 
-  setActiveCategory: (category) => set({ activeCategory: category }),
+  setActiveCategory: (category) =>
+    set({ activeCategory: category, pendingResolution: null }),
 
   selectOption: (category, optionId) => {
-    const option = OPTIONS[category].find((o) => o.id === optionId);
-    if (!option) return;
+    const option = resolveOption(get(), category, optionId);
+    if (!option || !isAvailable(get().catalog, category, optionId)) return;
+
+    // Uyumsuz seçim hemen uygulanmaz – önerilen değişiklikler onaya sunulur
+    const compat = optionCompatibility(get(), category, optionId);
+    if (compat.status === "blocked") return;
+    if (compat.status === "resolvable") {
+      set({
+        pendingResolution: {
+          category,
+          optionId,
+          reasons: compat.reasons,
+          changes: compat.changes,
+        },
+      });
+      return;
+    }
+    if (get().pendingResolution) set({ pendingResolution: null });
+
+    if (category === "keycaps") {
+      const { keycapTarget, colorway, selectedOptions } = get();
+      if (keycapTarget === "paint") {
+        set({ brush: optionId });
+        return;
+      }
+      const next =
+        keycapTarget === "all"
+          ? uniformColorway(optionId)
+          : { ...colorway, [keycapTarget]: optionId };
+      if (KEY_ZONES.every((z) => next[z.id] === colorway[z.id])) return;
+      set({
+        ...pushHistory(get()),
+        colorway: next,
+        selectedOptions: { ...selectedOptions, keycaps: next.alphas },
+        keycapColor: findOption("keycaps", next.alphas)?.color ?? option.color,
+      });
+      return;
+    }
 
     set((state) => ({
+      ...(state.selectedOptions[category] !== optionId && pushHistory(state)),
       selectedOptions: { ...state.selectedOptions, [category]: optionId },
       ...(category === "body" && { bodyColor: option.color }),
-      ...(category === "keycaps" && { keycapColor: option.color }),
-      ...(category === "switches" && { switchColor: option.color }),
+      ...(category === "switches" && {
+        switchColor: option.color,
+        soundTuning: null,
+      }),
+      ...(category === "legends" && { legendColor: option.color }),
+      // Işık kapalıyken renk seçmek sabit ışığı açar
+      ...(category === "lighting" && {
+        lightingColor: option.color,
+        ...(state.lightingEffect === "off" && { lightingEffect: "static" as const }),
+      }),
     }));
   },
 
-  toggleSound: () => set((state) => ({ soundEnabled: !state.soundEnabled })),
+  applyResolution: () => {
+    const { pendingResolution: pending, selectedOptions, colorway } = get();
+    if (!pending) return;
+    const history = pushHistory(get());
+    // Seçim değişikliklerle birlikte uygulanır – ara durum kurallara takılmaz
+    const next = { ...selectedOptions, [pending.category]: pending.optionId };
+    for (const change of pending.changes) next[change.category] = change.to;
+    set({ pendingResolution: null });
+    get().applySnapshot({ selectedOptions: next, colorway });
+    // Seçimin yan etkileri (ör. ışığı açmak) için
+    get().selectOption(pending.category, pending.optionId);
+    // Çözüm + seçim tek adımda geri alınır
+    set(history);
+  },
+
+  dismissResolution: () => set({ pendingResolution: null }),
+
+  undo: () => {
+    const { past, future } = get();
+    if (past.length === 0) return;
+    const current = historyEntry(get());
+    get().applySnapshot(past[past.length - 1]);
+    set({
+      past: past.slice(0, -1),
+      future: [current, ...future],
+      pendingResolution: null,
+    });
+  },
+
+  redo: () => {
+    const { past, future } = get();
+    if (future.length === 0) return;
+    const current = historyEntry(get());
+    get().applySnapshot(future[0]);
+    set({
+      past: [...past, current].slice(-HISTORY_LIMIT),
+      future: future.slice(1),
+      pendingResolution: null,
+    });
+  },
+
+  setVolume: (volume) =>
+    set({ volume: clamp(volume, MASTER_VOLUME.min, MASTER_VOLUME.max) }),
+
+  applySnapshot: (snapshot) => {
+    const state = get();
+    const colorway =
+      snapshot.colorway ??
+      (snapshot.selectedOptions
+        ? uniformColorway(snapshot.selectedOptions.keycaps)
+        : state.colorway);
+    const requested = {
+      ...state.selectedOptions,
+      ...snapshot.selectedOptions,
+      keycaps: colorway.alphas,
+    };
+    // Kuralların yasakladığı kombinasyon uyumlu alternatiflerle değiştirilir
+    const repaired = repairSelection(requested, (c) => selectableIds(state, c));
+    const selectedOptions = repaired?.selection ?? {
+      ...state.selectedOptions,
+      keycaps: colorway.alphas,
+    };
+    set({
+      selectedOptions,
+      colorway,
+      keyOverrides: snapshot.keyOverrides ?? state.keyOverrides,
+      ...colorsFor(selectedOptions, state),
+      soundTuning: snapshot.selectedOptions ? null : state.soundTuning,
+      activeCategory: snapshot.activeCategory ?? state.activeCategory,
+      volume: snapshot.volume ?? state.volume,
+      legendFont: snapshot.legendFont ?? state.legendFont,
+      legendPosition: snapshot.legendPosition ?? state.legendPosition,
+      lightingEffect: snapshot.lightingEffect ?? state.lightingEffect,
+      lightingSpeed: snapshot.lightingSpeed ?? state.lightingSpeed,
+      lightingBrightness: snapshot.lightingBrightness ?? state.lightingBrightness,
+      caseMods: snapshot.caseMods ?? state.caseMods,
+    });
+    return repaired?.changes ?? [];
+  },
+
+  setCustomLayout: (layout) => set({ customLayout: layout }),
+
+  // Uyumluluk kuralları, onay ve geri alma diğer seçimlerle aynı yoldan geçer
+  importLayout: (layout) => {
+    set({ customLayout: layout });
+    get().selectOption("layout", CUSTOM_LAYOUT_ID);
+  },
+
+  setLegendFont: (fontId) => {
+    if (!LEGEND_FONTS.some((f) => f.id === fontId)) return;
+    set({ legendFont: fontId });
+  },
+
+  setLegendPosition: (position) => set({ legendPosition: position }),
+
+  setKeycapTarget: (target) => set({ keycapTarget: target }),
+
+  /** Aynı renkle tekrar tıklamak override'ı kaldırır */
+  paintKey: (code) =>
+    set((state) => {
+      const { [code]: current, ...rest } = state.keyOverrides;
+      return {
+        keyOverrides:
+          current === state.brush ? rest : { ...rest, [code]: state.brush },
+      };
+    }),
+
+  clearKeyOverrides: () => set({ keyOverrides: {} }),
+
+  setLightingEffect: (effect) => set({ lightingEffect: effect }),
+
+  setLightingSpeed: (speed) =>
+    set({ lightingSpeed: clamp(speed, LIGHTING_SPEED.min, LIGHTING_SPEED.max) }),
+
+  setLightingBrightness: (brightness) =>
+    set({
+      lightingBrightness: clamp(
+        brightness,
+        LIGHTING_BRIGHTNESS.min,
+        LIGHTING_BRIGHTNESS.max
+      ),
+    }),
+
+  toggleCaseMod: (id) => {
+    if (!isCaseMod(id)) return;
+    // Stokta olmayan mod eklenemez, ama seçiliyse kaldırılabilir
+    if (!get().caseMods.includes(id) && !isAddonAvailable(get().catalog, id)) return;
+    set((state) => ({
+      caseMods: state.caseMods.includes(id)
+        ? state.caseMods.filter((m) => m !== id)
+        : [...state.caseMods, id],
+    }));
+  },
+
+  loadCatalog: async () => {
+    try {
+      set({ catalog: await fetchCatalog(), catalogError: null });
+    } catch (err) {
+      set({ catalogError: err instanceof Error ? err.message : String(err) });
+    }
+  },
+
+  loadCustomSwitches: () => {
+    const saved = loadJson(STORAGE_KEYS.customSwitches, isCustomSwitchList);
+    if (saved) set({ customSwitches: saved });
+  },
+
+  loadRecentColors: () => {
+    const saved = loadJson(STORAGE_KEYS.recentColors, isRecentColors);
+    if (saved) set({ recentColors: saved });
+  },
+
+  selectPaletteColor: (category, id) => {
+    if (!paletteColor(category, id)) return;
+    const { recentColors } = get();
+    const list = [id, ...(recentColors[category] ?? []).filter((c) => c !== id)];
+    const next = { ...recentColors, [category]: list.slice(0, RECENT_COLORS_LIMIT) };
+    saveJson(STORAGE_KEYS.recentColors, next);
+    set({ recentColors: next });
+    get().selectOption(category, id);
+  },
+
+  // Düzenlenen ses sentezlenir – örnek paketi devre dışı kalır
+  tuneSound: (patch) =>
+    set((state) => ({
+      soundTuning: { ...activeSwitchSound(state), ...patch, pack: undefined },
+    })),
+
+  resetSoundTuning: () => set({ soundTuning: null }),
+
+  /** Taslak (veya mevcut) sesi yeni bir switch olarak kaydeder ve seçer */
+  saveCustomSwitch: (name, labels) => {
+    const state = get();
+    const current = availableOptions(state, "switches").find(
+      (o) => o.id === state.selectedOptions.switches
+    );
+    const baseId = current?.basedOn ?? current?.id ?? DEFAULT_SELECTION.switches;
+    const base = findOption("switches", baseId) ?? OPTIONS.switches[0];
+
+    const option: ConfigOption = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: name.trim() || labels.name(base.name),
+      color: base.color,
+      description: labels.description(base.name),
+      badge: "♪",
+      sound: activeSwitchSound(state),
+      spec: switchSpecOf(current),
+      basedOn: base.id,
+    };
+    const customSwitches = [...state.customSwitches, option];
+    saveJson(STORAGE_KEYS.customSwitches, customSwitches);
+    set({
+      customSwitches,
+      soundTuning: null,
+      selectedOptions: { ...state.selectedOptions, switches: option.id },
+      switchColor: option.color,
+    });
+  },
+
+  deleteCustomSwitch: (id) => {
+    const state = get();
+    const removed = state.customSwitches.find((o) => o.id === id);
+    if (!removed) return;
+    const customSwitches = state.customSwitches.filter((o) => o.id !== id);
+    saveJson(STORAGE_KEYS.customSwitches, customSwitches);
+
+    // Seçili olan siliniyorsa türetildiği switch'e dön
+    if (state.selectedOptions.switches !== id) {
+      set({ customSwitches });
+      return;
+    }
+    const fallback =
+      findOption("switches", removed.basedOn ?? "") ?? OPTIONS.switches[0];
+    set({
+      customSwitches,
+      soundTuning: null,
+      selectedOptions: { ...state.selectedOptions, switches: fallback.id },
+      switchColor: fallback.color,
+    });
+  },
 }));
+
+/** Store'un o anki paylaşılabilir durumunu döndürür */
+export function getSnapshot(state: ConfigSnapshot): ConfigSnapshot {
+  return {
+    selectedOptions: state.selectedOptions,
+    activeCategory: state.activeCategory,
+    volume: state.volume,
+    legendFont: state.legendFont,
+    legendPosition: state.legendPosition,
+    colorway: state.colorway,
+    keyOverrides: state.keyOverrides,
+    lightingEffect: state.lightingEffect,
+    lightingSpeed: state.lightingSpeed,
+    lightingBrightness: state.lightingBrightness,
+    caseMods: state.caseMods,
+  };
+}
@@ -0,0 +1,99 @@
+import { create } from "zustand";
+import { useMemo } from "react";
+import {
+  DEFAULT_LOCALE,
+  MESSAGES,
+  detectLocale,
+  isLocale,
+  localeInfo,
+  type Locale,
+} from "@/lib/i18n";
+import type { Catalog, Currency } from "@/lib/catalog";
+import { formatDelta, formatPrice } from "@/lib/pricing";
+import { loadJson, saveJson, STORAGE_KEYS } from "@/lib/storage";
+import { useConfiguratorStore } from "@/store/useConfiguratorStore";
+
+/* ——————————————————————————————————————————————
+   Locale Store
+   —————————————————————————————————————————————— */
+
+interface LocalePreferences {
+  locale: Locale;
+  /** null: dilin varsayılan para birimi */
+  currency: string | null;
+}
+
+function isPreferences(value: unknown): value is LocalePreferences {
+  const prefs = value as Partial<LocalePreferences> | null;
+  return (
+    isLocale(prefs?.locale) && (prefs.currency === null || typeof prefs.currency === "string")
+  );
+}
+
+interface LocaleState extends LocalePreferences {
+  /** İlk yüklemede: kayıtlı tercih, yoksa tarayıcı dili */
+  loadPreferences: () => void;
+  setLocale: (locale: Locale) => void;
+  setCurrency: (code: string) => void;
+}
+
+export const useLocaleStore = create<LocaleState>((set, get) => {
+  const persist = () => {
+    const { locale, currency } = get();
+    saveJson(STORAGE_KEYS.localePreferences, { locale, currency });
+  };
+
+  return {
+    // SSR ile aynı başlar – tespit mount sonrası yapılır (hydration uyumsuzluğu olmasın)
+    locale: DEFAULT_LOCALE,
+    currency: null,
+
+    loadPreferences: () => {
+      const saved = loadJson(STORAGE_KEYS.localePreferences, isPreferences);
+      set(saved ?? { locale: detectLocale(navigator.languages ?? [navigator.language]) });
+    },
+
+    setLocale: (locale) => {
+      set({ locale });
+      persist();
+    },
+
+    setCurrency: (code) => {
+      set({ currency: code });
+      persist();
+    },
+  };
+});
+
+/* ——————————————————————————————————————————————
+   Selectors & hooks
+   —————————————————————————————————————————————— */
+
+export const useMessages = () => useLocaleStore((s) => MESSAGES[s.locale]);
+
+/** Seçili (yoksa dile ait, o da yoksa temel) para birimi */
+export function displayCurrency(
+  catalog: Catalog,
+  { locale, currency }: LocalePreferences
+): Currency {
+  const code = currency ?? localeInfo(locale).currency;
+  return catalog.currencies.find((c) => c.code === code) ?? catalog.currencies[0];
+}
+
+/** Fiyat biçimlendiriciler; katalog yüklenene kadar null */
+export function usePriceFormat() {
+  const catalog = useConfiguratorStore((s) => s.catalog);
+  const locale = useLocaleStore((s) => s.locale);
+  const currency = useLocaleStore((s) => s.currency);
+
+  return useMemo(() => {
+    if (!catalog) return null;
+    const display = displayCurrency(catalog, { locale, currency });
+    const tag = localeInfo(locale).tag;
+    return {
+      currency: display,
+      price: (amount: number) => formatPrice(amount, display, tag),
+      delta: (amount: number) => formatDelta(amount, display, tag),
+    };
+  }, [catalog, locale, currency]);
+}
@@ -0,0 +1,85 @@
+import { create } from "zustand";
+import {
+  createRecording,
+  type RecordedEvent,
+  type Recording,
+} from "@/lib/recording";
+import { localeInfo, MESSAGES } from "@/lib/i18n";
+import { useLocaleStore } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Record / Replay Store
+   —————————————————————————————————————————————— */
+
+/** idle · recording: tuşlar yakalanıyor · playing: KeyboardModel kaydı çalıyor */
+export type RecorderStatus = "idle" | "recording" | "playing";
+
+interface RecorderState {
+  status: RecorderStatus;
+  /** Son kayıt veya içe aktarılan kayıt */
+  recording: Recording | null;
+  /** Oynatma sonunda başa dön (fuar demoları için varsayılan açık) */
+  loop: boolean;
+  /** Kayıt sürerken yakalanan olaylar – `t`: performance.now() */
+  captured: RecordedEvent[];
+  /** Kayda başlarken seçili switch */
+  captureSwitchId: string;
+
+  startRecording: (switchId: string) => void;
+  stopRecording: () => void;
+  /** KeyboardModel pressKey / releaseKey'den çağrılır */
+  capture: (code: string, type: RecordedEvent["type"]) => void;
+  play: () => void;
+  stop: () => void;
+  setLoop: (loop: boolean) => void;
+  loadRecording: (recording: Recording) => void;
+}
+
+export const useRecorderStore = create<RecorderState>((set, get) => ({
+  status: "idle",
+  recording: null,
+  loop: true,
+  captured: [],
+  captureSwitchId: "",
+
+  startRecording: (switchId) =>
+    set({ status: "recording", captured: [], captureSwitchId: switchId }),
+
+  // Hiç tuşa basılmadıysa önceki kayıt korunur
+  stopRecording: () => {
+    const { status, captured, captureSwitchId, recording } = get();
+    if (status !== "recording") return;
+    const hasPress = captured.some((e) => e.type === "down");
+    const { locale } = useLocaleStore.getState();
+    const time = new Date().toLocaleTimeString(localeInfo(locale).tag);
+    set({
+      status: "idle",
+      captured: [],
+      recording: hasPress
+        ? createRecording(MESSAGES[locale].recorder.defaultName(time), captureSwitchId, captured)
+        : recording,
+    });
+  },
+
+  capture: (code, type) => {
+    const { status, captured } = get();
+    if (status !== "recording") return;
+    // Kayıt bir bırakma ile başlayamaz (kayıttan önce basılmış tuş)
+    if (type === "up" && !captured.some((e) => e.code === code)) return;
+    set({ captured: [...captured, { t: performance.now(), code, type }] });
+  },
+
+  play: () => {
+    if (!get().recording) return;
+    set({ status: "playing", captured: [] });
+  },
+
+  stop: () => {
+    if (get().status === "recording") get().stopRecording();
+    else set({ status: "idle" });
+  },
+
+  setLoop: (loop) => set({ loop }),
+
+  loadRecording: (recording) => set({ recording, status: "idle", captured: [] }),
+}));
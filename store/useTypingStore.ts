@@ -0,0 +1,134 @@
+import { create } from "zustand";
+import {
+  TYPING_PASSAGES,
+  computeAccuracy,
+  computeWpm,
+  isTypingResultList,
+  recordKeyStat,
+  type KeyStats,
+  type TypingResult,
+} from "@/lib/typingTest";
+import { loadJson, saveJson, STORAGE_KEYS } from "@/lib/storage";
+import { useLocaleStore } from "@/store/useLocaleStore";
+
+/* ——————————————————————————————————————————————
+   Typing Test Store
+   —————————————————————————————————————————————— */
+
+/** Saklanan en fazla sonuç */
+const MAX_RESULTS = 20;
+
+/** off: kapalı · ready: ilk tuş bekleniyor · running · finished: sonuç ekranı */
+export type TypingStatus = "off" | "ready" | "running" | "finished";
+
+interface TypingState {
+  status: TypingStatus;
+  passage: string;
+  /** Yazılan karakterler (hatalılar dahil) */
+  input: string;
+  keystrokes: number;
+  errors: number;
+  keyStats: KeyStats;
+  startedAt: number | null;
+  /** En yeni başta */
+  results: TypingResult[];
+  /** 3D keycap'lerde gösterilen istatistik – null: ısı haritası kapalı */
+  heatmap: KeyStats | null;
+
+  loadResults: () => void;
+  startTest: () => void;
+  closeTest: () => void;
+  /** KeyboardModel'in keydown dinleyicisinden çağrılır; tuş teste sayıldıysa true */
+  handleKey: (code: string, key: string) => boolean;
+  toggleHeatmap: () => void;
+}
+
+/** Etkin dilin metinlerinden, bir öncekinden farklı olanı */
+function pickPassage(current?: string) {
+  const passages = TYPING_PASSAGES[useLocaleStore.getState().locale];
+  const pool = passages.filter((p) => p !== current);
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+const FRESH_TEST = {
+  input: "",
+  keystrokes: 0,
+  errors: 0,
+  keyStats: {},
+  startedAt: null,
+};
+
+export const useTypingStore = create<TypingState>((set, get) => ({
+  status: "off",
+  passage: TYPING_PASSAGES.tr[0],
+  ...FRESH_TEST,
+  results: [],
+  heatmap: null,
+
+  loadResults: () => {
+    const saved = loadJson(STORAGE_KEYS.typingResults, isTypingResultList);
+    if (saved) set({ results: saved });
+  },
+
+  startTest: () =>
+    set((state) => ({
+      status: "ready",
+      passage: pickPassage(state.passage),
+      ...FRESH_TEST,
+      heatmap: null,
+    })),
+
+  closeTest: () => set({ status: "off", ...FRESH_TEST, heatmap: null }),
+
+  handleKey: (code, key) => {
+    const state = get();
+    if (state.status !== "ready" && state.status !== "running") return false;
+
+    if (key === "Backspace") {
+      set({ input: state.input.slice(0, -1) });
+      return true;
+    }
+    // Yalnızca karakter üreten tuşlar (Shift, Tab, oklar vb. sayılmaz)
+    if (key.length !== 1) return false;
+
+    const now = Date.now();
+    const startedAt = state.startedAt ?? now;
+    const isError = key !== state.passage[state.input.length];
+    const input = state.input + key;
+    const keystrokes = state.keystrokes + 1;
+    const errors = state.errors + (isError ? 1 : 0);
+    const keyStats = recordKeyStat(state.keyStats, code, isError);
+
+    if (input.length < state.passage.length) {
+      set({ status: "running", input, keystrokes, errors, keyStats, startedAt });
+      return true;
+    }
+
+    const correct = [...input].filter((c, i) => c === state.passage[i]).length;
+    const result: TypingResult = {
+      finishedAt: now,
+      wpm: computeWpm(correct, now - startedAt),
+      accuracy: computeAccuracy(keystrokes, errors),
+      durationMs: now - startedAt,
+      keyStats,
+    };
+    const results = [result, ...state.results].slice(0, MAX_RESULTS);
+    saveJson(STORAGE_KEYS.typingResults, results);
+    set({
+      status: "finished",
+      input,
+      keystrokes,
+      errors,
+      keyStats,
+      startedAt,
+      results,
+      heatmap: keyStats,
+    });
+    return true;
+  },
+
+  toggleHeatmap: () =>
+    set((state) => ({
+      heatmap: state.heatmap ? null : (state.results[0]?.keyStats ?? null),
+    })),
+}));
@@ -0,0 +1,64 @@
+import { create } from "zustand";
+import type { Category } from "@/store/useConfiguratorStore";
+import type { CameraViewId } from "@/lib/cameraViews";
+
+/* ——————————————————————————————————————————————
+   View Store – sahnenin inceleme modları (yapılandırmaya dahil değil)
+   —————————————————————————————————————————————— */
+
+/** Kameranın gideceği yer: adlandırılmış açı veya odaklanılan dünya noktası */
+export type CameraGoal =
+  | { view: CameraViewId }
+  | { point: [number, number, number] };
+
+interface ViewState {
+  /** Keycap'ler kaldırılır, altındaki switch'ler görünür */
+  exploded: boolean;
+  /** Patlatılmış görünümde kasa, köpük, PCB ve plate katmanları ayrılır */
+  layers: boolean;
+  /** Serbest inceleme – yakınlaştırma, kaydırma ve tam tepeden bakış açık */
+  inspect: boolean;
+  cameraGoal: CameraGoal | null;
+  /** Her istekte artar – aynı hedef tekrar seçildiğinde de kamera gider */
+  cameraRequest: number;
+
+  setExploded: (exploded: boolean) => void;
+  setLayers: (layers: boolean) => void;
+  setInspect: (inspect: boolean) => void;
+  setCameraView: (view: CameraViewId) => void;
+  /** Noktaya odaklanır; yaklaşınca geri çıkılabilsin diye inceleme açılır */
+  focusOn: (point: [number, number, number]) => void;
+}
+
+export const useViewStore = create<ViewState>((set) => ({
+  exploded: false,
+  layers: false,
+  inspect: false,
+  cameraGoal: null,
+  cameraRequest: 0,
+
+  setExploded: (exploded) => set({ exploded }),
+  setLayers: (layers) => set({ layers }),
+
+  // İncelemeden çıkınca kamera başlangıç açısına döner
+  setInspect: (inspect) =>
+    set((s) =>
+      inspect
+        ? { inspect }
+        : { inspect, cameraGoal: { view: "home" }, cameraRequest: s.cameraRequest + 1 }
+    ),
+
+  setCameraView: (view) =>
+    set((s) => ({ cameraGoal: { view }, cameraRequest: s.cameraRequest + 1 })),
+
+  focusOn: (point) =>
+    set((s) => ({
+      inspect: true,
+      cameraGoal: { point },
+      cameraRequest: s.cameraRequest + 1,
+    })),
+}));
+
+/** Switch sekmesinde görünüm kendiliğinden patlatılır */
+export const isExploded = (view: Pick<ViewState, "exploded">, activeCategory: Category) =>
+  view.exploded || activeCategory === "switches";